@@ -65,6 +65,20 @@ export const AppLayout = ({ children }: Props): ViewResult => {
                     >
                       Notes
                     </a>
+                    <a
+                      href="/tasks"
+                      @click=${handleNavClick}
+                      class="text-zinc-600 hover:text-zinc-900"
+                    >
+                      Tasks
+                    </a>
+                    <a
+                      href="/trash"
+                      @click=${handleNavClick}
+                      class="text-zinc-600 hover:text-zinc-900"
+                    >
+                      Trash
+                    </a>
                     <a
                       href="/profile"
                       @click=${handleNavClick}
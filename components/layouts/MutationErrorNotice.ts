@@ -0,0 +1,93 @@
+// components/layouts/MutationErrorNotice.ts
+import { html, nothing, type TemplateResult } from "lit-html";
+import {
+  dismissMutationError,
+  lostContentOf,
+  type RejectedMutation,
+} from "../../lib/client/stores/mutationErrorStore";
+import { clientLog } from "../../lib/client/logger.client";
+import { runClientUnscoped } from "../../lib/client/runtime";
+
+interface Props {
+  errors: readonly RejectedMutation[];
+}
+
+const describeMutation = (name: string): string => {
+  switch (name) {
+    case "createNote":
+      return "Creating a note";
+    case "updateNote":
+      return "Your edit to a note";
+    case "updateBlock":
+      return "Your edit to a block";
+    case "toggleTask":
+      return "Ticking off a task";
+    case "deleteNote":
+      return "Moving a note to the trash";
+    case "restoreNote":
+      return "Restoring a note";
+    case "purgeNote":
+      return "Deleting a note forever";
+    default:
+      return `The change "${name}"`;
+  }
+};
+
+/**
+ * Tells the user which of their edits the server rejected, so content that
+ * disappeared after the next pull can still be copied out.
+ */
+export const MutationErrorNotice = ({ errors }: Props): TemplateResult => {
+  if (errors.length === 0) return html``;
+
+  const onCopy = (content: string) => {
+    void navigator.clipboard.writeText(content).catch((err: unknown) => {
+      runClientUnscoped(
+        clientLog(
+          "warn",
+          "Failed to copy rejected content to clipboard",
+          err,
+          "MutationErrorNotice:copy",
+        ),
+      );
+    });
+  };
+
+  return html`
+    <div
+      class="fixed bottom-4 right-4 z-50 flex w-96 max-w-full flex-col gap-2"
+      role="alert"
+    >
+      ${errors.map((error) => {
+        const lostContent = lostContentOf(error);
+        return html`
+          <div
+            class="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 shadow-md"
+          >
+            <p class="font-medium">
+              ${describeMutation(error.name)} was not saved.
+            </p>
+            <p class="mt-1">${error.reason}</p>
+            <div class="mt-2 flex justify-end gap-3">
+              ${lostContent !== null
+                ? html`<button
+                    class="font-medium text-red-700 hover:text-red-900"
+                    @click=${() => onCopy(lostContent)}
+                  >
+                    Copy content
+                  </button>`
+                : nothing}
+              <button
+                class="text-red-600 hover:text-red-900"
+                @click=${() =>
+                  runClientUnscoped(dismissMutationError(error.id))}
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        `;
+      })}
+    </div>
+  `;
+};
@@ -0,0 +1,80 @@
+// components/layouts/SyncStatusIndicator.ts
+import { html, nothing, type TemplateResult } from "lit-html";
+import type { SyncStatus } from "../../lib/client/stores/syncStatusStore";
+import type { ConnectionState } from "../../lib/client/stores/connectionStore";
+
+interface Props {
+  status: SyncStatus;
+  connection: ConnectionState;
+}
+
+const describeConnection = (connection: ConnectionState): string => {
+  switch (connection) {
+    case "connected":
+      return "Live updates on";
+    case "connecting":
+      return "Connecting…";
+    case "reconnecting":
+      return "Reconnecting…";
+    case "disconnected":
+      return "Live updates off";
+  }
+};
+
+/**
+ * A small badge in the corner that says whether edits are reaching the
+ * server: Replicache's online flag, the poke socket, edits not yet sent and
+ * those sent but not yet confirmed, and the time of the last pull that got
+ * through.
+ */
+export const SyncStatusIndicator = ({
+  status,
+  connection,
+}: Props): TemplateResult => {
+  if (!status.active) return html``;
+
+  const dotClass = !status.online
+    ? "bg-red-500"
+    : status.unsavedChanges > 0 || connection !== "connected"
+      ? "bg-amber-500"
+      : "bg-green-500";
+
+  return html`
+    <div
+      class="fixed bottom-4 left-4 z-40 flex items-center gap-2 rounded-full border border-zinc-200 bg-white px-3 py-1 text-xs text-zinc-600 shadow-sm"
+      role="status"
+      aria-live="polite"
+    >
+      <span class="${dotClass} h-2 w-2 rounded-full"></span>
+      <span>${status.online ? "Online" : "Offline"}</span>
+      <span class="text-zinc-300">·</span>
+      <span>${describeConnection(connection)}</span>
+      ${status.unsavedChanges > 0
+        ? html`<span class="text-zinc-300">·</span>
+            <span class="font-medium text-amber-700">
+              ${status.unsavedChanges} unsaved
+              ${status.unsavedChanges === 1 ? "change" : "changes"}
+            </span>`
+        : nothing}
+      ${status.unconfirmedChanges > 0
+        ? html`<span class="text-zinc-300">·</span>
+            <span>
+              ${status.unconfirmedChanges}
+              ${status.unconfirmedChanges === 1 ? "change" : "changes"} sent,
+              awaiting confirmation
+            </span>`
+        : nothing}
+      ${status.lastPulledAt
+        ? html`<span class="text-zinc-300">·</span>
+            <span title=${status.lastPulledAt.toLocaleString()}>
+              Synced ${status.lastPulledAt.toLocaleTimeString()}
+            </span>`
+        : nothing}
+      ${status.syncing
+        ? html`<span
+            class="h-3 w-3 animate-spin rounded-full border-2 border-zinc-300 border-t-zinc-600"
+          ></span>`
+        : nothing}
+    </div>
+  `;
+};
@@ -2,6 +2,7 @@
 // FILE: components/layouts/app-shell.ts
 // =================================================================
 import { render, html } from "lit-html";
+import { effect } from "@preact/signals-core";
 import { Stream, Effect, Fiber, Layer } from "effect";
 import {
   appStateStream,
@@ -14,6 +15,12 @@ import { clientLog } from "../../lib/client/logger.client";
 import { runClientPromise, runClientUnscoped } from "../../lib/client/runtime";
 import { type AuthModel } from "../../lib/client/stores/authStore";
 import { LocationLive } from "../../lib/client/LocationService";
+import { mutationErrors } from "../../lib/client/stores/mutationErrorStore";
+import { MutationErrorNotice } from "./MutationErrorNotice";
+import { syncStatus } from "../../lib/client/stores/syncStatusStore";
+import { connectionState } from "../../lib/client/stores/connectionStore";
+import { SyncStatusIndicator } from "./SyncStatusIndicator";
+import { registerServiceWorker } from "../../lib/client/serviceWorker";
 
 const hasAllPerms = (
   needed: string[],
@@ -125,6 +132,21 @@ const processStateChange = (
 
 export class AppShell extends HTMLElement {
   private mainFiber: Fiber.RuntimeFiber<void, unknown> | undefined;
+  private noticeRoot: HTMLElement | undefined;
+  private unsubscribeNotices: (() => void) | undefined;
+  private statusRoot: HTMLElement | undefined;
+  private unsubscribeStatus: (() => void) | undefined;
+
+  /**
+   * Asks the browser to confirm leaving while edits are still unpushed,
+   * note document edits not yet sent included (see `syncStatus`). Edits the
+   * server has taken are safe, confirmed or not.
+   */
+  private readonly onBeforeUnload = (event: BeforeUnloadEvent) => {
+    if (syncStatus.value.unsavedChanges === 0) return;
+    event.preventDefault();
+    event.returnValue = "";
+  };
 
   connectedCallback() {
     runClientUnscoped(
@@ -147,6 +169,29 @@ export class AppShell extends HTMLElement {
     );
 
     this.mainFiber = Effect.runFork(Stream.runDrain(mainAppStream));
+
+    // Rejected mutations are shown on top of whatever page is active, so
+    // they render into their own container that route changes never touch.
+    const noticeRoot = document.createElement("div");
+    this.append(noticeRoot);
+    this.noticeRoot = noticeRoot;
+    this.unsubscribeNotices = mutationErrors.subscribe((errors) => {
+      render(MutationErrorNotice({ errors }), noticeRoot);
+    });
+
+    const statusRoot = document.createElement("div");
+    this.append(statusRoot);
+    this.statusRoot = statusRoot;
+    this.unsubscribeStatus = effect(() => {
+      render(
+        SyncStatusIndicator({
+          status: syncStatus.value,
+          connection: connectionState.value,
+        }),
+        statusRoot,
+      );
+    });
+    window.addEventListener("beforeunload", this.onBeforeUnload);
   }
 
   disconnectedCallback() {
@@ -161,7 +206,13 @@ export class AppShell extends HTMLElement {
     if (this.mainFiber) {
       void runClientPromise(Fiber.interrupt(this.mainFiber));
     }
+    this.unsubscribeNotices?.();
+    this.noticeRoot?.remove();
+    this.unsubscribeStatus?.();
+    this.statusRoot?.remove();
+    window.removeEventListener("beforeunload", this.onBeforeUnload);
   }
 }
 
 customElements.define("app-shell", AppShell);
+registerServiceWorker();
@@ -1,19 +1,103 @@
 // FILE: components/pages/note-detail-page.ts
 import { html } from "lit-html";
-import { pipe, Effect, Queue, Ref, Fiber, Stream } from "effect";
+import { pipe, Effect, Queue, Ref, Fiber, Stream, Either } from "effect";
 import { Schema } from "@effect/schema";
 
 import { runClientUnscoped } from "../../lib/client/runtime";
 import { rep } from "../../lib/client/replicache";
+import { noteBaseVersionKey } from "../../lib/client/replicache/helpers";
 import { clientLog } from "../../lib/client/logger.client";
 import { BlockSchema, NoteSchema } from "../../lib/shared/schemas";
+import {
+  presenceSessions,
+  setLocalPresence,
+  type PresenceSession,
+} from "../../lib/client/stores/presenceStore";
 
 import type { Note } from "../../types/generated/public/Note";
 import type { Block } from "../../types/generated/public/Block";
+import { linksToTitle } from "../../lib/shared/wikiLinks";
+import { extractQueries, parseQuery, runQuery } from "../../lib/shared/query";
 
 import { handleAction } from "./notes/detail/actions";
 import { renderView } from "./notes/detail/view";
-import type { ViewResult, Model, Action } from "./notes/detail/types";
+import type {
+  ViewResult,
+  Model,
+  Action,
+  Backlink,
+  NoteData,
+  NoteQuery,
+} from "./notes/detail/types";
+
+/**
+ * Blocks in other notes with a link to `note`, each with the outline around
+ * it: its ancestors and its direct children.
+ */
+const findBacklinks = (
+  note: Note,
+  notes: readonly Note[],
+  blocks: readonly Block[],
+): Backlink[] => {
+  const notesById = new Map(notes.map((n) => [n.id as string, n]));
+  const blocksById = new Map(blocks.map((b) => [b.id as string, b]));
+  const ancestorsOf = (block: Block) => {
+    const ancestors: string[] = [];
+    for (
+      let parent = block.parent_id ? blocksById.get(block.parent_id) : null;
+      parent;
+      parent = parent.parent_id ? blocksById.get(parent.parent_id) : null
+    ) {
+      ancestors.unshift(parent.content);
+    }
+    return ancestors;
+  };
+
+  return blocks.flatMap((block) => {
+    const source = block.note_id ? notesById.get(block.note_id) : undefined;
+    if (!source || source.id === note.id) return [];
+    if (!block.links.some((link) => linksToTitle(link, note.title))) return [];
+    return [
+      {
+        block,
+        note: { id: source.id, title: source.title },
+        ancestors: ancestorsOf(block),
+        children: blocks
+          .filter((child) => child.parent_id === block.id)
+          .sort((a, b) => a.order - b.order)
+          .map((child) => child.content),
+      },
+    ];
+  });
+};
+
+/**
+ * Runs the note's ```query fences over the blocks of every note outside the
+ * trash, in outline order within each note (as the `note.query` procedure
+ * does on the server).
+ */
+const runNoteQueries = (
+  note: Note,
+  notes: readonly Note[],
+  blocks: readonly Block[],
+): NoteQuery[] => {
+  const sources = extractQueries(note.content);
+  if (sources.length === 0) return [];
+  const noteIds = new Set<string>(notes.map((n) => n.id));
+  const queryable = blocks
+    .filter((b) => b.deleted_at === null && b.note_id && noteIds.has(b.note_id))
+    .sort(
+      (a, b) =>
+        (a.note_id ?? "").localeCompare(b.note_id ?? "") || a.order - b.order,
+    );
+  return sources.map((source) => ({
+    source,
+    result: Either.map(parseQuery(source), (query) => ({
+      query,
+      rows: runQuery(query, queryable),
+    })),
+  }));
+};
 
 export const NoteDetailView = (id: string): ViewResult => {
   const container = document.createElement("div");
@@ -23,8 +107,21 @@ export const NoteDetailView = (id: string): ViewResult => {
       status: "loading",
       note: null,
       blocks: [],
+      notes: [],
+      backlinks: [],
+      queries: [],
+      linkPrompt: null,
       error: null,
       saveFiber: null,
+      presence: [],
+      baseVersion: null,
+      history: {
+        open: false,
+        status: "idle",
+        revisions: [],
+        diff: null,
+        error: null,
+      },
     });
     const actionQueue = yield* Queue.unbounded<Action>();
 
@@ -54,10 +151,7 @@ export const NoteDetailView = (id: string): ViewResult => {
       ),
     );
 
-    const replicacheStream: Stream.Stream<
-      { note: Note | null; blocks: Block[] },
-      string
-    > = Stream.async((emit) => {
+    const replicacheStream = Stream.async<NoteData, string>((emit) => {
       if (!rep) {
         void emit.fail("Replicache is not initialized.");
         return;
@@ -67,7 +161,16 @@ export const NoteDetailView = (id: string): ViewResult => {
       const unsubscribe = rep.subscribe(
         async (tx) => {
           const noteJSON = await tx.get(`note/${id}`);
-          if (!noteJSON) return { note: null, blocks: [] };
+          if (!noteJSON) {
+            return {
+              note: null,
+              blocks: [],
+              baseVersion: null,
+              notes: [],
+              backlinks: [],
+              queries: [],
+            };
+          }
           const note = Schema.decodeUnknownSync(NoteSchema)(noteJSON, {
             onExcessProperty: "ignore",
           });
@@ -94,10 +197,32 @@ export const NoteDetailView = (id: string): ViewResult => {
               return [];
             }
           });
+          const notes = (
+            await tx.scan({ prefix: "note/" }).values().toArray()
+          ).flatMap((json) => {
+            const decoded = Schema.decodeUnknownEither(NoteSchema)(json, {
+              onExcessProperty: "ignore",
+            });
+            return Either.isRight(decoded) && decoded.right.deleted_at === null
+              ? [decoded.right]
+              : [];
+          });
           const filteredBlocks = blocks
             .filter((b) => b.note_id === id)
             .sort((a, b) => a.order - b.order);
-          return { note, blocks: filteredBlocks };
+          const baseVersion = await tx.get(noteBaseVersionKey(id));
+          return {
+            note,
+            blocks: filteredBlocks,
+            baseVersion: typeof baseVersion === "number" ? baseVersion : null,
+            notes: notes.map(({ id, title, content }) => ({
+              id,
+              title,
+              content,
+            })),
+            backlinks: findBacklinks(note, notes, blocks),
+            queries: runNoteQueries(note, notes, blocks),
+          };
         },
         {
           onData: (data) => {
@@ -120,6 +245,15 @@ export const NoteDetailView = (id: string): ViewResult => {
       return Effect.sync(unsubscribe);
     });
 
+    // Other sessions of this user that are on the same note.
+    const presenceStream: Stream.Stream<readonly PresenceSession[]> =
+      Stream.async((emit) => {
+        const unsubscribe = presenceSessions.subscribe((sessions) => {
+          void emit.single(sessions.filter((s) => s.noteId === id));
+        });
+        return Effect.sync(unsubscribe);
+      });
+
     const mainLoop = Effect.gen(function* () {
       const actionProcessor = Queue.take(actionQueue).pipe(
         Effect.flatMap((action) => handleAction(action, model, propose)),
@@ -135,8 +269,16 @@ export const NoteDetailView = (id: string): ViewResult => {
         ),
         Stream.runDrain,
       );
+      const presenceSubscriber = presenceStream.pipe(
+        Stream.runForEach((sessions) =>
+          propose({ type: "PRESENCE_UPDATED", payload: sessions }),
+        ),
+      );
       yield* renderEffect; // Initial render
-      yield* Effect.all([actionProcessor, dataSubscriber], {
+      yield* Effect.sync(() =>
+        setLocalPresence({ noteId: id, editing: false }),
+      );
+      yield* Effect.all([actionProcessor, dataSubscriber, presenceSubscriber], {
         concurrency: "unbounded",
       });
     }).pipe(
@@ -164,6 +306,7 @@ export const NoteDetailView = (id: string): ViewResult => {
         ),
       );
       runClientUnscoped(Fiber.interrupt(fiber));
+      setLocalPresence({ noteId: null, editing: false });
     },
   };
 };
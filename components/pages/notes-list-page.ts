@@ -7,11 +7,15 @@ import { animate, stagger } from "motion";
 import { runClientUnscoped } from "../../lib/client/runtime";
 import { rep } from "../../lib/client/replicache";
 import { clientLog } from "../../lib/client/logger.client";
-import { NoteSchema } from "../../lib/shared/schemas";
+import { NoteSchema, SyncedTagSchema } from "../../lib/shared/schemas";
 import type { Note } from "../../types/generated/public/Note";
+import {
+  INITIAL_SYNC_KEY,
+  type InitialSyncStatus,
+} from "../../lib/shared/sync";
 import { handleAction } from "./notes/list/actions";
 import { renderView } from "./notes/list/view";
-import type { ViewResult, Model, Action } from "./notes/list/types";
+import type { ViewResult, Model, Action, TagSummary } from "./notes/list/types";
 
 // --- View Entry Point ---
 export const NotesView = (): ViewResult => {
@@ -19,9 +23,11 @@ export const NotesView = (): ViewResult => {
   const componentProgram = Effect.gen(function* () {
     const model = yield* Ref.make<Model>({
       notes: [],
+      tags: [],
       isLoading: true,
       isCreating: false,
       error: null,
+      initialSync: null,
     });
     const actionQueue = yield* Queue.unbounded<Action>();
 
@@ -98,11 +104,13 @@ export const NotesView = (): ViewResult => {
             );
             return [];
           });
-          return notes.sort(
-            (a, b) =>
-              new Date(b.updated_at).getTime() -
-              new Date(a.updated_at).getTime(),
-          );
+          return notes
+            .filter((note) => note.deleted_at === null)
+            .sort(
+              (a, b) =>
+                new Date(b.updated_at).getTime() -
+                new Date(a.updated_at).getTime(),
+            );
         },
         {
           onData: (data: Note[]) => {
@@ -113,6 +121,70 @@ export const NotesView = (): ViewResult => {
 
       return Effect.sync(unsubscribe);
     });
+    const tagStream = Stream.async<TagSummary[], string>((emit) => {
+      if (!rep) {
+        void emit.fail("Replicache is not initialized.");
+        return;
+      }
+
+      const unsubscribe = rep.subscribe(
+        async (tx) => {
+          const tagJSONs = await tx.scan({ prefix: "tag/" }).values().toArray();
+          const noteJSONs = await tx
+            .scan({ prefix: "note/" })
+            .values()
+            .toArray();
+          // Trashed notes keep their tags but are not counted.
+          const liveNoteIds = new Set(
+            noteJSONs.flatMap((json) => {
+              const decoded = Schema.decodeUnknownEither(NoteSchema)(json);
+              return Either.isRight(decoded) &&
+                decoded.right.deleted_at === null
+                ? [decoded.right.id as string]
+                : [];
+            }),
+          );
+          return tagJSONs
+            .flatMap((json) => {
+              const decoded = Schema.decodeUnknownEither(SyncedTagSchema)(json);
+              if (Either.isLeft(decoded)) return [];
+              const { name, note_ids } = decoded.right;
+              const count = note_ids.filter((id) => liveNoteIds.has(id)).length;
+              return count > 0 ? [{ name, count }] : [];
+            })
+            .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+        },
+        {
+          onData: (tags: TagSummary[]) => {
+            void emit.single(tags);
+          },
+        },
+      );
+
+      return Effect.sync(unsubscribe);
+    });
+    const initialSyncStream = Stream.async<InitialSyncStatus | null, string>(
+      (emit) => {
+        if (!rep) {
+          void emit.fail("Replicache is not initialized.");
+          return;
+        }
+
+        const unsubscribe = rep.subscribe(
+          async (tx) =>
+            ((await tx.get(INITIAL_SYNC_KEY)) as
+              | InitialSyncStatus
+              | undefined) ?? null,
+          {
+            onData: (status) => {
+              void emit.single(status);
+            },
+          },
+        );
+
+        return Effect.sync(unsubscribe);
+      },
+    );
     const mainLoop = Effect.gen(function* () {
       const actionProcessor = Queue.take(actionQueue).pipe(
         Effect.flatMap((action) => handleAction(action, model)),
@@ -134,10 +206,34 @@ export const NotesView = (): ViewResult => {
         ),
         Stream.runDrain,
       );
+      const tagSubscriber = tagStream.pipe(
+        Stream.flatMap((tags) =>
+          Stream.fromEffect(propose({ type: "TAGS_UPDATED", payload: tags })),
+        ),
+        Stream.catchAll(() => Stream.empty),
+        Stream.runDrain,
+      );
+      const syncProgressSubscriber = initialSyncStream.pipe(
+        Stream.flatMap((status) =>
+          Stream.fromEffect(
+            propose({ type: "INITIAL_SYNC_PROGRESS", payload: status }),
+          ),
+        ),
+        Stream.catchAll(() => Stream.empty),
+        Stream.runDrain,
+      );
       yield* renderEffect; // Initial render
-      yield* Effect.all([actionProcessor, dataSubscriber], {
-        concurrency: "unbounded",
-      });
+      yield* Effect.all(
+        [
+          actionProcessor,
+          dataSubscriber,
+          tagSubscriber,
+          syncProgressSubscriber,
+        ],
+        {
+          concurrency: "unbounded",
+        },
+      );
     }).pipe(
       Effect.catchAllDefect((defect) =>
         clientLog(
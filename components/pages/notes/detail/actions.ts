@@ -3,6 +3,14 @@ import { Effect, pipe, Ref, Fiber } from "effect";
 import { rep } from "../../../../lib/client/replicache";
 import { clientLog } from "../../../../lib/client/logger.client";
 import { authState } from "../../../../lib/client/stores/authStore";
+import { navigate } from "../../../../lib/client/router";
+import { runClientUnscoped } from "../../../../lib/client/runtime";
+import { setLocalPresence } from "../../../../lib/client/stores/presenceStore";
+import { trpc } from "../../../../lib/client/trpc";
+import { toError } from "../../../../lib/shared/toError";
+import { resolveConflict } from "../../../../lib/shared/merge";
+import { resolveWikiLink } from "../../../../lib/shared/wikiLinks";
+import type { NoteId } from "../../../../types/generated/public/Note";
 import type { Action, Model } from "./types";
 
 export const handleAction = (
@@ -31,6 +39,10 @@ export const handleAction = (
             status: "idle",
             note: action.payload.note,
             blocks: action.payload.blocks,
+            baseVersion: action.payload.baseVersion,
+            notes: action.payload.notes,
+            backlinks: action.payload.backlinks,
+            queries: action.payload.queries,
             error: null,
           }),
         );
@@ -81,6 +93,196 @@ export const handleAction = (
         }
         break;
 
+      case "PRESENCE_UPDATED":
+        yield* Ref.update(
+          modelRef,
+          (m): Model => ({ ...m, presence: action.payload }),
+        );
+        break;
+
+      case "SET_EDITING":
+        if (currentModel.note) {
+          const id = currentModel.note.id;
+          yield* Effect.sync(() =>
+            setLocalPresence({ noteId: id, editing: action.payload }),
+          );
+        }
+        break;
+
+      case "TOGGLE_HISTORY": {
+        const open = !currentModel.history.open;
+        yield* Ref.update(
+          modelRef,
+          (m): Model => ({
+            ...m,
+            history: {
+              open,
+              status: open ? "loading" : "idle",
+              revisions: [],
+              diff: null,
+              error: null,
+            },
+          }),
+        );
+        if (!open || !currentModel.note) break;
+        const id = currentModel.note.id;
+        yield* Effect.fork(
+          Effect.tryPromise(() => trpc.note.revisions.query({ id })).pipe(
+            Effect.match({
+              onSuccess: (revisions) =>
+                propose({ type: "HISTORY_LOADED", payload: revisions }),
+              onFailure: (err) =>
+                propose({
+                  type: "HISTORY_ERROR",
+                  payload: `Could not load history: ${toError(err).message}`,
+                }),
+            }),
+          ),
+        );
+        break;
+      }
+
+      case "HISTORY_LOADED":
+        yield* Ref.update(
+          modelRef,
+          (m): Model => ({
+            ...m,
+            history: {
+              ...m.history,
+              status: "idle",
+              revisions: action.payload,
+            },
+          }),
+        );
+        break;
+
+      case "HISTORY_ERROR":
+        yield* Ref.update(
+          modelRef,
+          (m): Model => ({
+            ...m,
+            history: { ...m.history, status: "error", error: action.payload },
+          }),
+        );
+        break;
+
+      case "SELECT_REVISION": {
+        if (!currentModel.note) break;
+        const id = currentModel.note.id;
+        yield* Ref.update(
+          modelRef,
+          (m): Model => ({
+            ...m,
+            history: { ...m.history, status: "loading", error: null },
+          }),
+        );
+        yield* Effect.fork(
+          Effect.tryPromise(() =>
+            trpc.note.revisionDiff.query({
+              noteId: id,
+              fromRevisionId: action.payload,
+            }),
+          ).pipe(
+            Effect.match({
+              onSuccess: (diff) =>
+                propose({ type: "REVISION_DIFF_LOADED", payload: diff }),
+              onFailure: (err) =>
+                propose({
+                  type: "HISTORY_ERROR",
+                  payload: `Could not load revision: ${toError(err).message}`,
+                }),
+            }),
+          ),
+        );
+        break;
+      }
+
+      case "REVISION_DIFF_LOADED":
+        yield* Ref.update(
+          modelRef,
+          (m): Model => ({
+            ...m,
+            history: { ...m.history, status: "idle", diff: action.payload },
+          }),
+        );
+        break;
+
+      case "RESTORE_REVISION": {
+        const revision = currentModel.history.diff?.from;
+        if (!rep || !currentModel.note || !revision) return;
+        const replicacheInstance = rep;
+        const noteToUpdate = currentModel.note;
+
+        // A pending autosave would overwrite the restored content.
+        if (currentModel.saveFiber) {
+          yield* Fiber.interrupt(currentModel.saveFiber);
+        }
+        yield* Ref.update(
+          modelRef,
+          (m): Model => ({
+            ...m,
+            saveFiber: null,
+            note: {
+              ...noteToUpdate,
+              title: revision.title,
+              content: revision.content,
+            },
+            history: { ...m.history, open: false, diff: null },
+          }),
+        );
+        yield* clientLog(
+          "info",
+          `Restoring note ${noteToUpdate.id} to revision ${revision.id}.`,
+          userId,
+          `NoteDetail(${noteId}):restoreRevision`,
+        );
+        const restoreRevisionEffect = pipe(
+          Effect.tryPromise({
+            try: () =>
+              replicacheInstance.mutate.updateNote({
+                id: noteToUpdate.id,
+                title: revision.title,
+                content: revision.content,
+                restoredFrom: revision.id,
+              }),
+            catch: (err) =>
+              new Error(
+                `Replicache mutator failed: ${
+                  err instanceof Error ? err.message : String(err)
+                }`,
+              ),
+          }),
+          Effect.catchAll((error) =>
+            clientLog(
+              "error",
+              `Failed to restore revision via Replicache: ${error.message}`,
+              userId,
+              `NoteDetail(${noteId}):restoreRevision`,
+            ),
+          ),
+        );
+        yield* Effect.fork(restoreRevisionEffect);
+        break;
+      }
+
+      case "RESOLVE_CONFLICT": {
+        if (!currentModel.note) break;
+        const { hunk, keep } = action.payload;
+        const lines =
+          keep === "ours"
+            ? hunk.ours
+            : keep === "theirs"
+              ? hunk.theirs
+              : [...hunk.ours, ...hunk.theirs];
+        propose({
+          type: "UPDATE_NOTE_CONTENT",
+          payload: {
+            content: resolveConflict(currentModel.note.content, hunk, lines),
+          },
+        });
+        break;
+      }
+
       case "SAVE_NOTE_TO_REPLICACHE": {
         if (!rep) {
           yield* clientLog(
@@ -107,6 +309,8 @@ export const handleAction = (
                 id: currentModel.note!.id,
                 title: currentModel.note!.title,
                 content: currentModel.note!.content,
+                baseVersion:
+                  currentModel.baseVersion ?? currentModel.note!.version,
               }),
             catch: (err) =>
               new Error(
@@ -127,5 +331,196 @@ export const handleAction = (
         yield* Effect.fork(saveEffect);
         break;
       }
+
+      case "OPEN_WIKI_LINK": {
+        const resolution = resolveWikiLink(action.payload, currentModel.notes);
+        switch (resolution.status) {
+          case "resolved":
+            yield* Ref.update(
+              modelRef,
+              (m): Model => ({ ...m, linkPrompt: null }),
+            );
+            runClientUnscoped(navigate(`/notes/${resolution.note.id}`));
+            break;
+          case "ambiguous":
+            yield* Ref.update(
+              modelRef,
+              (m): Model => ({
+                ...m,
+                linkPrompt: {
+                  title: resolution.notes[0].title,
+                  candidates: resolution.notes,
+                },
+              }),
+            );
+            break;
+          case "missing":
+            yield* Ref.update(
+              modelRef,
+              (m): Model => ({
+                ...m,
+                linkPrompt: { title: resolution.title, candidates: [] },
+              }),
+            );
+            break;
+        }
+        break;
+      }
+
+      case "DISMISS_LINK_PROMPT":
+        yield* Ref.update(modelRef, (m): Model => ({ ...m, linkPrompt: null }));
+        break;
+
+      case "CREATE_LINKED_NOTE": {
+        if (!rep || !userId) return;
+        const replicacheInstance = rep;
+        const title = action.payload;
+        const newNoteId = crypto.randomUUID() as NoteId;
+        yield* Ref.update(modelRef, (m): Model => ({ ...m, linkPrompt: null }));
+        yield* clientLog(
+          "info",
+          `Creating note "${title}" from a link.`,
+          userId,
+          `NoteDetail(${noteId}):createLinkedNote`,
+        );
+        const createEffect = pipe(
+          Effect.tryPromise({
+            try: () =>
+              replicacheInstance.mutate.createNote({
+                id: newNoteId,
+                title,
+                content: "",
+                user_id: userId,
+              }),
+            catch: (err) =>
+              new Error(
+                `Replicache mutator failed: ${
+                  err instanceof Error ? err.message : String(err)
+                }`,
+              ),
+          }),
+          Effect.andThen(() =>
+            runClientUnscoped(navigate(`/notes/${newNoteId}`)),
+          ),
+          Effect.catchAll((error) =>
+            clientLog(
+              "error",
+              `Failed to create linked note via Replicache: ${error.message}`,
+              userId,
+              `NoteDetail(${noteId}):createLinkedNote`,
+            ),
+          ),
+        );
+        yield* Effect.fork(createEffect);
+        break;
+      }
+
+      case "DELETE_NOTE": {
+        if (!rep || !currentModel.note) return;
+        const replicacheInstance = rep;
+        const noteToDelete = currentModel.note;
+
+        // Drop any pending autosave so it can't race the delete.
+        if (currentModel.saveFiber) {
+          yield* Fiber.interrupt(currentModel.saveFiber);
+          yield* Ref.update(
+            modelRef,
+            (m): Model => ({ ...m, saveFiber: null }),
+          );
+        }
+
+        yield* clientLog(
+          "info",
+          `Moving note ${noteToDelete.id} to trash.`,
+          userId,
+          `NoteDetail(${noteId}):deleteNote`,
+        );
+        const deleteEffect = pipe(
+          Effect.tryPromise({
+            try: () =>
+              replicacheInstance.mutate.deleteNote({ id: noteToDelete.id }),
+            catch: (err) =>
+              new Error(
+                `Replicache mutator failed: ${
+                  err instanceof Error ? err.message : String(err)
+                }`,
+              ),
+          }),
+          Effect.andThen(() => runClientUnscoped(navigate("/"))),
+          Effect.catchAll((error) =>
+            clientLog(
+              "error",
+              `Failed to delete note via Replicache: ${error.message}`,
+              userId,
+              `NoteDetail(${noteId}):deleteNote`,
+            ),
+          ),
+        );
+        yield* Effect.fork(deleteEffect);
+        break;
+      }
+
+      case "RESTORE_NOTE": {
+        if (!rep || !currentModel.note) return;
+        const replicacheInstance = rep;
+        const noteToRestore = currentModel.note;
+
+        yield* clientLog(
+          "info",
+          `Restoring note ${noteToRestore.id} from trash.`,
+          userId,
+          `NoteDetail(${noteId}):restoreNote`,
+        );
+        const restoreEffect = pipe(
+          Effect.tryPromise({
+            try: () =>
+              replicacheInstance.mutate.restoreNote({ id: noteToRestore.id }),
+            catch: (err) =>
+              new Error(
+                `Replicache mutator failed: ${
+                  err instanceof Error ? err.message : String(err)
+                }`,
+              ),
+          }),
+          Effect.catchAll((error) =>
+            clientLog(
+              "error",
+              `Failed to restore note via Replicache: ${error.message}`,
+              userId,
+              `NoteDetail(${noteId}):restoreNote`,
+            ),
+          ),
+        );
+        yield* Effect.fork(restoreEffect);
+        break;
+      }
+
+      case "TOGGLE_TASK": {
+        if (!rep) return;
+        const replicacheInstance = rep;
+        const { id, done } = action.payload;
+
+        const toggleEffect = pipe(
+          Effect.tryPromise({
+            try: () => replicacheInstance.mutate.toggleTask({ id, done }),
+            catch: (err) =>
+              new Error(
+                `Replicache mutator failed: ${
+                  err instanceof Error ? err.message : String(err)
+                }`,
+              ),
+          }),
+          Effect.catchAll((error) =>
+            clientLog(
+              "error",
+              `Failed to toggle task via Replicache: ${error.message}`,
+              userId,
+              `NoteDetail(${noteId}):toggleTask`,
+            ),
+          ),
+        );
+        yield* Effect.fork(toggleEffect);
+        break;
+      }
     }
   });
@@ -1,8 +1,19 @@
 // components/pages/notes/detail/types.ts
 import type { TemplateResult } from "lit-html";
-import { Data, Fiber } from "effect";
+import { Data, Either, Fiber } from "effect";
 import type { Note } from "../../../../types/generated/public/Note";
 import type { Block } from "../../../../types/generated/public/Block";
+import type { PresenceSession } from "../../../../lib/shared/presence";
+import type { ConflictHunk } from "../../../../lib/shared/merge";
+import type { LinkableNote } from "../../../../lib/shared/wikiLinks";
+import type { EmbeddableNote } from "../../../../lib/shared/transclusion";
+import type {
+  Query,
+  QueryParseError,
+  QueryRow,
+} from "../../../../lib/shared/query";
+import type { NoteRevisionSummary } from "../../../../features/notes/listNoteRevisions";
+import type { NoteRevisionDiff } from "../../../../features/notes/diffNoteRevisions";
 
 export class NoteSaveError extends Data.TaggedError("NoteSaveError")<{
   readonly message: string;
@@ -13,19 +24,102 @@ export interface ViewResult {
   cleanup?: () => void;
 }
 
+/** The revision history panel. Revisions are fetched when it opens. */
+export interface HistoryModel {
+  open: boolean;
+  status: "idle" | "loading" | "error";
+  revisions: readonly NoteRevisionSummary[];
+  /** The selected revision compared with the note as it is now. */
+  diff: NoteRevisionDiff | null;
+  error: string | null;
+}
+
+/** A block in another note that links to this one. */
+export interface Backlink {
+  block: Block;
+  note: LinkableNote;
+  /** Contents of the block's ancestors in its note, outermost first. */
+  ancestors: string[];
+  /** Contents of the block's direct children. */
+  children: string[];
+}
+
+/** A clicked link that needs a decision: which namesake, or create it. */
+export interface LinkPrompt {
+  title: string;
+  /** Notes sharing the title; empty when there is none yet. */
+  candidates: readonly LinkableNote[];
+}
+
+/** A ```query fence in the note, run over the blocks of every note. */
+export interface NoteQuery {
+  source: string;
+  /** The parsed query with its rows, or why it does not parse. */
+  result: Either.Either<
+    { query: Query; rows: readonly QueryRow<Block>[] },
+    QueryParseError
+  >;
+}
+
 export interface Model {
   status: "loading" | "idle" | "error";
   note: Note | null;
   blocks: Block[];
+  /**
+   * Every note not in the trash, for resolving links by title and rendering
+   * `![[embeds]]` from their content.
+   */
+  notes: readonly EmbeddableNote[];
+  backlinks: readonly Backlink[];
+  queries: readonly NoteQuery[];
+  linkPrompt: LinkPrompt | null;
   error: string | null;
   saveFiber: Fiber.Fiber<void, void> | null;
+  /** The user's other sessions that have this note open. */
+  presence: readonly PresenceSession[];
+  history: HistoryModel;
+  /**
+   * The stored version this device's unconfirmed edits were made against,
+   * or null when it has none and `note.version` is the base.
+   */
+  baseVersion: number | null;
+}
+
+export interface NoteData {
+  note: Note | null;
+  blocks: Block[];
+  baseVersion: number | null;
+  notes: readonly EmbeddableNote[];
+  backlinks: readonly Backlink[];
+  queries: readonly NoteQuery[];
 }
 
 export type Action =
-  | { type: "DATA_UPDATED"; payload: { note: Note | null; blocks: Block[] } }
+  | {
+      type: "DATA_UPDATED";
+      payload: NoteData;
+    }
   | { type: "DATA_ERROR"; payload: string }
   | {
       type: "UPDATE_NOTE_CONTENT";
       payload: { title?: string; content?: string };
     }
-  | { type: "SAVE_NOTE_TO_REPLICACHE" };
+  | { type: "SAVE_NOTE_TO_REPLICACHE" }
+  | {
+      type: "RESOLVE_CONFLICT";
+      payload: { hunk: ConflictHunk; keep: "ours" | "theirs" | "both" };
+    }
+  | { type: "PRESENCE_UPDATED"; payload: readonly PresenceSession[] }
+  | { type: "SET_EDITING"; payload: boolean }
+  | { type: "TOGGLE_HISTORY" }
+  | { type: "HISTORY_LOADED"; payload: readonly NoteRevisionSummary[] }
+  | { type: "HISTORY_ERROR"; payload: string }
+  | { type: "SELECT_REVISION"; payload: string }
+  | { type: "REVISION_DIFF_LOADED"; payload: NoteRevisionDiff }
+  | { type: "RESTORE_REVISION" }
+  | { type: "OPEN_WIKI_LINK"; payload: string }
+  | { type: "CREATE_LINKED_NOTE"; payload: string }
+  | { type: "DISMISS_LINK_PROMPT" }
+  | { type: "DELETE_NOTE" }
+  | { type: "RESTORE_NOTE" }
+  | { type: "TOGGLE_TASK"; payload: { id: string; done: boolean } };
@@ -1,10 +1,22 @@
 // FILE: components/pages/notes/detail/view.ts
 
-import { html, render, nothing } from "lit-html";
+import { html, render, nothing, type TemplateResult } from "lit-html";
+import { Either } from "effect";
 import { repeat } from "lit-html/directives/repeat.js";
 import styles from "../../NoteDetailView.module.css";
-import type { Model, Action } from "./types";
+import "../../../ui/editor-element";
+import type { Model, Action, NoteQuery } from "./types";
 import type { Block } from "../../../../types/generated/public/Block";
+import type { PresenceSession } from "../../../../lib/shared/presence";
+import type { DiffLine } from "../../../../lib/shared/lineDiff";
+import { findConflicts, type ConflictHunk } from "../../../../lib/shared/merge";
+import { navigate } from "../../../../lib/client/router";
+import { runClientUnscoped } from "../../../../lib/client/runtime";
+import { resolveEmbed, type Embed } from "../../../../lib/shared/transclusion";
+import type { QueryValue } from "../../../../lib/shared/query";
+
+/** Rows past this many are left out; `note.query` pages through them all. */
+const QUERY_RENDER_LIMIT = 100;
 
 export const renderView = (
   container: HTMLElement,
@@ -20,13 +32,401 @@ export const renderView = (
     }
   };
 
+  const renderPresence = (sessions: readonly PresenceSession[]) =>
+    sessions.length === 0
+      ? nothing
+      : html`<div class=${styles.presence}>
+          ${repeat(
+            sessions,
+            (session) => session.connectionId,
+            (session) => html`
+              <img
+                class=${session.editing
+                  ? styles.presenceAvatarEditing
+                  : styles.presenceAvatar}
+                src=${session.avatarUrl ||
+                `https://ui-avatars.com/api/?name=${encodeURIComponent(
+                  session.email,
+                )}`}
+                alt=""
+                title=${`${session.device}${session.editing ? " (editing)" : ""}`}
+              />
+            `,
+          )}
+        </div>`;
+
+  const diffLineClass = (line: DiffLine) =>
+    line.op === "insert"
+      ? styles.diffInsert
+      : line.op === "delete"
+        ? styles.diffDelete
+        : styles.diffEqual;
+
+  const diffLineText = (line: DiffLine) =>
+    `${line.op === "insert" ? "+" : line.op === "delete" ? "-" : " "} ${line.text}`;
+
+  const renderHistory = () => {
+    const { history } = currentModel;
+    if (!history.open) return nothing;
+    const selectedId = history.diff?.from.id;
+    return html`
+      <div class=${styles.history}>
+        <ul class=${styles.historyList}>
+          ${history.revisions.length === 0 && history.status !== "loading"
+            ? html`<li class="text-sm text-zinc-400">No revisions yet.</li>`
+            : nothing}
+          ${repeat(
+            history.revisions,
+            (revision) => revision.id,
+            (revision) => html`
+              <li>
+                <button
+                  class=${revision.id === selectedId
+                    ? styles.historyItemSelected
+                    : styles.historyItem}
+                  @click=${() =>
+                    propose({ type: "SELECT_REVISION", payload: revision.id })}
+                >
+                  <span class="block font-medium">
+                    ${revision.updatedAt.toLocaleString()}
+                  </span>
+                  <span class="block truncate text-xs text-zinc-500">
+                    ${revision.title}
+                  </span>
+                </button>
+              </li>
+            `,
+          )}
+        </ul>
+        <div class=${styles.historyDiff}>
+          ${history.status === "loading"
+            ? html`<p class="text-sm text-zinc-500">Loading…</p>`
+            : history.status === "error"
+              ? html`<p class="text-sm text-red-500">${history.error}</p>`
+              : history.diff
+                ? html`
+                    <div class="mb-2 flex items-center justify-between">
+                      <span class="text-xs text-zinc-500">
+                        Changes since this revision
+                        ${history.diff.titleChanged
+                          ? html`(title was “${history.diff.from.title}”)`
+                          : nothing}
+                      </span>
+                      <button
+                        class=${styles.restoreButton}
+                        @click=${() => propose({ type: "RESTORE_REVISION" })}
+                      >
+                        Restore this revision
+                      </button>
+                    </div>
+                    <div class=${styles.diff}>
+                      ${history.diff.lines.map(
+                        (line) =>
+                          // Bound as a property: the line's own whitespace
+                          // is significant and the template's is not.
+                          html`<div
+                            class=${diffLineClass(line)}
+                            .textContent=${diffLineText(line)}
+                          ></div>`,
+                      )}
+                    </div>
+                  `
+                : html`<p class="text-sm text-zinc-400">
+                    Select a revision to compare it with the current note.
+                  </p>`}
+        </div>
+      </div>
+    `;
+  };
+
+  const renderConflictSide = (
+    hunk: ConflictHunk,
+    keep: "ours" | "theirs",
+    label: string,
+  ) => html`
+    <div class=${keep === "ours" ? styles.conflictOurs : styles.conflictTheirs}>
+      <div class="mb-1 flex items-center justify-between">
+        <span class="text-xs font-semibold uppercase">${label}</span>
+        <button
+          class=${styles.conflictButton}
+          @click=${() =>
+            propose({ type: "RESOLVE_CONFLICT", payload: { hunk, keep } })}
+        >
+          Keep this
+        </button>
+      </div>
+      <div
+        class="whitespace-pre-wrap font-mono text-xs"
+        .textContent=${(keep === "ours" ? hunk.ours : hunk.theirs).join("\n")}
+      ></div>
+    </div>
+  `;
+
+  // Conflict markers left by a server-side merge, shown side by side so
+  // each can be settled without hand-editing the markers.
+  const renderConflicts = (content: string) => {
+    const hunks = findConflicts(content);
+    if (hunks.length === 0) return nothing;
+    return html`
+      <div class=${styles.conflicts}>
+        <p class="mb-2 text-sm font-medium">
+          This note was edited in two places at once.
+          ${hunks.length === 1
+            ? "One part needs"
+            : `${hunks.length} parts need`}
+          your decision.
+        </p>
+        ${hunks.map(
+          (hunk) => html`
+            <div class=${styles.conflictHunk}>
+              ${renderConflictSide(hunk, "ours", "Your edit")}
+              ${renderConflictSide(hunk, "theirs", "Saved version")}
+            </div>
+            <div class="mb-3 text-right">
+              <button
+                class=${styles.conflictButton}
+                @click=${() =>
+                  propose({
+                    type: "RESOLVE_CONFLICT",
+                    payload: { hunk, keep: "both" },
+                  })}
+              >
+                Keep both
+              </button>
+            </div>
+          `,
+        )}
+      </div>
+    `;
+  };
+
+  const openNote = (e: Event, id: string) => {
+    e.preventDefault();
+    runClientUnscoped(navigate(`/notes/${id}`));
+  };
+
+  const renderLinkPrompt = () => {
+    const prompt = currentModel.linkPrompt;
+    if (!prompt) return nothing;
+    return html`
+      <div class=${styles.linkPrompt} role="dialog" aria-label="Open link">
+        ${prompt.candidates.length === 0
+          ? html`<span>There is no note called “${prompt.title}” yet.</span>
+              <button
+                class=${styles.linkPromptButton}
+                @click=${() =>
+                  propose({
+                    type: "CREATE_LINKED_NOTE",
+                    payload: prompt.title,
+                  })}
+              >
+                Create it
+              </button>`
+          : html`<span>
+                ${prompt.candidates.length} notes are called “${prompt.title}”:
+              </span>
+              ${prompt.candidates.map(
+                (candidate, i) =>
+                  html`<a
+                    href="/notes/${candidate.id}"
+                    class=${styles.linkPromptButton}
+                    @click=${(e: Event) => openNote(e, candidate.id)}
+                    >Open #${i + 1}</a
+                  >`,
+              )}`}
+        <button
+          class=${styles.linkPromptDismiss}
+          @click=${() => propose({ type: "DISMISS_LINK_PROMPT" })}
+        >
+          Cancel
+        </button>
+      </div>
+    `;
+  };
+
+  const renderBacklinks = () => html`
+    <div class="mt-8">
+      <h3
+        class="mb-2 text-xs font-semibold uppercase tracking-wider text-zinc-500"
+      >
+        Linked References (${currentModel.backlinks.length})
+      </h3>
+      ${currentModel.backlinks.length === 0
+        ? html`<p class="text-sm text-zinc-400">
+            No other notes link here yet.
+          </p>`
+        : repeat(
+            currentModel.backlinks,
+            (backlink) => backlink.block.id,
+            (backlink) => html`
+              <a
+                href="/notes/${backlink.note.id}"
+                class=${styles.backlink}
+                @click=${(e: Event) => openNote(e, backlink.note.id)}
+              >
+                <span class=${styles.backlinkNote}>${backlink.note.title}</span>
+                ${backlink.ancestors.length > 0
+                  ? html`<span class=${styles.backlinkTrail}>
+                      ${backlink.ancestors.join(" › ")}
+                    </span>`
+                  : nothing}
+                <span class="block">${backlink.block.content}</span>
+                ${backlink.children.map(
+                  (child) =>
+                    html`<span class=${styles.backlinkChild}>${child}</span>`,
+                )}
+              </a>
+            `,
+          )}
+    </div>
+  `;
+
+  const renderEmbedLink = (id: string, label: string) => html`
+    <a
+      href="/notes/${id}"
+      class=${styles.embedTitle}
+      @click=${(e: Event) => openNote(e, id)}
+      >${label}</a
+    >
+  `;
+
+  /** A read-only copy of another note, or why it cannot be shown. */
+  const renderEmbed = (embed: Embed): TemplateResult => {
+    switch (embed.kind) {
+      case "note":
+        return html`
+          <div class=${styles.embed}>
+            ${renderEmbedLink(
+              embed.note.id,
+              embed.heading === null
+                ? embed.note.title
+                : `${embed.note.title} › ${embed.heading}`,
+            )}
+            ${embed.parts.map((part) =>
+              part.kind === "text"
+                ? html`<div class=${styles.embedText}>${part.text.trim()}</div>`
+                : renderEmbed(part.embed),
+            )}
+          </div>
+        `;
+      case "sectionMissing":
+        return html`<div class=${styles.embedNotice}>
+          ${renderEmbedLink(embed.note.id, embed.note.title)} has no heading
+          “${embed.heading}”.
+        </div>`;
+      case "tooDeep":
+        return html`<div class=${styles.embedNotice}>
+          ${renderEmbedLink(embed.note.id, embed.note.title)} is embedded too
+          deeply to show here.
+        </div>`;
+      case "cycle":
+        return html`<div class=${styles.embedNotice}>
+          “${embed.target}” embeds itself, so it is not shown again.
+        </div>`;
+      case "ambiguous":
+        return html`<div class=${styles.embedNotice}>
+          Several notes are called “${embed.target}”; rename one to embed it.
+        </div>`;
+      case "missing":
+        return html`<div class=${styles.embedNotice}>
+          No note called “${embed.target}” to embed.
+        </div>`;
+    }
+  };
+
   const renderChildBlock = (block: Block) => html`
     <div class="ml-4 mt-1 rounded-md bg-zinc-50 p-2 text-sm text-zinc-700">
       <strong class="text-xs text-zinc-400">[${block.type}]</strong>
+      ${block.type === "task"
+        ? html`<input
+            type="checkbox"
+            class="mr-1 align-middle"
+            aria-label="Done"
+            .checked=${block.done}
+            ?disabled=${currentModel.note?.deleted_at !== null}
+            @change=${(e: Event) =>
+              propose({
+                type: "TOGGLE_TASK",
+                payload: {
+                  id: block.id,
+                  done: (e.target as HTMLInputElement).checked,
+                },
+              })}
+          />`
+        : ""}
       ${block.content}
+      ${block.transclusions.map((target) =>
+        renderEmbed(
+          resolveEmbed(target, currentModel.notes, currentModel.note!.id),
+        ),
+      )}
     </div>
   `;
 
+  const renderQueryValue = (value: QueryValue) =>
+    value === null ? html`<span class="text-zinc-300">—</span>` : String(value);
+
+  const renderQuery = ({ source, result }: NoteQuery) => {
+    if (Either.isLeft(result)) {
+      return html`<div class=${styles.queryError}>
+        <code class="block">${source}</code>
+        ${result.left.message} (at character ${result.left.position + 1}).
+      </div>`;
+    }
+    const { query, rows } = result.right;
+    const shown = rows.slice(0, QUERY_RENDER_LIMIT);
+    const titleOf = (noteId: string | null) =>
+      currentModel.notes.find((n) => n.id === noteId)?.title ?? "";
+    const blockLink = (block: Block) =>
+      html`<a
+        href="/notes/${block.note_id}"
+        class=${styles.queryBlockLink}
+        title=${titleOf(block.note_id)}
+        @click=${(e: Event) => openNote(e, block.note_id!)}
+        >${block.content}</a
+      >`;
+    return html`
+      <div class=${styles.query}>
+        ${rows.length === 0
+          ? html`<p class="text-sm text-zinc-400">No matching blocks.</p>`
+          : query.view === "list"
+            ? html`<ul class=${styles.queryList}>
+                ${repeat(
+                  shown,
+                  (row) => row.block.id,
+                  (row) => html`<li>${blockLink(row.block)}</li>`,
+                )}
+              </ul>`
+            : html`<table class=${styles.queryTable}>
+                <thead>
+                  <tr>
+                    <th>Block</th>
+                    ${query.columns.map((column) => html`<th>${column}</th>`)}
+                  </tr>
+                </thead>
+                <tbody>
+                  ${repeat(
+                    shown,
+                    (row) => row.block.id,
+                    (row) =>
+                      html`<tr>
+                        <td>${blockLink(row.block)}</td>
+                        ${row.values.map(
+                          (value) => html`<td>${renderQueryValue(value)}</td>`,
+                        )}
+                      </tr>`,
+                  )}
+                </tbody>
+              </table>`}
+        ${rows.length > shown.length
+          ? html`<p class="mt-1 text-xs text-zinc-400">
+              Showing ${shown.length} of ${rows.length} blocks.
+            </p>`
+          : nothing}
+      </div>
+    `;
+  };
+
   const template = html`
     <div class=${styles.container}>
       ${currentModel.status === "loading"
@@ -34,34 +434,77 @@ export const renderView = (
         : currentModel.note
           ? html`
               <div class=${styles.editor}>
+                ${currentModel.note.deleted_at
+                  ? html`
+                      <div class=${styles.trashBanner}>
+                        <span>This note is in the trash.</span>
+                        <button
+                          @click=${() => propose({ type: "RESTORE_NOTE" })}
+                          class=${styles.restoreButton}
+                        >
+                          Restore
+                        </button>
+                      </div>
+                    `
+                  : nothing}
                 <div class=${styles.header}>
                   <h2>Edit Note</h2>
-                  <div class=${styles.status}>${renderStatus()}</div>
+                  <div class=${styles.headerActions}>
+                    ${renderPresence(currentModel.presence)}
+                    <div class=${styles.status}>${renderStatus()}</div>
+                    <button
+                      @click=${() => propose({ type: "TOGGLE_HISTORY" })}
+                      class=${styles.historyButton}
+                    >
+                      ${currentModel.history.open ? "Hide history" : "History"}
+                    </button>
+                    ${currentModel.note.deleted_at
+                      ? nothing
+                      : html`<button
+                          @click=${() => propose({ type: "DELETE_NOTE" })}
+                          class=${styles.deleteButton}
+                        >
+                          Move to Trash
+                        </button>`}
+                  </div>
+                </div>
+                ${renderHistory()} ${renderConflicts(currentModel.note.content)}
+                ${renderLinkPrompt()}
+                <div
+                  @focusin=${() =>
+                    propose({ type: "SET_EDITING", payload: true })}
+                  @focusout=${() =>
+                    propose({ type: "SET_EDITING", payload: false })}
+                >
+                  <input
+                    type="text"
+                    .value=${currentModel.note.title}
+                    @input=${(e: Event) =>
+                      propose({
+                        type: "UPDATE_NOTE_CONTENT",
+                        payload: {
+                          title: (e.target as HTMLInputElement).value,
+                        },
+                      })}
+                    class=${styles.titleInput}
+                  />
+                  <editor-element
+                    class=${styles.contentEditor}
+                    .content=${currentModel.note.content}
+                    .noteId=${currentModel.note.id}
+                    @editor-update=${(e: CustomEvent<{ content: string }>) =>
+                      propose({
+                        type: "UPDATE_NOTE_CONTENT",
+                        payload: { content: e.detail.content },
+                      })}
+                    @wiki-link-open=${(e: CustomEvent<{ link: string }>) =>
+                      propose({
+                        type: "OPEN_WIKI_LINK",
+                        payload: e.detail.link,
+                      })}
+                  ></editor-element>
                 </div>
-                <input
-                  type="text"
-                  .value=${currentModel.note.title}
-                  @input=${(e: Event) =>
-                    propose({
-                      type: "UPDATE_NOTE_CONTENT",
-                      payload: {
-                        title: (e.target as HTMLInputElement).value,
-                      },
-                    })}
-                  class=${styles.titleInput}
-                />
-                <textarea
-                  class=${styles.contentInput}
-                  .value=${currentModel.note.content}
-                  @input=${(e: Event) =>
-                    propose({
-                      type: "UPDATE_NOTE_CONTENT",
-                      payload: {
-                        content: (e.target as HTMLTextAreaElement).value,
-                      },
-                    })}
-                  placeholder="Type your markdown here..."
-                ></textarea>
+                ${currentModel.queries.map(renderQuery)} ${renderBacklinks()}
                 <div class="mt-8">
                   <h3
                     class="mb-2 text-xs font-semibold uppercase tracking-wider text-zinc-500"
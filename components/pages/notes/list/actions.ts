@@ -32,6 +32,17 @@ export const handleAction = (
         });
         break;
       }
+      case "TAGS_UPDATED": {
+        yield* Ref.set(modelRef, { ...currentModel, tags: action.payload });
+        break;
+      }
+      case "INITIAL_SYNC_PROGRESS": {
+        yield* Ref.set(modelRef, {
+          ...currentModel,
+          initialSync: action.payload,
+        });
+        break;
+      }
       case "DATA_ERROR":
         yield* clientLog(
           "error",
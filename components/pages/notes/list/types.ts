@@ -1,23 +1,35 @@
 // components/pages/notes/list/types.ts
 import type { TemplateResult } from "lit-html";
 import type { Note } from "../../../../types/generated/public/Note";
+import type { InitialSyncStatus } from "../../../../lib/shared/sync";
 
 export interface ViewResult {
   template: TemplateResult;
   cleanup?: () => void;
 }
 
+/** A tag in the sidebar, with the number of (untrashed) notes carrying it. */
+export interface TagSummary {
+  name: string;
+  count: number;
+}
+
 export interface Model {
   notes: Note[];
+  tags: TagSummary[];
   isLoading: boolean;
   // We keep `isCreating` to provide instant feedback on the button,
   // even though the data operation is optimistic.
   isCreating: boolean;
   error: string | null;
+  // Set while a large account's first sync is still arriving page by page.
+  initialSync: InitialSyncStatus | null;
 }
 
 export type Action =
   | { type: "NOTES_UPDATED"; payload: Note[] }
+  | { type: "TAGS_UPDATED"; payload: TagSummary[] }
   | { type: "DATA_ERROR"; payload: string }
+  | { type: "INITIAL_SYNC_PROGRESS"; payload: InitialSyncStatus | null }
   | { type: "CREATE_NOTE_START" }
   | { type: "SORT_NOTES_AZ" };
@@ -5,14 +5,61 @@ import { navigate } from "../../../../lib/client/router";
 import styles from "../../NotesView.module.css";
 import type { Model, Action } from "./types";
 import { runClientUnscoped } from "../../../../lib/client/runtime";
+import { tagPath } from "../../../../lib/shared/tags";
 
 export const renderView = (
   container: HTMLElement,
   currentModel: Model,
   propose: (action: Action) => void,
 ) => {
+  const renderSyncProgress = () => {
+    const { initialSync } = currentModel;
+    if (!initialSync) return "";
+    const percent =
+      initialSync.total > 0
+        ? Math.round((initialSync.synced / initialSync.total) * 100)
+        : 0;
+    return html`
+      <div class=${styles.syncProgress} role="status">
+        <p>Syncing your notes… ${initialSync.synced} of ${initialSync.total}</p>
+        <div class=${styles.syncProgressTrack}>
+          <div class=${styles.syncProgressBar} style="width: ${percent}%"></div>
+        </div>
+      </div>
+    `;
+  };
+
+  const renderTags = () => {
+    if (currentModel.tags.length === 0) return "";
+    return html`
+      <nav class=${styles.tagSidebar} aria-label="Tags">
+        <h3>Tags</h3>
+        ${repeat(
+          currentModel.tags,
+          (tag) => tag.name,
+          (tag) => html`
+            <a
+              href=${tagPath(tag.name)}
+              class=${styles.tagLink}
+              @click=${(e: Event) => {
+                e.preventDefault();
+                runClientUnscoped(navigate(tagPath(tag.name)));
+              }}
+            >
+              <span>#${tag.name}</span>
+              <span class=${styles.tagCount}>${tag.count}</span>
+            </a>
+          `,
+        )}
+      </nav>
+    `;
+  };
+
   const renderNotes = () => {
-    if (currentModel.isLoading) {
+    if (
+      currentModel.isLoading ||
+      (currentModel.initialSync && currentModel.notes.length === 0)
+    ) {
       return html`
         <div class=${styles.skeletonContainer}>
           ${repeat(
@@ -76,7 +123,10 @@ export const renderView = (
       ${currentModel.error
         ? html`<div class=${styles.errorText}>${currentModel.error}</div>`
         : ""}
-      ${renderNotes()}
+      <div class=${styles.layout}>
+        ${renderTags()}
+        <div class=${styles.main}>${renderSyncProgress()} ${renderNotes()}</div>
+      </div>
     </div>
   `;
 
@@ -0,0 +1,45 @@
+// components/pages/notes/tag/actions.ts
+import { Effect, Ref } from "effect";
+import { clientLog } from "../../../../lib/client/logger.client";
+import { authState } from "../../../../lib/client/stores/authStore";
+import type { Action, Model } from "./types";
+
+export const handleAction = (
+  action: Action,
+  modelRef: Ref.Ref<Model>,
+): Effect.Effect<void> =>
+  Effect.gen(function* () {
+    const currentModel = yield* Ref.get(modelRef);
+    const userId = authState.value.user?.id;
+
+    yield* clientLog(
+      "debug",
+      `Handling action: ${action.type}`,
+      userId,
+      "Tag:handleAction",
+    );
+
+    switch (action.type) {
+      case "DATA_UPDATED":
+        yield* Ref.set(modelRef, {
+          ...currentModel,
+          ...action.payload,
+          isLoading: false,
+        });
+        break;
+
+      case "DATA_ERROR":
+        yield* clientLog(
+          "error",
+          `Data error received: ${action.payload}`,
+          userId,
+          "Tag:handleAction",
+        );
+        yield* Ref.set(modelRef, {
+          ...currentModel,
+          isLoading: false,
+          error: action.payload,
+        });
+        break;
+    }
+  });
@@ -0,0 +1,30 @@
+// components/pages/notes/tag/types.ts
+import type { TemplateResult } from "lit-html";
+import type { Note } from "../../../../types/generated/public/Note";
+import type { Block } from "../../../../types/generated/public/Block";
+
+export interface ViewResult {
+  template: TemplateResult;
+  cleanup?: () => void;
+}
+
+/** A block carrying the tag, with the title of the note it belongs to. */
+export interface TaggedBlock {
+  block: Block;
+  noteTitle: string | null;
+}
+
+export interface TaggedContent {
+  notes: Note[];
+  blocks: TaggedBlock[];
+}
+
+export interface Model extends TaggedContent {
+  name: string;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export type Action =
+  | { type: "DATA_UPDATED"; payload: TaggedContent }
+  | { type: "DATA_ERROR"; payload: string };
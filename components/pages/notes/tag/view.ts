@@ -0,0 +1,98 @@
+// components/pages/notes/tag/view.ts
+import { html, render } from "lit-html";
+import { repeat } from "lit-html/directives/repeat.js";
+import { navigate } from "../../../../lib/client/router";
+import { runClientUnscoped } from "../../../../lib/client/runtime";
+import styles from "../../TagView.module.css";
+import type { Model } from "./types";
+
+const noteLink = (noteId: string, content: unknown) => html`
+  <a
+    href="/notes/${noteId}"
+    class=${styles.item}
+    @click=${(e: Event) => {
+      e.preventDefault();
+      runClientUnscoped(navigate(`/notes/${noteId}`));
+    }}
+  >
+    ${content}
+  </a>
+`;
+
+export const renderView = (container: HTMLElement, currentModel: Model) => {
+  const renderNotes = () => {
+    if (currentModel.notes.length === 0) {
+      return html`<p class=${styles.emptyState}>No notes carry this tag.</p>`;
+    }
+    return html`
+      <ul class=${styles.list}>
+        ${repeat(
+          currentModel.notes,
+          (note) => note.id,
+          (note) => html`
+            <li>
+              ${noteLink(
+                note.id,
+                html`<h4>${note.title}</h4>
+                  <p>${note.content || "No additional content"}</p>`,
+              )}
+            </li>
+          `,
+        )}
+      </ul>
+    `;
+  };
+
+  const renderBlocks = () => {
+    if (currentModel.blocks.length === 0) {
+      return html`<p class=${styles.emptyState}>No blocks carry this tag.</p>`;
+    }
+    return html`
+      <ul class=${styles.list}>
+        ${repeat(
+          currentModel.blocks,
+          ({ block }) => block.id,
+          ({ block, noteTitle }) => html`
+            <li>
+              ${block.note_id
+                ? noteLink(
+                    block.note_id,
+                    html`<p class=${styles.blockContent}>${block.content}</p>
+                      <p>${noteTitle ?? ""}</p>`,
+                  )
+                : html`<div class=${styles.item}>
+                    <p class=${styles.blockContent}>${block.content}</p>
+                  </div>`}
+            </li>
+          `,
+        )}
+      </ul>
+    `;
+  };
+
+  const template = html`
+    <div class=${styles.container}>
+      <div class=${styles.header}>
+        <h2>#${currentModel.name}</h2>
+        <p>Every note and block carrying this tag.</p>
+      </div>
+      ${currentModel.error
+        ? html`<div class=${styles.errorText}>${currentModel.error}</div>`
+        : ""}
+      ${currentModel.isLoading
+        ? html`<p class=${styles.emptyState}>Loading...</p>`
+        : html`
+            <section class=${styles.section}>
+              <h3>Notes</h3>
+              ${renderNotes()}
+            </section>
+            <section class=${styles.section}>
+              <h3>Blocks</h3>
+              ${renderBlocks()}
+            </section>
+          `}
+    </div>
+  `;
+
+  render(template, container);
+};
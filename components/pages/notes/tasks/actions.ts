@@ -0,0 +1,82 @@
+// components/pages/notes/tasks/actions.ts
+import { Effect, pipe, Ref } from "effect";
+import { rep } from "../../../../lib/client/replicache";
+import { clientLog } from "../../../../lib/client/logger.client";
+import { authState } from "../../../../lib/client/stores/authStore";
+import { toDateString } from "../../../../lib/shared/tasks";
+import type { Action, Model } from "./types";
+
+export const handleAction = (
+  action: Action,
+  modelRef: Ref.Ref<Model>,
+): Effect.Effect<void> =>
+  Effect.gen(function* () {
+    const currentModel = yield* Ref.get(modelRef);
+    const userId = authState.value.user?.id;
+
+    yield* clientLog(
+      "debug",
+      `Handling action: ${action.type}`,
+      userId,
+      "Tasks:handleAction",
+    );
+
+    switch (action.type) {
+      case "DATA_UPDATED":
+        yield* Ref.set(modelRef, {
+          ...currentModel,
+          tasks: action.payload,
+          today: toDateString(new Date()),
+          isLoading: false,
+        });
+        break;
+
+      case "DATA_ERROR":
+        yield* clientLog(
+          "error",
+          `Data error received: ${action.payload}`,
+          userId,
+          "Tasks:handleAction",
+        );
+        yield* Ref.set(modelRef, {
+          ...currentModel,
+          isLoading: false,
+          error: action.payload,
+        });
+        break;
+
+      case "TOGGLE_TASK": {
+        const { id, done } = action.payload;
+        yield* Effect.fork(
+          pipe(
+            Effect.gen(function* () {
+              if (!rep) {
+                return yield* Effect.fail("Replicache is not initialized.");
+              }
+              const replicacheInstance = rep;
+              yield* Effect.promise(() =>
+                replicacheInstance.mutate.toggleTask({ id, done }),
+              );
+            }),
+            Effect.catchAll((error) =>
+              pipe(
+                clientLog(
+                  "error",
+                  `Failed to toggle task ${id}: ${error}`,
+                  userId,
+                  "Tasks:toggleTask",
+                ),
+                Effect.andThen(
+                  Ref.update(
+                    modelRef,
+                    (m): Model => ({ ...m, error: String(error) }),
+                  ),
+                ),
+              ),
+            ),
+          ),
+        );
+        break;
+      }
+    }
+  });
@@ -0,0 +1,33 @@
+// components/pages/notes/tasks/types.ts
+import type { TemplateResult } from "lit-html";
+import type { Block } from "../../../../types/generated/public/Block";
+import type { TaskPriority } from "../../../../lib/shared/tasks";
+
+export interface ViewResult {
+  template: TemplateResult;
+  cleanup?: () => void;
+}
+
+/** An unticked task, with the note it is written in. */
+export interface OpenTask {
+  block: Block;
+  noteTitle: string;
+  due: string | null;
+  priority: TaskPriority | null;
+  /** The `repeat::` rule, for tasks that come back once done. */
+  repeat: string | null;
+}
+
+export interface Model {
+  /** Open tasks, by due date and then priority. */
+  tasks: OpenTask[];
+  /** Today as `YYYY-MM-DD`, as of the last update. */
+  today: string;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export type Action =
+  | { type: "DATA_UPDATED"; payload: OpenTask[] }
+  | { type: "DATA_ERROR"; payload: string }
+  | { type: "TOGGLE_TASK"; payload: { id: string; done: boolean } };
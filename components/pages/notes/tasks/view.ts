@@ -0,0 +1,105 @@
+// components/pages/notes/tasks/view.ts
+import { html, render } from "lit-html";
+import { repeat } from "lit-html/directives/repeat.js";
+import { navigate } from "../../../../lib/client/router";
+import { runClientUnscoped } from "../../../../lib/client/runtime";
+import { taskGroup, type TaskGroup } from "../../../../lib/shared/tasks";
+import styles from "../../TasksView.module.css";
+import type { Action, Model, OpenTask } from "./types";
+
+const groups: readonly { group: TaskGroup; title: string }[] = [
+  { group: "overdue", title: "Overdue" },
+  { group: "today", title: "Today" },
+  { group: "upcoming", title: "Upcoming" },
+  { group: "unscheduled", title: "No due date" },
+];
+
+export const renderView = (
+  container: HTMLElement,
+  currentModel: Model,
+  propose: (action: Action) => void,
+) => {
+  const renderTask = ({
+    block,
+    noteTitle,
+    due,
+    priority,
+    repeat,
+  }: OpenTask) => html`
+    <li class=${styles.task}>
+      <input
+        type="checkbox"
+        class=${styles.checkbox}
+        aria-label="Mark as done"
+        .checked=${block.done}
+        @change=${(e: Event) =>
+          propose({
+            type: "TOGGLE_TASK",
+            payload: {
+              id: block.id,
+              done: (e.target as HTMLInputElement).checked,
+            },
+          })}
+      />
+      <div class=${styles.taskBody}>
+        <p class=${styles.taskContent}>${block.content || "Untitled task"}</p>
+        <p class=${styles.taskMeta}>
+          ${block.note_id
+            ? html`<a
+                href="/notes/${block.note_id}"
+                @click=${(e: Event) => {
+                  e.preventDefault();
+                  runClientUnscoped(navigate(`/notes/${block.note_id}`));
+                }}
+                >${noteTitle}</a
+              >`
+            : ""}
+          ${due ? html`<span class=${styles.due}>Due ${due}</span>` : ""}
+          ${repeat ? html`<span>Repeats ${repeat}</span>` : ""}
+          ${priority
+            ? html`<span class="${styles.priority} ${styles[priority]}"
+                >${priority}</span
+              >`
+            : ""}
+        </p>
+      </div>
+    </li>
+  `;
+
+  const renderGroups = () => {
+    if (currentModel.tasks.length === 0) {
+      return html`<p class=${styles.emptyState}>No open tasks.</p>`;
+    }
+    return groups.map(({ group, title }) => {
+      const tasks = currentModel.tasks.filter(
+        (task) => taskGroup(task.due, currentModel.today) === group,
+      );
+      if (tasks.length === 0) return "";
+      return html`
+        <section class="${styles.section} ${styles[group]}">
+          <h3>${title} <span>${tasks.length}</span></h3>
+          <ul class=${styles.list}>
+            ${repeat(tasks, (task) => task.block.id, renderTask)}
+          </ul>
+        </section>
+      `;
+    });
+  };
+
+  const template = html`
+    <div class=${styles.container}>
+      <div class=${styles.header}>
+        <h2>Tasks</h2>
+        <p>Open tasks from all of your notes.</p>
+      </div>
+      ${currentModel.error
+        ? html`<div class=${styles.errorText}>${currentModel.error}</div>`
+        : ""}
+      ${currentModel.isLoading
+        ? html`<p class=${styles.emptyState}>Loading...</p>`
+        : renderGroups()}
+    </div>
+  `;
+
+  render(template, container);
+};
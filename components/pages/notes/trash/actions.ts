@@ -0,0 +1,109 @@
+// FILE: components/pages/notes/trash/actions.ts
+import { Effect, pipe, Ref } from "effect";
+import { rep } from "../../../../lib/client/replicache";
+import { clientLog } from "../../../../lib/client/logger.client";
+import { authState } from "../../../../lib/client/stores/authStore";
+import type { Action, Model } from "./types";
+
+/**
+ * Runs a trash mutator against Replicache, surfacing failures on the model.
+ */
+const runMutation = (
+  name: "restoreNote" | "purgeNote",
+  noteIds: readonly string[],
+  modelRef: Ref.Ref<Model>,
+  userId: string | undefined,
+) =>
+  pipe(
+    Effect.gen(function* () {
+      if (!rep) {
+        return yield* Effect.fail("Replicache is not initialized.");
+      }
+      const replicacheInstance = rep;
+      for (const id of noteIds) {
+        yield* Effect.promise(() => replicacheInstance.mutate[name]({ id }));
+      }
+      yield* clientLog(
+        "info",
+        `Ran ${name} for ${noteIds.length} note(s).`,
+        userId,
+        `Trash:${name}`,
+      );
+    }),
+    Effect.catchAll((error) =>
+      pipe(
+        clientLog(
+          "error",
+          `Failed to run ${name}: ${error}`,
+          userId,
+          `Trash:${name}`,
+        ),
+        Effect.andThen(
+          Ref.update(modelRef, (m): Model => ({ ...m, error: String(error) })),
+        ),
+      ),
+    ),
+  );
+
+export const handleAction = (
+  action: Action,
+  modelRef: Ref.Ref<Model>,
+): Effect.Effect<void> =>
+  Effect.gen(function* () {
+    const currentModel = yield* Ref.get(modelRef);
+    const userId = authState.value.user?.id;
+
+    yield* clientLog(
+      "debug",
+      `Handling action: ${action.type}`,
+      userId,
+      "Trash:handleAction",
+    );
+
+    switch (action.type) {
+      case "NOTES_UPDATED":
+        yield* Ref.set(modelRef, {
+          ...currentModel,
+          isLoading: false,
+          notes: action.payload,
+        });
+        break;
+
+      case "DATA_ERROR":
+        yield* clientLog(
+          "error",
+          `Data error received: ${action.payload}`,
+          userId,
+          "Trash:handleAction",
+        );
+        yield* Ref.set(modelRef, {
+          ...currentModel,
+          isLoading: false,
+          error: action.payload,
+        });
+        break;
+
+      case "RESTORE_NOTE":
+        yield* Effect.fork(
+          runMutation("restoreNote", [action.payload], modelRef, userId),
+        );
+        break;
+
+      case "PURGE_NOTE":
+        yield* Effect.fork(
+          runMutation("purgeNote", [action.payload], modelRef, userId),
+        );
+        break;
+
+      case "EMPTY_TRASH":
+        yield* Effect.fork(
+          runMutation(
+            "purgeNote",
+            currentModel.notes.map((note) => note.id),
+            modelRef,
+            userId,
+          ),
+        );
+        break;
+    }
+  });
@@ -0,0 +1,21 @@
+// components/pages/notes/trash/types.ts
+import type { TemplateResult } from "lit-html";
+import type { Note } from "../../../../types/generated/public/Note";
+
+export interface ViewResult {
+  template: TemplateResult;
+  cleanup?: () => void;
+}
+
+export interface Model {
+  notes: Note[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+export type Action =
+  | { type: "NOTES_UPDATED"; payload: Note[] }
+  | { type: "DATA_ERROR"; payload: string }
+  | { type: "RESTORE_NOTE"; payload: string }
+  | { type: "PURGE_NOTE"; payload: string }
+  | { type: "EMPTY_TRASH" };
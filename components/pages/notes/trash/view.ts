@@ -0,0 +1,92 @@
+// components/pages/notes/trash/view.ts
+import { html, render } from "lit-html";
+import { repeat } from "lit-html/directives/repeat.js";
+import styles from "../../TrashView.module.css";
+import type { Model, Action } from "./types";
+import { TRASH_RETENTION_DAYS } from "../../../../lib/shared/trash";
+
+const daysUntilPurge = (deletedAt: Date): number => {
+  const purgeAt =
+    new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+};
+
+export const renderView = (
+  container: HTMLElement,
+  currentModel: Model,
+  propose: (action: Action) => void,
+) => {
+  const renderNotes = () => {
+    if (currentModel.isLoading) {
+      return html`<p class=${styles.emptyState}>Loading trash...</p>`;
+    }
+    if (currentModel.notes.length === 0) {
+      return html`<p class=${styles.emptyState}>The trash is empty.</p>`;
+    }
+    return html`
+      <ul class=${styles.notesList}>
+        ${repeat(
+          currentModel.notes,
+          (note) => note.id,
+          (note) => html`
+            <li class=${styles.noteItem}>
+              <div>
+                <h3>${note.title}</h3>
+                <p>
+                  ${note.deleted_at
+                    ? `Deleted permanently in ${daysUntilPurge(
+                        note.deleted_at,
+                      )} day(s)`
+                    : ""}
+                </p>
+              </div>
+              <div class=${styles.itemActions}>
+                <button
+                  @click=${() =>
+                    propose({ type: "RESTORE_NOTE", payload: note.id })}
+                  class=${styles.restoreButton}
+                >
+                  Restore
+                </button>
+                <button
+                  @click=${() =>
+                    propose({ type: "PURGE_NOTE", payload: note.id })}
+                  class=${styles.purgeButton}
+                >
+                  Delete Forever
+                </button>
+              </div>
+            </li>
+          `,
+        )}
+      </ul>
+    `;
+  };
+
+  const template = html`
+    <div class=${styles.container}>
+      <div class=${styles.header}>
+        <div>
+          <h2>Trash</h2>
+          <p>
+            Notes in the trash are deleted permanently after
+            ${TRASH_RETENTION_DAYS} days.
+          </p>
+        </div>
+        <button
+          @click=${() => propose({ type: "EMPTY_TRASH" })}
+          ?disabled=${currentModel.notes.length === 0}
+          class=${styles.purgeButton}
+        >
+          Empty Trash
+        </button>
+      </div>
+      ${currentModel.error
+        ? html`<div class=${styles.errorText}>${currentModel.error}</div>`
+        : ""}
+      ${renderNotes()}
+    </div>
+  `;
+
+  render(template, container);
+};
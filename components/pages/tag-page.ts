@@ -0,0 +1,179 @@
+// FILE: components/pages/tag-page.ts
+import { html } from "lit-html";
+import { pipe, Effect, Queue, Ref, Fiber, Stream, Either } from "effect";
+import { Schema } from "@effect/schema";
+
+import { runClientUnscoped } from "../../lib/client/runtime";
+import { rep } from "../../lib/client/replicache";
+import { clientLog } from "../../lib/client/logger.client";
+import {
+  BlockSchema,
+  NoteSchema,
+  SyncedTagSchema,
+} from "../../lib/shared/schemas";
+import { blockHasTag, normalizeTagName } from "../../lib/shared/tags";
+import { handleAction } from "./notes/tag/actions";
+import { renderView } from "./notes/tag/view";
+import type {
+  ViewResult,
+  Model,
+  Action,
+  TaggedContent,
+} from "./notes/tag/types";
+
+const decodeAll = <A>(
+  schema: Schema.Schema<A, unknown>,
+  values: readonly unknown[],
+): A[] =>
+  values.flatMap((json) => {
+    const decoded = Schema.decodeUnknownEither(schema)(json);
+    return Either.isRight(decoded) ? [decoded.right] : [];
+  });
+
+const decodeTagName = (encodedName: string) => {
+  try {
+    return normalizeTagName(decodeURIComponent(encodedName));
+  } catch {
+    // A malformed escape; no tag can have that name, so show it as typed.
+    return normalizeTagName(encodedName);
+  }
+};
+
+// --- View Entry Point ---
+export const TagView = (encodedName: string): ViewResult => {
+  const name = decodeTagName(encodedName);
+  const container = document.createElement("div");
+  const componentProgram = Effect.gen(function* () {
+    const model = yield* Ref.make<Model>({
+      name,
+      notes: [],
+      blocks: [],
+      isLoading: true,
+      error: null,
+    });
+    const actionQueue = yield* Queue.unbounded<Action>();
+
+    const propose = (action: Action) =>
+      Effect.runFork(
+        pipe(
+          clientLog(
+            "debug",
+            `TagView: Proposing action ${action.type}`,
+            undefined,
+            "TagView:propose",
+          ),
+          Effect.andThen(Queue.offer(actionQueue, action)),
+        ),
+      );
+
+    const renderEffect = pipe(
+      Ref.get(model),
+      Effect.tap((m) => renderView(container, m)),
+    );
+
+    const replicacheStream = Stream.async<TaggedContent, string>((emit) => {
+      if (!rep) {
+        void emit.fail("Replicache is not initialized.");
+        return;
+      }
+
+      const unsubscribe = rep.subscribe(
+        async (tx) => {
+          const tags = decodeAll(
+            SyncedTagSchema,
+            await tx.scan({ prefix: "tag/" }).values().toArray(),
+          );
+          const notes = decodeAll(
+            NoteSchema,
+            await tx.scan({ prefix: "note/" }).values().toArray(),
+          ).filter((note) => note.deleted_at === null);
+          const blocks = decodeAll(
+            BlockSchema,
+            await tx.scan({ prefix: "block/" }).values().toArray(),
+          );
+
+          const noteIds = new Set<string>(
+            tags.find((tag) => tag.name === name)?.note_ids ?? [],
+          );
+          const titles = new Map(notes.map((note) => [note.id, note.title]));
+          return {
+            notes: notes
+              .filter((note) => noteIds.has(note.id))
+              .sort(
+                (a, b) =>
+                  new Date(b.updated_at).getTime() -
+                  new Date(a.updated_at).getTime(),
+              ),
+            blocks: blocks
+              .filter((block) => blockHasTag(block, name))
+              .map((block) => ({
+                block,
+                noteTitle: block.note_id
+                  ? (titles.get(block.note_id) ?? null)
+                  : null,
+              }))
+              .sort(
+                (a, b) =>
+                  (a.noteTitle ?? "").localeCompare(b.noteTitle ?? "") ||
+                  a.block.order - b.block.order,
+              ),
+          };
+        },
+        {
+          onData: (data: TaggedContent) => {
+            void emit.single(data);
+          },
+        },
+      );
+
+      return Effect.sync(unsubscribe);
+    });
+
+    const mainLoop = Effect.gen(function* () {
+      const actionProcessor = Queue.take(actionQueue).pipe(
+        Effect.flatMap((action) => handleAction(action, model)),
+        Effect.andThen(renderEffect),
+        Effect.forever,
+      );
+      const dataSubscriber = replicacheStream.pipe(
+        Stream.flatMap((data) =>
+          Stream.fromEffect(propose({ type: "DATA_UPDATED", payload: data })),
+        ),
+        Stream.catchAll((err) =>
+          Stream.fromEffect(
+            propose({ type: "DATA_ERROR", payload: String(err) }),
+          ),
+        ),
+        Stream.runDrain,
+      );
+      yield* renderEffect; // Initial render
+      yield* Effect.all([actionProcessor, dataSubscriber], {
+        concurrency: "unbounded",
+      });
+    }).pipe(
+      Effect.catchAllDefect((defect) =>
+        clientLog(
+          "error",
+          `[FATAL] Uncaught defect in TagView main loop: ${String(defect)}`,
+        ),
+      ),
+    );
+    yield* mainLoop;
+  });
+
+  const fiber = runClientUnscoped(componentProgram);
+  return {
+    template: html`${container}`,
+    cleanup: () => {
+      runClientUnscoped(
+        clientLog(
+          "debug",
+          "TagView cleanup running, interrupting fiber.",
+          undefined,
+          "TagView:cleanup",
+        ),
+      );
+      runClientUnscoped(Fiber.interrupt(fiber));
+    },
+  };
+};
@@ -0,0 +1,162 @@
+// FILE: components/pages/tasks-page.ts
+import { html } from "lit-html";
+import { pipe, Effect, Queue, Ref, Fiber, Stream, Either } from "effect";
+import { Schema } from "@effect/schema";
+
+import { runClientUnscoped } from "../../lib/client/runtime";
+import { rep } from "../../lib/client/replicache";
+import { clientLog } from "../../lib/client/logger.client";
+import { BlockSchema, NoteSchema } from "../../lib/shared/schemas";
+import {
+  compareTasks,
+  taskDue,
+  taskPriority,
+  taskRepeat,
+  toDateString,
+} from "../../lib/shared/tasks";
+import { handleAction } from "./notes/tasks/actions";
+import { renderView } from "./notes/tasks/view";
+import type { ViewResult, Model, Action, OpenTask } from "./notes/tasks/types";
+
+const decodeAll = <A>(
+  schema: Schema.Schema<A, unknown>,
+  values: readonly unknown[],
+): A[] =>
+  values.flatMap((json) => {
+    const decoded = Schema.decodeUnknownEither(schema)(json);
+    return Either.isRight(decoded) ? [decoded.right] : [];
+  });
+
+// --- View Entry Point ---
+export const TasksView = (): ViewResult => {
+  const container = document.createElement("div");
+  const componentProgram = Effect.gen(function* () {
+    const model = yield* Ref.make<Model>({
+      tasks: [],
+      today: toDateString(new Date()),
+      isLoading: true,
+      error: null,
+    });
+    const actionQueue = yield* Queue.unbounded<Action>();
+
+    const propose = (action: Action) =>
+      Effect.runFork(
+        pipe(
+          clientLog(
+            "debug",
+            `TasksView: Proposing action ${action.type}`,
+            undefined,
+            "TasksView:propose",
+          ),
+          Effect.andThen(Queue.offer(actionQueue, action)),
+        ),
+      );
+
+    const renderEffect = pipe(
+      Ref.get(model),
+      Effect.tap((m) => renderView(container, m, propose)),
+    );
+
+    const replicacheStream = Stream.async<OpenTask[], string>((emit) => {
+      if (!rep) {
+        void emit.fail("Replicache is not initialized.");
+        return;
+      }
+
+      const unsubscribe = rep.subscribe(
+        async (tx) => {
+          // Tasks in trashed notes are not open work.
+          const titles = new Map(
+            decodeAll(
+              NoteSchema,
+              await tx.scan({ prefix: "note/" }).values().toArray(),
+            )
+              .filter((note) => note.deleted_at === null)
+              .map((note) => [note.id as string, note.title]),
+          );
+          return decodeAll(
+            BlockSchema,
+            await tx.scan({ prefix: "block/" }).values().toArray(),
+          )
+            .filter(
+              (block) =>
+                block.type === "task" &&
+                !block.done &&
+                block.deleted_at === null &&
+                block.note_id !== null &&
+                titles.has(block.note_id),
+            )
+            .sort(
+              (a, b) =>
+                compareTasks(a, b) ||
+                (titles.get(a.note_id!) ?? "").localeCompare(
+                  titles.get(b.note_id!) ?? "",
+                ) ||
+                a.order - b.order,
+            )
+            .map((block) => ({
+              block,
+              noteTitle: titles.get(block.note_id!) ?? "",
+              due: taskDue(block),
+              priority: taskPriority(block),
+              repeat: taskRepeat(block),
+            }));
+        },
+        {
+          onData: (data: OpenTask[]) => {
+            void emit.single(data);
+          },
+        },
+      );
+
+      return Effect.sync(unsubscribe);
+    });
+
+    const mainLoop = Effect.gen(function* () {
+      const actionProcessor = Queue.take(actionQueue).pipe(
+        Effect.flatMap((action) => handleAction(action, model)),
+        Effect.andThen(renderEffect),
+        Effect.forever,
+      );
+      const dataSubscriber = replicacheStream.pipe(
+        Stream.flatMap((data) =>
+          Stream.fromEffect(propose({ type: "DATA_UPDATED", payload: data })),
+        ),
+        Stream.catchAll((err) =>
+          Stream.fromEffect(
+            propose({ type: "DATA_ERROR", payload: String(err) }),
+          ),
+        ),
+        Stream.runDrain,
+      );
+      yield* renderEffect; // Initial render
+      yield* Effect.all([actionProcessor, dataSubscriber], {
+        concurrency: "unbounded",
+      });
+    }).pipe(
+      Effect.catchAllDefect((defect) =>
+        clientLog(
+          "error",
+          `[FATAL] Uncaught defect in TasksView main loop: ${String(defect)}`,
+        ),
+      ),
+    );
+    yield* mainLoop;
+  });
+
+  const fiber = runClientUnscoped(componentProgram);
+  return {
+    template: html`${container}`,
+    cleanup: () => {
+      runClientUnscoped(
+        clientLog(
+          "debug",
+          "TasksView cleanup running, interrupting fiber.",
+          undefined,
+          "TasksView:cleanup",
+        ),
+      );
+      runClientUnscoped(Fiber.interrupt(fiber));
+    },
+  };
+};
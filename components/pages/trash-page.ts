@@ -0,0 +1,137 @@
+// FILE: components/pages/trash-page.ts
+import { html } from "lit-html";
+import { pipe, Effect, Queue, Ref, Fiber, Stream, Either } from "effect";
+import { Schema } from "@effect/schema";
+
+import { runClientUnscoped } from "../../lib/client/runtime";
+import { rep } from "../../lib/client/replicache";
+import { clientLog } from "../../lib/client/logger.client";
+import { NoteSchema } from "../../lib/shared/schemas";
+import type { Note } from "../../types/generated/public/Note";
+import { handleAction } from "./notes/trash/actions";
+import { renderView } from "./notes/trash/view";
+import type { ViewResult, Model, Action } from "./notes/trash/types";
+
+// --- View Entry Point ---
+export const TrashView = (): ViewResult => {
+  const container = document.createElement("div");
+  const componentProgram = Effect.gen(function* () {
+    const model = yield* Ref.make<Model>({
+      notes: [],
+      isLoading: true,
+      error: null,
+    });
+    const actionQueue = yield* Queue.unbounded<Action>();
+
+    const propose = (action: Action) =>
+      Effect.runFork(
+        pipe(
+          clientLog(
+            "debug",
+            `TrashView: Proposing action ${action.type}`,
+            undefined,
+            "TrashView:propose",
+          ),
+          Effect.andThen(Queue.offer(actionQueue, action)),
+        ),
+      );
+
+    const renderEffect = pipe(
+      Ref.get(model),
+      Effect.tap((m) => renderView(container, m, propose)),
+    );
+
+    const replicacheStream = Stream.async<Note[], string>((emit) => {
+      if (!rep) {
+        void emit.fail("Replicache is not initialized.");
+        return;
+      }
+
+      const unsubscribe = rep.subscribe(
+        async (tx) => {
+          const noteJSONs = await tx
+            .scan({ prefix: "note/" })
+            .values()
+            .toArray();
+          const notes = noteJSONs.flatMap((json) => {
+            const decoded = Schema.decodeUnknownEither(NoteSchema)(json);
+            if (Either.isRight(decoded)) {
+              return [decoded.right];
+            }
+            void clientLog(
+              "error",
+              `Failed to decode note from Replicache: ${JSON.stringify(
+                decoded.left,
+              )}`,
+              undefined,
+              "TrashView:ReplicacheDecoder",
+            );
+            return [];
+          });
+          // Most recently trashed first.
+          return notes
+            .filter((note) => note.deleted_at !== null)
+            .sort(
+              (a, b) =>
+                new Date(b.deleted_at!).getTime() -
+                new Date(a.deleted_at!).getTime(),
+            );
+        },
+        {
+          onData: (data: Note[]) => {
+            void emit.single(data);
+          },
+        },
+      );
+
+      return Effect.sync(unsubscribe);
+    });
+
+    const mainLoop = Effect.gen(function* () {
+      const actionProcessor = Queue.take(actionQueue).pipe(
+        Effect.flatMap((action) => handleAction(action, model)),
+        Effect.andThen(renderEffect),
+        Effect.forever,
+      );
+      const dataSubscriber = replicacheStream.pipe(
+        Stream.flatMap((data) =>
+          Stream.fromEffect(propose({ type: "NOTES_UPDATED", payload: data })),
+        ),
+        Stream.catchAll((err) =>
+          Stream.fromEffect(
+            propose({ type: "DATA_ERROR", payload: String(err) }),
+          ),
+        ),
+        Stream.runDrain,
+      );
+      yield* renderEffect; // Initial render
+      yield* Effect.all([actionProcessor, dataSubscriber], {
+        concurrency: "unbounded",
+      });
+    }).pipe(
+      Effect.catchAllDefect((defect) =>
+        clientLog(
+          "error",
+          `[FATAL] Uncaught defect in TrashView main loop: ${String(defect)}`,
+        ),
+      ),
+    );
+    yield* mainLoop;
+  });
+
+  const fiber = runClientUnscoped(componentProgram);
+  return {
+    template: html`${container}`,
+    cleanup: () => {
+      runClientUnscoped(
+        clientLog(
+          "debug",
+          "TrashView cleanup running, interrupting fiber.",
+          undefined,
+          "TrashView:cleanup",
+        ),
+      );
+      runClientUnscoped(Fiber.interrupt(fiber));
+    },
+  };
+};
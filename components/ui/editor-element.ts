@@ -1,61 +1,166 @@
 // File: ./components/ui/editor-element.ts
 import { Editor } from "@tiptap/core";
 import StarterKit from "@tiptap/starter-kit";
+import Collaboration from "@tiptap/extension-collaboration";
+import { WikiLink } from "./wikiLinkExtension";
 import styles from "./EditorElement.module.css";
 import { clientLog } from "../../lib/client/logger.client";
 import { runClientUnscoped } from "../../lib/client/runtime";
+import {
+  openNoteDocument,
+  type NoteDocumentHandle,
+} from "../../lib/client/replicache/noteDocuments";
+import * as Y from "yjs";
+import {
+  NOTE_DOCUMENT_FIELD,
+  noteDocumentToMarkdown,
+  setNoteDocumentMarkdown,
+} from "../../lib/shared/noteDocument";
 
 export class EditorElement extends HTMLElement {
   private editor: Editor | null = null;
   private _content: string = "";
+  private _noteId: string | null = null;
+  private document: NoteDocumentHandle | null = null;
+  /** A copy of the note's markdown, edited while its document cannot be had. */
+  private detached: Y.Doc | null = null;
+  private unsubscribeDocument: (() => void) | null = null;
 
+  /**
+   * The content to edit without a note document. With `noteId` set, this is
+   * the note's markdown, which is only read if its document cannot be had.
+   */
   set content(value: string) {
     this._content = value;
-    if (this.editor) {
+    if (this.editor && !this.document) {
       if (this.editor.getHTML() !== value) {
         this.editor.commands.setContent(value, false);
       }
     }
   }
 
+  /**
+   * Binds the editor to a note's collaborative document instead of
+   * `content`. Edits then sync through the document, not `editor-update`,
+   * including offline once the note has been opened before.
+   *
+   * Offline, a note whose document was never kept on this device is edited
+   * as a copy of its markdown (`content`) instead, and each edit is
+   * dispatched as `editor-update` with the note's new markdown, to be saved
+   * like any other edit to the note.
+   */
+  set noteId(value: string | null) {
+    if (value === this._noteId) return;
+    this._noteId = value;
+    if (this.isConnected) {
+      this.teardown();
+      this.setup();
+    }
+  }
+
   connectedCallback() {
+    this.setup();
+  }
+
+  disconnectedCallback() {
+    this.teardown();
+  }
+
+  private setup() {
     this.innerHTML = `<div class="${styles.editorContent}"></div>`;
     const editorElement = this.querySelector<HTMLElement>(
       `.${styles.editorContent}`,
     );
+    if (!editorElement) return;
 
-    if (editorElement) {
-      this.editor = new Editor({
-        element: editorElement,
-        extensions: [StarterKit],
-        content: this._content,
-        editorProps: {
-          attributes: {
-            class: styles.proseMirror,
-          },
-        },
-        onUpdate: ({ editor }) => {
-          const event = new CustomEvent("editor-update", {
-            detail: { content: editor.getHTML() },
+    if (this._noteId === null) {
+      this.createEditor(editorElement, null);
+      return;
+    }
+    // The editor is only created once the document holds the note, from the
+    // server or kept from an earlier session; bound to an empty document, it
+    // would write a stray empty paragraph into it.
+    const handle = openNoteDocument(this._noteId);
+    this.document = handle;
+    const unsubscribeLoaded = handle.loaded.subscribe((loaded) => {
+      if (loaded && !this.editor) this.createEditor(editorElement, handle.doc);
+    });
+    // Offline with no document kept, the note's markdown is edited instead.
+    // A document seeded here would merge into the server's as a second copy
+    // of the text, so the copy is never synced.
+    const unsubscribeUnavailable = handle.unavailable.subscribe(
+      (unavailable) => {
+        if (!unavailable || this.editor) return;
+        this.detached = new Y.Doc();
+        setNoteDocumentMarkdown(this.detached, this._content);
+        this.createEditor(editorElement, this.detached);
+      },
+    );
+    this.unsubscribeDocument = () => {
+      unsubscribeLoaded();
+      unsubscribeUnavailable();
+    };
+  }
+
+  private createEditor(element: HTMLElement, doc: Y.Doc | null) {
+    const wikiLink = WikiLink.configure({
+      className: styles.wikiLink,
+      onOpen: (link) => {
+        this.dispatchEvent(
+          new CustomEvent("wiki-link-open", {
+            detail: { link },
             bubbles: true,
             composed: true,
-          });
-          this.dispatchEvent(event);
+          }),
+        );
+      },
+    });
+    this.editor = new Editor({
+      element,
+      extensions: doc
+        ? [
+            // Collaboration brings its own undo history, scoped to this
+            // client's edits.
+            StarterKit.configure({ history: false }),
+            Collaboration.configure({
+              document: doc,
+              field: NOTE_DOCUMENT_FIELD,
+            }),
+            wikiLink,
+          ]
+        : [StarterKit, wikiLink],
+      ...(doc ? {} : { content: this._content }),
+      editorProps: {
+        attributes: {
+          class: styles.proseMirror,
         },
-      });
+      },
+      onUpdate: ({ editor }) => {
+        if (doc && doc !== this.detached) return;
+        const event = new CustomEvent("editor-update", {
+          detail: {
+            content: doc ? noteDocumentToMarkdown(doc) : editor.getHTML(),
+          },
+          bubbles: true,
+          composed: true,
+        });
+        this.dispatchEvent(event);
+      },
+    });
 
-      runClientUnscoped(
-        clientLog(
-          "info",
-          "TipTap editor initialized.",
-          undefined,
-          "EditorElement",
-        ),
-      );
-    }
+    runClientUnscoped(
+      clientLog(
+        "info",
+        "TipTap editor initialized.",
+        undefined,
+        "EditorElement",
+      ),
+    );
   }
 
-  disconnectedCallback() {
+  private teardown() {
+    this.unsubscribeDocument?.();
+    this.unsubscribeDocument = null;
     if (this.editor) {
       this.editor.destroy();
       this.editor = null;
@@ -68,6 +173,10 @@ export class EditorElement extends HTMLElement {
         ),
       );
     }
+    this.document?.close();
+    this.document = null;
+    this.detached?.destroy();
+    this.detached = null;
   }
 }
 
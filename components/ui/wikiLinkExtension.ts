@@ -0,0 +1,72 @@
+// File: ./components/ui/wikiLinkExtension.ts
+import { Extension } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { wikiLinkRegex } from "../../lib/shared/wikiLinks";
+
+export interface WikiLinkOptions {
+  /** Class for the decorated `[[link]]` text. */
+  className: string;
+  /** Called with the raw link text when a link is Ctrl/Cmd-clicked. */
+  onOpen: (link: string) => void;
+}
+
+const wikiLinkKey = new PluginKey<DecorationSet>("wikiLink");
+
+const decorate = (doc: ProseMirrorNode, className: string): DecorationSet => {
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isText || !node.text) return;
+    for (const match of node.text.matchAll(wikiLinkRegex)) {
+      const from = pos + (match.index ?? 0);
+      decorations.push(
+        Decoration.inline(
+          from,
+          from + match[0].length,
+          { class: className, title: "Ctrl/Cmd-click to open" },
+          { link: match[1] },
+        ),
+      );
+    }
+  });
+  return DecorationSet.create(doc, decorations);
+};
+
+/**
+ * Marks `[[links]]` in the text and opens them on Ctrl/Cmd-click. The text
+ * stays plain markdown; a plain click still just places the cursor.
+ */
+export const WikiLink = Extension.create<WikiLinkOptions>({
+  name: "wikiLink",
+
+  addOptions() {
+    return { className: "", onOpen: () => undefined };
+  },
+
+  addProseMirrorPlugins() {
+    const { className, onOpen } = this.options;
+    return [
+      new Plugin<DecorationSet>({
+        key: wikiLinkKey,
+        state: {
+          init: (_, state) => decorate(state.doc, className),
+          apply: (tr, decorations) =>
+            tr.docChanged ? decorate(tr.doc, className) : decorations,
+        },
+        props: {
+          decorations: (state) => wikiLinkKey.getState(state),
+          handleClick: (view, pos, event) => {
+            if (!event.metaKey && !event.ctrlKey) return false;
+            const [hit] =
+              wikiLinkKey.getState(view.state)?.find(pos, pos) ?? [];
+            const link = (hit?.spec as { link?: string } | undefined)?.link;
+            if (link === undefined) return false;
+            onOpen(link);
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,14 @@
+// FILE: db/transaction.ts
+import type { Kysely } from "kysely";
+import type { Database } from "../types";
+
+/**
+ * Runs `fn` inside a transaction. When `db` already is one (for example the
+ * per-request transaction `handlePush` provides as the `Db` service), `fn`
+ * joins it instead of trying to open a nested transaction, which Kysely
+ * does not support.
+ */
+export const runInTransaction = <T>(
+  db: Kysely<Database>,
+  fn: (trx: Kysely<Database>) => Promise<T>,
+): Promise<T> => (db.isTransaction ? fn(db) : db.transaction().execute(fn));
@@ -9,6 +9,9 @@ import {
 import { serverLog } from "./lib/server/logger.server";
 import {
   cleanupExpiredTokensEffect,
+  flattenNoteDocumentsEffect,
+  purgeExpiredTrashEffect,
+  pruneReplicacheStateEffect,
   retryFailedEmailsEffect,
 } from "./lib/server/jobs";
 
@@ -67,9 +70,15 @@ const setupApp = Effect.gen(function* () {
         case "NoteValidationError":
           set.status = 400;
           break;
+        case "ClientGroupForbiddenError":
+          set.status = 403;
+          break;
         case "NoteNotFoundError":
           set.status = 404;
           break;
+        case "MutationOutOfOrderError":
+          set.status = 409;
+          break;
         default:
           set.status = 500;
           break;
@@ -154,6 +163,52 @@ const setupApp = Effect.gen(function* () {
     ),
   );
 
+  void runServerUnscoped(
+    pipe(
+      purgeExpiredTrashEffect,
+      Effect.repeat(Schedule.spaced(Duration.hours(24))),
+      Effect.tapError((e) =>
+        serverLog(
+          "error", // level
+          { error: e }, // data
+          `Trash purge job failed: ${e.message}`, // message
+          "Job:TrashPurge",
+        ),
+      ),
+    ),
+  );
+
+  void runServerUnscoped(
+    pipe(
+      pruneReplicacheStateEffect,
+      Effect.repeat(Schedule.spaced(Duration.hours(24))),
+      Effect.tapError((e) =>
+        serverLog(
+          "error", // level
+          { error: e }, // data
+          `Replicache GC job failed: ${e.message}`, // message
+          "Job:ReplicacheGc",
+        ),
+      ),
+    ),
+  );
+
+  void runServerUnscoped(
+    pipe(
+      flattenNoteDocumentsEffect,
+      // Failures are per run; the next one picks up where this left off.
+      Effect.catchAll((e) =>
+        serverLog(
+          "error", // level
+          { error: e }, // data
+          `Note document flatten job failed: ${e.message}`, // message
+          "Job:NoteDocumentFlatten",
+        ),
+      ),
+      Effect.repeat(Schedule.spaced(Duration.seconds(5))),
+    ),
+  );
+
   void runServerUnscoped(
     pipe(
       retryFailedEmailsEffect,
@@ -1,12 +1,13 @@
 // File: elysia/routes.ts
 
 import { Elysia, t } from "elysia";
-import { Effect, Fiber, Stream } from "effect";
+import { Duration, Effect, Fiber, Schedule, Stream } from "effect";
 import { staticPlugin } from "@elysiajs/static";
-import type { PushRequest } from "replicache";
+import type { PushRequest, VersionNotSupportedResponse } from "replicache";
 import { existsSync, readFileSync } from "node:fs";
 
 import { PokeService } from "../lib/server/PokeService";
+import { PresenceService } from "../lib/server/PresenceService";
 import { appRouter } from "../trpc/router";
 import { createContext } from "../trpc/context";
 import { createElysiaTrpcAdapter } from "./trpcAdapter";
@@ -22,11 +23,53 @@ import { serverLog } from "../lib/server/logger.server";
 import { effectHandler } from "./effectHandler";
 import { validateSessionEffect } from "../lib/server/auth";
 import { ip } from "elysia-ip";
+import {
+  SOCKET_AUTH_FAILED_CLOSE_CODE,
+  SOCKET_HEARTBEAT_INTERVAL_MS,
+  SOCKET_IDLE_TIMEOUT_MS,
+  type ServerSocketMessage,
+} from "../lib/shared/socket";
+import type { User } from "../types/generated/public/User";
+import {
+  decodeBinary,
+  encodeBinary,
+  parseNoteDocumentKey,
+} from "../lib/shared/noteDocument";
+import { syncNoteDocument } from "../features/notes/syncNoteDocument";
+import { applyNoteDocumentUpdate } from "../features/notes/applyNoteDocumentUpdate";
+
+interface SocketConnection {
+  /** When the client last sent anything; see `SOCKET_IDLE_TIMEOUT_MS`. */
+  lastSeen: number;
+  /** Set once an auth message has been accepted for processing. */
+  authRequested: boolean;
+  /** The authenticated user, for attributing presence updates. */
+  user: Pick<User, "id" | "email" | "avatar_url"> | null;
+  /** Notes whose collaborative documents this socket has open. */
+  readonly documents: Set<string>;
+  /** The idle watchdog and, once authenticated, the subscriptions. */
+  readonly fibers: Fiber.RuntimeFiber<unknown, unknown>[];
+}
+
+/** Makes a client on a schema version we cannot serve reload. */
+const VERSION_NOT_SUPPORTED: VersionNotSupportedResponse = {
+  error: "VersionNotSupported",
+  versionType: "schema",
+};
+
+/** Generous for a burst of typing; a whole pasted note fits easily. */
+const MAX_DOC_MESSAGE_LENGTH = 4_000_000;
+
+const sendSocketMessage = (
+  ws: { send: (data: string) => unknown },
+  message: ServerSocketMessage,
+) => ws.send(JSON.stringify(message));
 
 export const makeApp = Effect.gen(function* () {
   const isProduction = process.env.NODE_ENV === "production";
   const pokeService = yield* PokeService;
-  const wsConnections = new Map<string, Fiber.RuntimeFiber<void, unknown>>();
+  const presenceService = yield* PresenceService;
+  const wsConnections = new Map<string, SocketConnection>();
 
   const trpcHandler = createElysiaTrpcAdapter({
     router: appRouter,
@@ -53,6 +96,10 @@ export const makeApp = Effect.gen(function* () {
               return yield* handlePull(
                 user.id,
                 ctx.body as ReplicachePullRequest,
+              ).pipe(
+                Effect.catchTag("SchemaVersionNotSupportedError", () =>
+                  Effect.succeed(VERSION_NOT_SUPPORTED),
+                ),
               );
             }),
           )(),
@@ -61,8 +108,15 @@ export const makeApp = Effect.gen(function* () {
           effectHandler(
             Effect.gen(function* () {
               const user = yield* authenticateRequestEffect(ctx.request);
-              yield* handlePush(ctx.body as PushRequest, user.id);
-              return { ok: true };
+              return yield* handlePush(ctx.body as PushRequest, user.id).pipe(
+                Effect.as({ ok: true } as const),
+                Effect.catchTag("ClientStateNotFoundError", () =>
+                  Effect.succeed({ error: "ClientStateNotFound" } as const),
+                ),
+                Effect.catchTag("SchemaVersionNotSupportedError", () =>
+                  Effect.succeed(VERSION_NOT_SUPPORTED),
+                ),
+              );
             }),
           )(),
         )
@@ -73,63 +127,240 @@ export const makeApp = Effect.gen(function* () {
         ),
     )
     .ws("/ws", {
-      query: t.Object({
-        sessionId: t.Optional(t.String()),
-      }),
+      body: t.Union([
+        t.Object({
+          type: t.Literal("auth"),
+          sessionId: t.String(),
+          clientGroupID: t.String(),
+        }),
+        t.Object({ type: t.Literal("ping") }),
+        t.Object({
+          type: t.Literal("presence"),
+          device: t.String({ maxLength: 100 }),
+          noteId: t.Union([t.String(), t.Null()]),
+          editing: t.Boolean(),
+        }),
+        t.Object({
+          type: t.Literal("doc-sync"),
+          noteId: t.String(),
+          stateVector: t.String({ maxLength: MAX_DOC_MESSAGE_LENGTH }),
+        }),
+        t.Object({
+          type: t.Literal("doc-update"),
+          noteId: t.String(),
+          update: t.String({ maxLength: MAX_DOC_MESSAGE_LENGTH }),
+        }),
+        t.Object({ type: t.Literal("doc-close"), noteId: t.String() }),
+      ]),
       open(ws) {
+        const wsId = String(ws.id);
+        const connection: SocketConnection = {
+          lastSeen: Date.now(),
+          authRequested: false,
+          user: null,
+          documents: new Set(),
+          fibers: [],
+        };
+        wsConnections.set(wsId, connection);
+        // Closes sockets whose client stopped pinging (or never authenticated)
+        // so their subscriptions do not linger after a silent disconnect.
+        connection.fibers.push(
+          runServerUnscoped(
+            Effect.sync(() => {
+              if (Date.now() - connection.lastSeen > SOCKET_IDLE_TIMEOUT_MS) {
+                ws.close();
+              }
+            }).pipe(
+              Effect.repeat(
+                Schedule.spaced(Duration.millis(SOCKET_HEARTBEAT_INTERVAL_MS)),
+              ),
+            ),
+          ),
+        );
         runServerUnscoped(
-          Effect.gen(function* () {
-            const sessionId = ws.data.query.sessionId;
-            if (!sessionId) {
-              yield* serverLog(
-                "warn", // level
-                { wsId: String(ws.id) }, // data
-                "WS Connection closed: No session ID provided.", // message
-              );
-              ws.send(JSON.stringify({ error: "authentication_failed" }));
-              return ws.close();
-            }
+          serverLog(
+            "info", // level
+            { wsId }, // data
+            "WebSocket opened. Waiting for auth message.", // message
+            "WS:Lifecycle",
+          ),
+        );
+      },
+      message(ws, message) {
+        const wsId = String(ws.id);
+        const connection = wsConnections.get(wsId);
+        if (!connection) return;
+        connection.lastSeen = Date.now();
 
-            const { user } = yield* validateSessionEffect(sessionId).pipe(
-              Effect.catchAll((e) => {
-                return serverLog(
+        if (message.type === "ping") {
+          sendSocketMessage(ws, { type: "pong" });
+          return;
+        }
+        if (message.type === "presence") {
+          const { user } = connection;
+          if (!user) return;
+          runServerUnscoped(
+            presenceService.update(user.id, {
+              connectionId: wsId,
+              userId: user.id,
+              email: user.email,
+              avatarUrl: user.avatar_url,
+              device: message.device,
+              noteId: message.noteId,
+              editing: message.editing,
+            }),
+          );
+          return;
+        }
+        if (
+          message.type === "doc-sync" ||
+          message.type === "doc-update" ||
+          message.type === "doc-close"
+        ) {
+          const { user } = connection;
+          if (!user) return;
+          const { noteId } = message;
+          if (message.type === "doc-close") {
+            connection.documents.delete(noteId);
+            return;
+          }
+          // The client drops its copy on an error and reopens the note to
+          // try again.
+          const failDocument = Effect.sync(() => {
+            connection.documents.delete(noteId);
+            sendSocketMessage(ws, { type: "doc-error", noteId });
+          });
+          if (message.type === "doc-sync") {
+            connection.documents.add(noteId);
+            runServerUnscoped(
+              Effect.try(() => decodeBinary(message.stateVector)).pipe(
+                Effect.andThen((stateVector) =>
+                  syncNoteDocument(noteId, user.id, stateVector),
+                ),
+                Effect.andThen(({ update, stateVector }) =>
+                  Effect.sync(() =>
+                    sendSocketMessage(ws, {
+                      type: "doc-sync",
+                      noteId,
+                      update: encodeBinary(update),
+                      stateVector: encodeBinary(stateVector),
+                    }),
+                  ),
+                ),
+                Effect.catchAll(() => failDocument),
+              ),
+            );
+            return;
+          }
+          runServerUnscoped(
+            Effect.try(() => decodeBinary(message.update)).pipe(
+              Effect.andThen((update) =>
+                applyNoteDocumentUpdate(noteId, user.id, update),
+              ),
+              Effect.catchAll(() => failDocument),
+            ),
+          );
+          return;
+        }
+        if (connection.authRequested) return;
+        connection.authRequested = true;
+
+        const rejectAuth = (reason: string) =>
+          serverLog(
+            "warn", // level
+            { wsId }, // data
+            `WS Connection closed: ${reason}`, // message
+          ).pipe(
+            Effect.andThen(
+              Effect.sync(() => {
+                sendSocketMessage(ws, {
+                  type: "error",
+                  error: "authentication_failed",
+                });
+                ws.close(
+                  SOCKET_AUTH_FAILED_CLOSE_CODE,
+                  "Authentication failed",
+                );
+              }),
+            ),
+          );
+
+        runServerUnscoped(
+          Effect.gen(function* () {
+            const { user } = yield* validateSessionEffect(
+              message.sessionId,
+            ).pipe(
+              Effect.catchAll((e) =>
+                serverLog(
                   "warn", // level
-                  { sessionId, error: e }, // data
+                  { wsId, error: e }, // data
                   `WS Auth failed: ${e._tag}`, // message
-                ).pipe(Effect.andThen(Effect.fail(e)));
-              }),
+                ).pipe(Effect.as({ user: null })),
+              ),
             );
-            if (!user) {
-              yield* serverLog(
-                "warn", // level
-                { wsId: String(ws.id) }, // data
-                "WS Connection closed: Invalid session.", // message
-              );
-              ws.send(JSON.stringify({ error: "authentication_failed" }));
-              return ws.close();
-            }
+            if (!user) return yield* rejectAuth("Invalid session.");
+            // The socket may have closed while the session was checked.
+            if (wsConnections.get(wsId) !== connection) return;
 
             yield* serverLog(
               "info", // level
-              { userId: user.id, wsId: String(ws.id) }, // data
-              "WebSocket opened and authenticated. Subscribing to poke service.", // message
+              { userId: user.id, wsId }, // data
+              "WebSocket authenticated. Subscribing to poke service.", // message
               "WS:Lifecycle",
             );
-            const streamProcessingEffect = pokeService
-              .subscribe(user.id)
-              .pipe(
-                Stream.runForEach((msg) =>
-                  serverLog(
-                    "info",
-                    { msg, wsId: String(ws.id) },
-                    "Sending poke message to client.",
-                    user.id,
-                  ).pipe(Effect.andThen(Effect.sync(() => ws.send(msg)))),
+            // The client group that made a change already has it locally, so
+            // its own pokes are not echoed back. Document keys are not
+            // Replicache keys: they make open documents resync instead.
+            const { clientGroupID } = message;
+            const streamProcessingEffect = pokeService.subscribe(user.id).pipe(
+              Stream.runForEach((msg) => {
+                const changedDocuments =
+                  msg.keys === null
+                    ? [...connection.documents]
+                    : msg.keys
+                        .map(parseNoteDocumentKey)
+                        .filter(
+                          (noteId): noteId is string =>
+                            noteId !== null && connection.documents.has(noteId),
+                        );
+                for (const noteId of changedDocuments) {
+                  sendSocketMessage(ws, { type: "doc-changed", noteId });
+                }
+                const needsPull =
+                  msg.clientGroupID !== clientGroupID &&
+                  (msg.keys === null ||
+                    msg.keys.some((key) => parseNoteDocumentKey(key) === null));
+                if (!needsPull) return Effect.void;
+                return serverLog(
+                  "info",
+                  { msg, wsId },
+                  "Sending poke message to client.",
+                  user.id,
+                ).pipe(
+                  Effect.andThen(Effect.sync(() => sendSocketMessage(ws, msg))),
+                );
+              }),
+            );
+
+            // Other sessions of the same user, so each device can show who
+            // else is on the note it has open.
+            const presenceEffect = presenceService.subscribe(user.id).pipe(
+              Stream.runForEach((sessions) =>
+                Effect.sync(() =>
+                  sendSocketMessage(ws, {
+                    type: "presence",
+                    sessions: sessions.filter((s) => s.connectionId !== wsId),
+                  }),
                 ),
-              );
+              ),
+            );
 
-            const fiber = runServerUnscoped(streamProcessingEffect);
-            wsConnections.set(String(ws.id), fiber);
+            connection.user = user;
+            connection.fibers.push(
+              runServerUnscoped(streamProcessingEffect),
+              runServerUnscoped(presenceEffect),
+            );
+            sendSocketMessage(ws, { type: "ready" });
           }),
         );
       },
@@ -142,10 +373,15 @@ export const makeApp = Effect.gen(function* () {
             "WS:Lifecycle",
           ),
         );
-        const fiber = wsConnections.get(String(ws.id));
-        if (fiber) {
-          Effect.runFork(Fiber.interrupt(fiber));
+        const connection = wsConnections.get(String(ws.id));
+        if (connection) {
           wsConnections.delete(String(ws.id));
+          Effect.runFork(Fiber.interruptAll(connection.fibers));
+          if (connection.user) {
+            runServerUnscoped(
+              presenceService.leave(connection.user.id, String(ws.id)),
+            );
+          }
         }
       },
     });
@@ -0,0 +1,50 @@
+// File: ./features/auth/procedures/setTimeZone.ts
+import { Effect } from "effect";
+import { loggedInProcedure } from "../../../trpc/trpc";
+import { sSetTimeZoneInput } from "../schemas";
+import { Db } from "../../../db/DbTag";
+import { serverLog } from "../../../lib/server/logger.server";
+import { AuthDatabaseError } from "../Errors";
+import { handleTrpcProcedure } from "../../../lib/server/runtime";
+import { isTimeZone } from "../../../lib/shared/tasks";
+
+/**
+ * Records the time zone the user's browser is in, for whatever the server
+ * works out on their behalf (see `toDateStringIn`). A zone the server does
+ * not know, or none at all, leaves the stored one as it is.
+ */
+export const setTimeZoneProcedure = loggedInProcedure
+  .input(sSetTimeZoneInput)
+  .mutation(({ input, ctx }) => {
+    const userId = ctx.user.id;
+    const { timeZone } = input;
+
+    const program = Effect.gen(function* () {
+      if (
+        timeZone === undefined ||
+        timeZone === ctx.user.timezone ||
+        !isTimeZone(timeZone)
+      ) {
+        return { timeZone: ctx.user.timezone };
+      }
+      const db = yield* Db;
+      yield* Effect.tryPromise({
+        try: () =>
+          db
+            .updateTable("user")
+            .set({ timezone: timeZone })
+            .where("id", "=", userId)
+            .execute(),
+        catch: (cause) => new AuthDatabaseError({ cause }),
+      });
+      yield* serverLog(
+        "info",
+        { userId, timeZone },
+        "Time zone recorded",
+        "auth:setTimeZone",
+      );
+      return { timeZone };
+    });
+
+    return handleTrpcProcedure(program);
+  });
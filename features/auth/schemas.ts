@@ -38,6 +38,12 @@ export const ChangePasswordInput = Schema.Struct({
   newPassword: Schema.String.pipe(Schema.minLength(8)),
 });
 
+export const SetTimeZoneInput = Schema.Struct({
+  // An IANA name, like `Europe/Paris`; one the server does not know is
+  // ignored rather than refused.
+  timeZone: Schema.optional(Schema.String),
+});
+
 // Helper to use schemas with tRPC input validation
 export const sSignupInput = s(SignupInput);
 export const sLoginInput = s(LoginInput);
@@ -45,3 +51,4 @@ export const sRequestPasswordResetInput = s(RequestPasswordResetInput);
 export const sResetPasswordInput = s(ResetPasswordInput);
 export const sVerifyEmailInput = s(VerifyEmailInput);
 export const sChangePasswordInput = s(ChangePasswordInput);
+export const sSetTimeZoneInput = s(SetTimeZoneInput);
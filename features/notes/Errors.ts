@@ -25,3 +25,45 @@ export class NoteValidationError extends Data.TaggedError(
 )<{
   cause: unknown;
 }> {}
+
+/**
+ * Error for when a requested block is not found for the given user.
+ */
+export class BlockNotFoundError extends Data.TaggedError("BlockNotFoundError")<{
+  blockId: string;
+  userId: string;
+}> {}
+
+/**
+ * Error for when a block update was derived from a version that is no longer
+ * the latest one stored on the server.
+ */
+export class BlockVersionConflictError extends Data.TaggedError(
+  "BlockVersionConflictError",
+)<{
+  blockId: string;
+  expectedVersion: number;
+  actualVersion: number;
+}> {}
+
+/**
+ * Error for when a note edit was made against a version that is no longer
+ * the stored one, and the text of that version is not known to merge it.
+ */
+export class NoteVersionConflictError extends Data.TaggedError(
+  "NoteVersionConflictError",
+)<{
+  noteId: string;
+  baseVersion: number;
+  actualVersion: number;
+}> {}
+
+/**
+ * Error for when a requested revision does not exist for the given note.
+ */
+export class NoteRevisionNotFoundError extends Data.TaggedError(
+  "NoteRevisionNotFoundError",
+)<{
+  noteId: string;
+  revisionId: string;
+}> {}
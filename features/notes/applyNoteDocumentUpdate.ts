@@ -0,0 +1,85 @@
+// FILE: features/notes/applyNoteDocumentUpdate.ts
+import { Effect, pipe } from "effect";
+import * as Y from "yjs";
+import { Db } from "../../db/DbTag";
+import { runInTransaction } from "../../db/transaction";
+import { validateNoteId, validateUserId } from "../../lib/shared/domain";
+import { PokeService } from "../../lib/server/PokeService";
+import {
+  appendNoteDocumentUpdate,
+  lockNoteDocument,
+} from "../../lib/server/noteDocuments";
+import { noteDocumentKey } from "../../lib/shared/noteDocument";
+import {
+  NoteDatabaseError,
+  NoteNotFoundError,
+  NoteValidationError,
+} from "./Errors";
+import { withApplyNoteDocumentUpdateLogging } from "./wrappers";
+
+/**
+ * Stores one edit to a note's document and pokes the user's other sockets
+ * so those with the document open resync it. `note.content` catches up when
+ * the flatten job next runs.
+ */
+const applyNoteDocumentUpdateEffect = (
+  noteId: string,
+  userId: string,
+  update: Uint8Array,
+): Effect.Effect<
+  void,
+  NoteDatabaseError | NoteNotFoundError | NoteValidationError,
+  Db | PokeService
+> =>
+  Effect.gen(function* () {
+    const validatedNoteId = yield* validateNoteId(noteId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const validatedUserId = yield* validateUserId(userId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    // A malformed update would break the document for every client that
+    // loads it, so it is rejected before it is stored.
+    yield* Effect.try({
+      try: () => Y.decodeUpdate(update),
+      catch: (cause) => new NoteValidationError({ cause }),
+    });
+
+    const db = yield* Db;
+    const pokeService = yield* PokeService;
+
+    yield* Effect.tryPromise({
+      try: () =>
+        runInTransaction(db, async (trx) => {
+          const note = await trx
+            .selectFrom("note")
+            .select(["id", "user_id", "content", "version"])
+            .where("id", "=", validatedNoteId)
+            .where("user_id", "=", validatedUserId)
+            .executeTakeFirst();
+          if (!note) {
+            throw new NoteNotFoundError({ noteId, userId });
+          }
+          await lockNoteDocument(trx, note);
+          await appendNoteDocumentUpdate(trx, note.id, update);
+        }),
+      catch: (cause) =>
+        cause instanceof NoteNotFoundError
+          ? cause
+          : new NoteDatabaseError({ cause }),
+    });
+
+    yield* pokeService.poke(validatedUserId, {
+      keys: [noteDocumentKey(validatedNoteId)],
+    });
+  });
+
+export const applyNoteDocumentUpdate = (
+  noteId: string,
+  userId: string,
+  update: Uint8Array,
+) =>
+  pipe(
+    applyNoteDocumentUpdateEffect(noteId, userId, update),
+    withApplyNoteDocumentUpdateLogging(noteId, userId),
+  );
@@ -2,6 +2,7 @@
 
 import { Effect, pipe } from "effect";
 import { Db } from "../../db/DbTag";
+import { runInTransaction } from "../../db/transaction";
 import type { NewNote, Note } from "../../types/generated/public/Note";
 import { serverLog } from "../../lib/server/logger.server";
 import { validateUserId } from "../../lib/shared/domain";
@@ -9,6 +10,8 @@ import { NoteDatabaseError, NoteValidationError } from "./Errors";
 import { Schema } from "@effect/schema";
 import { NoteSchema } from "../../lib/shared/schemas";
 import { PokeService } from "../../lib/server/PokeService";
+import { recordNoteRevision } from "../../lib/server/noteRevisions";
+import { syncNoteTags } from "../../lib/server/noteTags";
 import { withCreateNoteLogging } from "./wrappers";
 import { Crypto } from "../../lib/server/crypto";
 import { parseMarkdownToBlocks } from "../../lib/server/parser";
@@ -40,7 +43,7 @@ const createNoteEffect = (
 
     const dbRecord = yield* Effect.tryPromise({
       try: () =>
-        db.transaction().execute(async (trx) => {
+        runInTransaction(db, async (trx) => {
           const maybeInserted = await trx
             .insertInto("note")
             .values({ ...note, version: 1 })
@@ -78,6 +81,8 @@ const createNoteEffect = (
           if (childBlocks.length > 0) {
             await trx.insertInto("block").values(childBlocks).execute();
           }
+          await syncNoteTags(trx, record);
+          if (maybeInserted) await recordNoteRevision(trx, record);
 
           return record;
         }),
@@ -87,7 +92,7 @@ const createNoteEffect = (
       Effect.mapError((cause) => new NoteValidationError({ cause })),
     );
     yield* pokeService
-      .poke(createdNote.user_id)
+      .poke(createdNote.user_id, { keys: [`note/${createdNote.id}`] })
       .pipe(Effect.mapError((cause) => new NoteDatabaseError({ cause })));
     return createdNote;
   });
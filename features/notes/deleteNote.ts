@@ -0,0 +1,102 @@
+// FILE: features/notes/deleteNote.ts
+
+import { Effect, pipe } from "effect";
+import { Db } from "../../db/DbTag";
+import { runInTransaction } from "../../db/transaction";
+import type { Note } from "../../types/generated/public/Note";
+import { serverLog } from "../../lib/server/logger.server";
+import { validateNoteId, validateUserId } from "../../lib/shared/domain";
+import {
+  NoteDatabaseError,
+  NoteNotFoundError,
+  NoteValidationError,
+} from "./Errors";
+import { Schema } from "@effect/schema";
+import { NoteSchema } from "../../lib/shared/schemas";
+import { PokeService } from "../../lib/server/PokeService";
+import { withDeleteNoteLogging } from "./wrappers";
+
+/**
+ * Moves a note and all of its blocks to the trash by stamping `deleted_at`.
+ * Versions are bumped so that the next pull picks up the change.
+ */
+const deleteNoteEffect = (
+  noteId: string,
+  userId: string,
+): Effect.Effect<
+  Note,
+  NoteDatabaseError | NoteNotFoundError | NoteValidationError,
+  Db | PokeService
+> =>
+  Effect.gen(function* () {
+    const validatedNoteId = yield* validateNoteId(noteId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const validatedUserId = yield* validateUserId(userId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+
+    const db = yield* Db;
+    const pokeService = yield* PokeService;
+
+    yield* Effect.forkDaemon(
+      serverLog(
+        "info",
+        { noteId: validatedNoteId, userId: validatedUserId },
+        "[DeleteNote] Moving note to trash",
+        "DeleteNote:Attempt",
+      ),
+    );
+
+    const result = yield* Effect.tryPromise({
+      try: () =>
+        runInTransaction(db, async (trx) => {
+          const now = new Date();
+          const deletedNote = await trx
+            .updateTable("note")
+            .set((eb) => ({
+              deleted_at: now,
+              updated_at: now,
+              version: eb("version", "+", 1),
+            }))
+            .where("id", "=", validatedNoteId)
+            .where("user_id", "=", validatedUserId)
+            .returningAll()
+            .executeTakeFirst();
+          if (!deletedNote) {
+            throw new NoteNotFoundError({
+              noteId: validatedNoteId,
+              userId: validatedUserId,
+            });
+          }
+
+          await trx
+            .updateTable("block")
+            .set((eb) => ({
+              deleted_at: now,
+              version: eb("version", "+", 1),
+            }))
+            .where("note_id", "=", validatedNoteId)
+            .where("deleted_at", "is", null)
+            .execute();
+
+          return deletedNote;
+        }),
+      catch: (cause) => {
+        if (cause instanceof NoteNotFoundError) {
+          return cause;
+        }
+        return new NoteDatabaseError({ cause });
+      },
+    });
+    const deletedNote = yield* Schema.decodeUnknown(NoteSchema)(result).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    yield* pokeService
+      .poke(deletedNote.user_id, { keys: [`note/${deletedNote.id}`] })
+      .pipe(Effect.mapError((cause) => new NoteDatabaseError({ cause })));
+    return deletedNote;
+  });
+
+export const deleteNote = (noteId: string, userId: string) =>
+  pipe(deleteNoteEffect(noteId, userId), withDeleteNoteLogging(noteId, userId));
@@ -0,0 +1,113 @@
+// FILE: features/notes/diffNoteRevisions.ts
+import { Effect, pipe } from "effect";
+import { Db } from "../../db/DbTag";
+import { validateNoteId, validateUserId } from "../../lib/shared/domain";
+import { diffLines, type DiffLine } from "../../lib/shared/lineDiff";
+import {
+  NoteDatabaseError,
+  NoteNotFoundError,
+  NoteRevisionNotFoundError,
+  NoteValidationError,
+} from "./Errors";
+import type { NoteRevisionId } from "../../types/generated/public/NoteRevision";
+import type { NoteRevisionSummary } from "./listNoteRevisions";
+import { withDiffNoteRevisionLogging } from "./wrappers";
+
+export interface NoteRevisionDetail extends NoteRevisionSummary {
+  readonly content: string;
+}
+
+export interface NoteRevisionDiff {
+  readonly from: NoteRevisionDetail;
+  /** The revision compared against, or null for the note as it is now. */
+  readonly to: NoteRevisionDetail | null;
+  readonly titleChanged: boolean;
+  /** Content lines turning `from` into `to`. */
+  readonly lines: readonly DiffLine[];
+}
+
+const diffNoteRevisionsEffect = (
+  noteId: string,
+  userId: string,
+  fromId: string,
+  toId: string | undefined,
+): Effect.Effect<
+  NoteRevisionDiff,
+  | NoteDatabaseError
+  | NoteNotFoundError
+  | NoteRevisionNotFoundError
+  | NoteValidationError,
+  Db
+> =>
+  Effect.gen(function* () {
+    const validatedNoteId = yield* validateNoteId(noteId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const validatedUserId = yield* validateUserId(userId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const db = yield* Db;
+
+    const note = yield* Effect.tryPromise({
+      try: () =>
+        db
+          .selectFrom("note")
+          .select(["title", "content"])
+          .where("id", "=", validatedNoteId)
+          .where("user_id", "=", validatedUserId)
+          .executeTakeFirst(),
+      catch: (cause) => new NoteDatabaseError({ cause }),
+    });
+    if (!note) {
+      return yield* Effect.fail(new NoteNotFoundError({ noteId, userId }));
+    }
+
+    const loadRevision = (revisionId: string) =>
+      Effect.gen(function* () {
+        const row = yield* Effect.tryPromise({
+          try: () =>
+            db
+              .selectFrom("note_revision")
+              .selectAll()
+              .where("id", "=", revisionId as NoteRevisionId)
+              .where("note_id", "=", validatedNoteId)
+              .executeTakeFirst(),
+          catch: (cause) => new NoteDatabaseError({ cause }),
+        });
+        if (!row) {
+          return yield* Effect.fail(
+            new NoteRevisionNotFoundError({ noteId, revisionId }),
+          );
+        }
+        return {
+          id: row.id,
+          title: row.title,
+          content: row.content,
+          noteVersion: row.note_version,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+        } satisfies NoteRevisionDetail;
+      });
+
+    const from = yield* loadRevision(fromId);
+    const to = toId === undefined ? null : yield* loadRevision(toId);
+    const target = to ?? note;
+
+    return {
+      from,
+      to,
+      titleChanged: from.title !== target.title,
+      lines: diffLines(from.content, target.content),
+    };
+  });
+
+export const diffNoteRevisions = (
+  noteId: string,
+  userId: string,
+  fromId: string,
+  toId?: string,
+) =>
+  pipe(
+    diffNoteRevisionsEffect(noteId, userId, fromId, toId),
+    withDiffNoteRevisionLogging(noteId, userId, fromId),
+  );
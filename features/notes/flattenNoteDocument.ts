@@ -0,0 +1,173 @@
+// FILE: features/notes/flattenNoteDocument.ts
+import { Effect, pipe } from "effect";
+import * as Y from "yjs";
+import { Db } from "../../db/DbTag";
+import { runInTransaction } from "../../db/transaction";
+import { validateNoteId } from "../../lib/shared/domain";
+import type { Crypto } from "../../lib/server/crypto";
+import { PokeService } from "../../lib/server/PokeService";
+import {
+  NOTE_DOCUMENT_COMPACT_THRESHOLD,
+  appendNoteDocumentUpdate,
+  loadNoteDocument,
+} from "../../lib/server/noteDocuments";
+import { mergeText } from "../../lib/shared/merge";
+import {
+  noteDocumentKey,
+  noteDocumentToMarkdown,
+  setNoteDocumentMarkdown,
+} from "../../lib/shared/noteDocument";
+import {
+  NoteDatabaseError,
+  type NoteNotFoundError,
+  NoteValidationError,
+  type NoteVersionConflictError,
+} from "./Errors";
+import { updateNote } from "./updateNote";
+import { withFlattenNoteDocumentLogging } from "./wrappers";
+
+export interface NoteDocumentFlattenResult {
+  /** Whether `note.content` was rewritten from the document. */
+  readonly noteUpdated: boolean;
+  /** Whether edits made outside the document were folded into it. */
+  readonly documentUpdated: boolean;
+}
+
+/**
+ * Writes a note's document back to `note.content`, so blocks, pull and every
+ * other reader of the markdown keep working.
+ *
+ * Writes that bypass the document (older clients, restoring a revision,
+ * block edits) bump `note.version` past `flattened_version`; those are
+ * three-way merged with the document's edits, against the text last
+ * flattened, and the result is written to both sides. Once enough updates
+ * have piled up they are compacted into the document's stored state.
+ */
+const flattenNoteDocumentEffect = (
+  noteId: string,
+): Effect.Effect<
+  NoteDocumentFlattenResult,
+  | NoteDatabaseError
+  | NoteNotFoundError
+  | NoteValidationError
+  | NoteVersionConflictError,
+  Db | Crypto | PokeService
+> =>
+  Effect.gen(function* () {
+    const validatedNoteId = yield* validateNoteId(noteId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const db = yield* Db;
+    const pokeService = yield* PokeService;
+
+    const plan = yield* Effect.tryPromise({
+      try: () =>
+        runInTransaction(db, async (trx) => {
+          const note = await trx
+            .selectFrom("note")
+            .select(["id", "user_id", "title", "content", "version"])
+            .where("id", "=", validatedNoteId)
+            .executeTakeFirst();
+          const row = await trx
+            .selectFrom("note_document")
+            .selectAll()
+            .where("note_id", "=", validatedNoteId)
+            .forUpdate()
+            .executeTakeFirst();
+          if (!note || !row) return null;
+
+          const loaded = await loadNoteDocument(trx, row);
+          const documentText = noteDocumentToMarkdown(loaded.doc);
+          const target =
+            note.version === row.flattened_version
+              ? documentText
+              : mergeText(row.flattened_content, documentText, note.content)
+                  .text;
+
+          let change: Uint8Array | null = null;
+          if (target !== documentText) {
+            const before = Y.encodeStateVector(loaded.doc);
+            setNoteDocumentMarkdown(loaded.doc, target);
+            change = Y.encodeStateAsUpdate(loaded.doc, before);
+          }
+
+          let flattenedThrough = loaded.lastUpdateId ?? row.flattened_through;
+          if (
+            loaded.lastUpdateId !== null &&
+            loaded.updateCount > NOTE_DOCUMENT_COMPACT_THRESHOLD
+          ) {
+            await trx
+              .updateTable("note_document")
+              .set({ state: Buffer.from(Y.encodeStateAsUpdate(loaded.doc)) })
+              .where("note_id", "=", note.id)
+              .execute();
+            await trx
+              .deleteFrom("note_document_update")
+              .where("note_id", "=", note.id)
+              .where("id", "<=", loaded.lastUpdateId)
+              .execute();
+          } else if (change) {
+            ({ id: flattenedThrough } = await appendNoteDocumentUpdate(
+              trx,
+              note.id,
+              change,
+            ));
+          }
+
+          await trx
+            .updateTable("note_document")
+            .set({
+              flattened_through: flattenedThrough,
+              flattened_version: note.version,
+              flattened_content: target,
+              updated_at: new Date(),
+            })
+            .where("note_id", "=", note.id)
+            .execute();
+
+          return { note, target, documentUpdated: change !== null };
+        }),
+      catch: (cause) => new NoteDatabaseError({ cause }),
+    });
+    if (!plan) return { noteUpdated: false, documentUpdated: false };
+
+    const { note, target, documentUpdated } = plan;
+    if (documentUpdated) {
+      yield* pokeService.poke(note.user_id, {
+        keys: [noteDocumentKey(note.id)],
+      });
+    }
+    if (target === note.content) {
+      return { noteUpdated: false, documentUpdated };
+    }
+
+    // Anything written to the note after the plan was made is merged by
+    // `updateNote` against `baseVersion`.
+    const updated = yield* updateNote(note.id, note.user_id, {
+      title: note.title,
+      content: target,
+      baseVersion: note.version,
+      base: { title: note.title, content: note.content },
+    });
+    // Our own write is not an outside edit. A merged one is, and is left
+    // for the next run to fold into the document.
+    if (updated.content === target) {
+      yield* Effect.tryPromise({
+        try: () =>
+          db
+            .updateTable("note_document")
+            .set({ flattened_version: updated.version })
+            .where("note_id", "=", note.id)
+            .where("flattened_version", "=", note.version)
+            .execute(),
+        catch: (cause) => new NoteDatabaseError({ cause }),
+      });
+    }
+    return { noteUpdated: true, documentUpdated };
+  });
+
+export const flattenNoteDocument = (noteId: string) =>
+  pipe(
+    flattenNoteDocumentEffect(noteId),
+    withFlattenNoteDocumentLogging(noteId),
+  );
@@ -34,6 +34,7 @@ const getNotesEffect = (
           .selectFrom("note")
           .selectAll()
           .where("user_id", "=", validatedUserId)
+          .where("deleted_at", "is", null)
           .orderBy("updated_at", "desc")
           .execute(), // ← returns readonly Note[]
       catch: (cause) => new NoteDatabaseError({ cause }),
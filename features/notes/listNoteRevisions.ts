@@ -0,0 +1,83 @@
+// FILE: features/notes/listNoteRevisions.ts
+import { Effect, pipe } from "effect";
+import { Db } from "../../db/DbTag";
+import { validateNoteId, validateUserId } from "../../lib/shared/domain";
+import {
+  NoteDatabaseError,
+  NoteNotFoundError,
+  NoteValidationError,
+} from "./Errors";
+import type { NoteRevisionId } from "../../types/generated/public/NoteRevision";
+import { withListNoteRevisionsLogging } from "./wrappers";
+
+/** One entry of a note's history, without its content. */
+export interface NoteRevisionSummary {
+  readonly id: NoteRevisionId;
+  readonly title: string;
+  readonly noteVersion: number;
+  /** When the first save of this revision happened. */
+  readonly createdAt: Date;
+  /** When the last save folded into this revision happened. */
+  readonly updatedAt: Date;
+}
+
+/** At most this many revisions are listed, newest first. */
+const REVISION_LIST_LIMIT = 100;
+
+const listNoteRevisionsEffect = (
+  noteId: string,
+  userId: string,
+): Effect.Effect<
+  readonly NoteRevisionSummary[],
+  NoteDatabaseError | NoteNotFoundError | NoteValidationError,
+  Db
+> =>
+  Effect.gen(function* () {
+    const validatedNoteId = yield* validateNoteId(noteId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const validatedUserId = yield* validateUserId(userId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const db = yield* Db;
+
+    const note = yield* Effect.tryPromise({
+      try: () =>
+        db
+          .selectFrom("note")
+          .select("id")
+          .where("id", "=", validatedNoteId)
+          .where("user_id", "=", validatedUserId)
+          .executeTakeFirst(),
+      catch: (cause) => new NoteDatabaseError({ cause }),
+    });
+    if (!note) {
+      return yield* Effect.fail(new NoteNotFoundError({ noteId, userId }));
+    }
+
+    const rows = yield* Effect.tryPromise({
+      try: () =>
+        db
+          .selectFrom("note_revision")
+          .select(["id", "title", "note_version", "created_at", "updated_at"])
+          .where("note_id", "=", validatedNoteId)
+          .orderBy("created_at", "desc")
+          .orderBy("id", "desc")
+          .limit(REVISION_LIST_LIMIT)
+          .execute(),
+      catch: (cause) => new NoteDatabaseError({ cause }),
+    });
+    return rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      noteVersion: row.note_version,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+  });
+
+export const listNoteRevisions = (noteId: string, userId: string) =>
+  pipe(
+    listNoteRevisionsEffect(noteId, userId),
+    withListNoteRevisionsLogging(noteId, userId),
+  );
@@ -0,0 +1,73 @@
+// FILE: features/notes/purgeNote.ts
+
+import { Effect, pipe } from "effect";
+import { Db } from "../../db/DbTag";
+import { serverLog } from "../../lib/server/logger.server";
+import { validateNoteId, validateUserId } from "../../lib/shared/domain";
+import {
+  NoteDatabaseError,
+  NoteNotFoundError,
+  NoteValidationError,
+} from "./Errors";
+import { PokeService } from "../../lib/server/PokeService";
+import { withPurgeNoteLogging } from "./wrappers";
+
+/**
+ * Permanently deletes a note that is already in the trash.
+ * Its blocks are removed by the `block.note_id` cascade.
+ */
+const purgeNoteEffect = (
+  noteId: string,
+  userId: string,
+): Effect.Effect<
+  void,
+  NoteDatabaseError | NoteNotFoundError | NoteValidationError,
+  Db | PokeService
+> =>
+  Effect.gen(function* () {
+    const validatedNoteId = yield* validateNoteId(noteId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const validatedUserId = yield* validateUserId(userId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+
+    const db = yield* Db;
+    const pokeService = yield* PokeService;
+
+    yield* Effect.forkDaemon(
+      serverLog(
+        "info",
+        { noteId: validatedNoteId, userId: validatedUserId },
+        "[PurgeNote] Permanently deleting note",
+        "PurgeNote:Attempt",
+      ),
+    );
+
+    const purged = yield* Effect.tryPromise({
+      try: () =>
+        db
+          .deleteFrom("note")
+          .where("id", "=", validatedNoteId)
+          .where("user_id", "=", validatedUserId)
+          .where("deleted_at", "is not", null)
+          .returning("id")
+          .executeTakeFirst(),
+      catch: (cause) => new NoteDatabaseError({ cause }),
+    });
+    if (!purged) {
+      return yield* Effect.fail(
+        new NoteNotFoundError({
+          noteId: validatedNoteId,
+          userId: validatedUserId,
+        }),
+      );
+    }
+
+    yield* pokeService
+      .poke(validatedUserId, { keys: [`note/${validatedNoteId}`] })
+      .pipe(Effect.mapError((cause) => new NoteDatabaseError({ cause })));
+  });
+
+export const purgeNote = (noteId: string, userId: string) =>
+  pipe(purgeNoteEffect(noteId, userId), withPurgeNoteLogging(noteId, userId));
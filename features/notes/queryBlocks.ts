@@ -0,0 +1,94 @@
+// FILE: features/notes/queryBlocks.ts
+import { Effect, pipe } from "effect";
+import { Schema } from "@effect/schema";
+import { Db } from "../../db/DbTag";
+import { validateUserId } from "../../lib/shared/domain";
+import { BlockSchema } from "../../lib/shared/schemas";
+import {
+  blockFieldValue,
+  parseQuery,
+  type QueryRow,
+} from "../../lib/shared/query";
+import {
+  queryPage,
+  selectQueryBlocks,
+  selectQueryPage,
+} from "../../lib/server/blockQuery";
+import type { Block } from "../../types/generated/public/Block";
+import { NoteDatabaseError, NoteValidationError } from "./Errors";
+import { withQueryBlocksLogging } from "./wrappers";
+
+/** One page of a query's rows, and how many rows there are in all. */
+export interface BlockQueryPage {
+  readonly rows: readonly QueryRow<Block>[];
+  readonly total: number;
+}
+
+/**
+ * Runs a block query (see lib/shared/query.ts) over all of the user's
+ * blocks outside the trash, the way a note's ```query fence runs over the
+ * blocks synced to the client, and returns one page of the result. The
+ * database filters, sorts and pages them (see lib/server/blockQuery.ts).
+ */
+const queryBlocksEffect = (
+  userId: string,
+  source: string,
+  offset: number,
+  limit: number,
+): Effect.Effect<BlockQueryPage, NoteDatabaseError | NoteValidationError, Db> =>
+  Effect.gen(function* () {
+    const validatedUserId = yield* validateUserId(userId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const query = yield* Effect.mapError(
+      parseQuery(source),
+      (cause) => new NoteValidationError({ cause }),
+    );
+    const db = yield* Db;
+
+    const { total, rows } = yield* Effect.tryPromise({
+      try: async () => {
+        const { count } = await selectQueryBlocks(db, validatedUserId, query)
+          .select((eb) => eb.fn.countAll<string>().as("count"))
+          .executeTakeFirstOrThrow();
+        const { total, pageSize } = queryPage(
+          query,
+          Number(count),
+          offset,
+          limit,
+        );
+        if (pageSize === 0) return { total, rows: [] };
+        const rows = await selectQueryPage(
+          db,
+          validatedUserId,
+          query,
+          offset,
+          pageSize,
+        ).execute();
+        return { total, rows };
+      },
+      catch: (cause) => new NoteDatabaseError({ cause }),
+    });
+    const blocks = yield* Schema.decodeUnknown(Schema.Array(BlockSchema))(
+      rows,
+    ).pipe(Effect.mapError((cause) => new NoteValidationError({ cause })));
+
+    return {
+      rows: blocks.map((block) => ({
+        block,
+        values: query.columns.map((column) => blockFieldValue(block, column)),
+      })),
+      total,
+    };
+  });
+
+export const queryBlocks = (
+  userId: string,
+  source: string,
+  offset: number,
+  limit: number,
+) =>
+  pipe(
+    queryBlocksEffect(userId, source, offset, limit),
+    withQueryBlocksLogging(userId, source),
+  );
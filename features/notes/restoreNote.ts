@@ -0,0 +1,103 @@
+// FILE: features/notes/restoreNote.ts
+
+import { Effect, pipe } from "effect";
+import { Db } from "../../db/DbTag";
+import { runInTransaction } from "../../db/transaction";
+import type { Note } from "../../types/generated/public/Note";
+import { serverLog } from "../../lib/server/logger.server";
+import { validateNoteId, validateUserId } from "../../lib/shared/domain";
+import {
+  NoteDatabaseError,
+  NoteNotFoundError,
+  NoteValidationError,
+} from "./Errors";
+import { Schema } from "@effect/schema";
+import { NoteSchema } from "../../lib/shared/schemas";
+import { PokeService } from "../../lib/server/PokeService";
+import { withRestoreNoteLogging } from "./wrappers";
+
+/**
+ * Takes a note and its blocks back out of the trash.
+ */
+const restoreNoteEffect = (
+  noteId: string,
+  userId: string,
+): Effect.Effect<
+  Note,
+  NoteDatabaseError | NoteNotFoundError | NoteValidationError,
+  Db | PokeService
+> =>
+  Effect.gen(function* () {
+    const validatedNoteId = yield* validateNoteId(noteId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const validatedUserId = yield* validateUserId(userId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+
+    const db = yield* Db;
+    const pokeService = yield* PokeService;
+
+    yield* Effect.forkDaemon(
+      serverLog(
+        "info",
+        { noteId: validatedNoteId, userId: validatedUserId },
+        "[RestoreNote] Restoring note from trash",
+        "RestoreNote:Attempt",
+      ),
+    );
+
+    const result = yield* Effect.tryPromise({
+      try: () =>
+        runInTransaction(db, async (trx) => {
+          const restoredNote = await trx
+            .updateTable("note")
+            .set((eb) => ({
+              deleted_at: null,
+              updated_at: new Date(),
+              version: eb("version", "+", 1),
+            }))
+            .where("id", "=", validatedNoteId)
+            .where("user_id", "=", validatedUserId)
+            .returningAll()
+            .executeTakeFirst();
+          if (!restoredNote) {
+            throw new NoteNotFoundError({
+              noteId: validatedNoteId,
+              userId: validatedUserId,
+            });
+          }
+
+          await trx
+            .updateTable("block")
+            .set((eb) => ({
+              deleted_at: null,
+              version: eb("version", "+", 1),
+            }))
+            .where("note_id", "=", validatedNoteId)
+            .where("deleted_at", "is not", null)
+            .execute();
+
+          return restoredNote;
+        }),
+      catch: (cause) => {
+        if (cause instanceof NoteNotFoundError) {
+          return cause;
+        }
+        return new NoteDatabaseError({ cause });
+      },
+    });
+    const restoredNote = yield* Schema.decodeUnknown(NoteSchema)(result).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    yield* pokeService
+      .poke(restoredNote.user_id, { keys: [`note/${restoredNote.id}`] })
+      .pipe(Effect.mapError((cause) => new NoteDatabaseError({ cause })));
+    return restoredNote;
+  });
+
+export const restoreNote = (noteId: string, userId: string) =>
+  pipe(
+    restoreNoteEffect(noteId, userId),
+    withRestoreNoteLogging(noteId, userId),
+  );
@@ -0,0 +1,81 @@
+// FILE: features/notes/syncNoteDocument.ts
+import { Effect, pipe } from "effect";
+import * as Y from "yjs";
+import { Db } from "../../db/DbTag";
+import { runInTransaction } from "../../db/transaction";
+import { validateNoteId, validateUserId } from "../../lib/shared/domain";
+import {
+  loadNoteDocument,
+  lockNoteDocument,
+} from "../../lib/server/noteDocuments";
+import {
+  NoteDatabaseError,
+  NoteNotFoundError,
+  NoteValidationError,
+} from "./Errors";
+import { withSyncNoteDocumentLogging } from "./wrappers";
+
+/** The server's side of a document sync handshake. */
+export interface NoteDocumentSync {
+  /** Everything the client's state vector did not cover. */
+  readonly update: Uint8Array;
+  /** The server's state vector, so the client can send what it lacks. */
+  readonly stateVector: Uint8Array;
+}
+
+const syncNoteDocumentEffect = (
+  noteId: string,
+  userId: string,
+  stateVector: Uint8Array,
+): Effect.Effect<
+  NoteDocumentSync,
+  NoteDatabaseError | NoteNotFoundError | NoteValidationError,
+  Db
+> =>
+  Effect.gen(function* () {
+    const validatedNoteId = yield* validateNoteId(noteId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const validatedUserId = yield* validateUserId(userId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    const db = yield* Db;
+
+    const loaded = yield* Effect.tryPromise({
+      try: () =>
+        runInTransaction(db, async (trx) => {
+          const note = await trx
+            .selectFrom("note")
+            .select(["id", "user_id", "content", "version"])
+            .where("id", "=", validatedNoteId)
+            .where("user_id", "=", validatedUserId)
+            .executeTakeFirst();
+          if (!note) {
+            throw new NoteNotFoundError({ noteId, userId });
+          }
+          return loadNoteDocument(trx, await lockNoteDocument(trx, note));
+        }),
+      catch: (cause) =>
+        cause instanceof NoteNotFoundError
+          ? cause
+          : new NoteDatabaseError({ cause }),
+    });
+
+    return yield* Effect.try({
+      try: () => ({
+        update: Y.encodeStateAsUpdate(loaded.doc, stateVector),
+        stateVector: Y.encodeStateVector(loaded.doc),
+      }),
+      catch: (cause) => new NoteValidationError({ cause }),
+    });
+  });
+
+export const syncNoteDocument = (
+  noteId: string,
+  userId: string,
+  stateVector: Uint8Array,
+) =>
+  pipe(
+    syncNoteDocumentEffect(noteId, userId, stateVector),
+    withSyncNoteDocumentLogging(noteId, userId),
+  );
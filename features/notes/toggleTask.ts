@@ -0,0 +1,129 @@
+// FILE: features/notes/toggleTask.ts
+
+import { Effect, pipe } from "effect";
+import { Schema } from "@effect/schema";
+import { Db } from "../../db/DbTag";
+import type { Note } from "../../types/generated/public/Note";
+import { serverLog } from "../../lib/server/logger.server";
+import { validateUserId } from "../../lib/shared/domain";
+import {
+  BlockNotFoundError,
+  NoteDatabaseError,
+  NoteNotFoundError,
+  NoteValidationError,
+  type NoteVersionConflictError,
+} from "./Errors";
+import { BlockIdSchema, NoteSchema } from "../../lib/shared/schemas";
+import { toggleTaskInNote } from "../../lib/shared/tasks";
+import { Crypto } from "../../lib/server/crypto";
+import { PokeService } from "../../lib/server/PokeService";
+import { updateNote } from "./updateNote";
+import { withToggleTaskLogging } from "./wrappers";
+
+/**
+ * Ticks or unticks a task by rewriting its checkbox in the parent note's
+ * markdown. The note then goes through `updateNote` like any other edit, so
+ * its blocks are re-parsed (the task keeps its ID and gets the new `done`),
+ * and an edit that raced this one is merged rather than overwritten.
+ */
+const toggleTaskEffect = (
+  blockId: string,
+  userId: string,
+  done: boolean,
+): Effect.Effect<
+  Note,
+  | NoteDatabaseError
+  | NoteNotFoundError
+  | NoteValidationError
+  | NoteVersionConflictError
+  | BlockNotFoundError,
+  Db | Crypto | PokeService
+> =>
+  Effect.gen(function* () {
+    const validatedBlockId = yield* Schema.decodeUnknown(BlockIdSchema)(
+      blockId,
+    ).pipe(Effect.mapError((cause) => new NoteValidationError({ cause })));
+    const validatedUserId = yield* validateUserId(userId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+
+    const db = yield* Db;
+
+    yield* Effect.forkDaemon(
+      serverLog(
+        "info",
+        { blockId: validatedBlockId, userId: validatedUserId, done },
+        "[ToggleTask] Starting toggle",
+        "ToggleTask:Attempt",
+      ),
+    );
+
+    const block = yield* Effect.tryPromise({
+      try: () =>
+        db
+          .selectFrom("block")
+          .selectAll()
+          .where("id", "=", validatedBlockId)
+          .where("user_id", "=", validatedUserId)
+          .where("deleted_at", "is", null)
+          .executeTakeFirst(),
+      catch: (cause) => new NoteDatabaseError({ cause }),
+    });
+    if (!block) {
+      return yield* Effect.fail(
+        new BlockNotFoundError({
+          blockId: validatedBlockId,
+          userId: validatedUserId,
+        }),
+      );
+    }
+    if (block.type !== "task" || block.note_id === null) {
+      return yield* Effect.fail(
+        new NoteValidationError({
+          cause: `Block ${validatedBlockId} is not a task in a note`,
+        }),
+      );
+    }
+    const noteId = block.note_id;
+
+    const { note, siblings } = yield* Effect.tryPromise({
+      try: async () => ({
+        note: await db
+          .selectFrom("note")
+          .selectAll()
+          .where("id", "=", noteId)
+          .where("user_id", "=", validatedUserId)
+          .executeTakeFirst(),
+        siblings: await db
+          .selectFrom("block")
+          .selectAll()
+          .where("note_id", "=", noteId)
+          .where("deleted_at", "is", null)
+          .execute(),
+      }),
+      catch: (cause) => new NoteDatabaseError({ cause }),
+    });
+    if (!note) {
+      return yield* Effect.fail(
+        new NoteNotFoundError({ noteId, userId: validatedUserId }),
+      );
+    }
+    if (block.done === done) {
+      return yield* Schema.decodeUnknown(NoteSchema)(note).pipe(
+        Effect.mapError((cause) => new NoteValidationError({ cause })),
+      );
+    }
+
+    return yield* updateNote(noteId, validatedUserId, {
+      title: note.title,
+      content: toggleTaskInNote(note.content, siblings, block.id, done),
+      baseVersion: note.version,
+      base: { title: note.title, content: note.content },
+    });
+  });
+
+export const toggleTask = (blockId: string, userId: string, done: boolean) =>
+  pipe(
+    toggleTaskEffect(blockId, userId, done),
+    withToggleTaskLogging(blockId, userId, done),
+  );
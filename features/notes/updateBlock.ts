@@ -0,0 +1,203 @@
+// FILE: features/notes/updateBlock.ts
+
+import { Effect, Either, pipe } from "effect";
+import { Schema } from "@effect/schema";
+import { Db } from "../../db/DbTag";
+import { runInTransaction } from "../../db/transaction";
+import type { Block, BlockId } from "../../types/generated/public/Block";
+import { serverLog } from "../../lib/server/logger.server";
+import { validateUserId } from "../../lib/shared/domain";
+import {
+  BlockNotFoundError,
+  BlockVersionConflictError,
+  NoteDatabaseError,
+  NoteValidationError,
+} from "./Errors";
+import { BlockIdSchema, BlockSchema } from "../../lib/shared/schemas";
+import { updateBlockInNote } from "../../lib/shared/outline";
+import { PokeService } from "../../lib/server/PokeService";
+import { syncNoteTags } from "../../lib/server/noteTags";
+import { recordNoteRevision } from "../../lib/server/noteRevisions";
+import { withUpdateBlockLogging } from "./wrappers";
+
+/**
+ * The fields of a block a client is allowed to change. `version` is not
+ * written; it is the version the edit was derived from and is checked against
+ * the stored one.
+ */
+export interface BlockUpdatePayload {
+  version?: number;
+  type?: string;
+  done?: boolean;
+  content?: string;
+  fields?: Record<string, unknown>;
+  tags?: string[];
+  links?: string[];
+  transclusions?: string[];
+  parent_id?: BlockId | null;
+  depth?: number;
+  order?: number;
+}
+
+const updateBlockEffect = (
+  blockId: string,
+  userId: string,
+  blockUpdate: BlockUpdatePayload,
+): Effect.Effect<
+  Block,
+  | NoteDatabaseError
+  | NoteValidationError
+  | BlockNotFoundError
+  | BlockVersionConflictError,
+  Db | PokeService
+> =>
+  Effect.gen(function* () {
+    const validatedBlockId = yield* Schema.decodeUnknown(BlockIdSchema)(
+      blockId,
+    ).pipe(Effect.mapError((cause) => new NoteValidationError({ cause })));
+    const validatedUserId = yield* validateUserId(userId).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+
+    const db = yield* Db;
+    const pokeService = yield* PokeService;
+
+    yield* Effect.forkDaemon(
+      serverLog(
+        "info",
+        { blockId: validatedBlockId, userId: validatedUserId },
+        "[UpdateBlock] Starting update",
+        "UpdateBlock:Attempt",
+      ),
+    );
+
+    const { version: baseVersion, ...changes } = blockUpdate;
+
+    const result = yield* Effect.tryPromise({
+      try: () =>
+        runInTransaction(db, async (trx) => {
+          const current = await trx
+            .selectFrom("block")
+            .selectAll()
+            .where("id", "=", validatedBlockId)
+            .where("user_id", "=", validatedUserId)
+            .where("deleted_at", "is", null)
+            .forUpdate()
+            .executeTakeFirst();
+          if (!current) {
+            throw new BlockNotFoundError({
+              blockId: validatedBlockId,
+              userId: validatedUserId,
+            });
+          }
+          if (baseVersion !== undefined && baseVersion !== current.version) {
+            throw new BlockVersionConflictError({
+              blockId: validatedBlockId,
+              expectedVersion: baseVersion,
+              actualVersion: current.version,
+            });
+          }
+
+          const now = new Date();
+          const merged = Schema.decodeUnknownEither(BlockSchema)({
+            ...current,
+            ...changes,
+            version: current.version + 1,
+            updated_at: now,
+          });
+          if (Either.isLeft(merged)) {
+            throw new NoteValidationError({ cause: merged.left });
+          }
+          const block = merged.right;
+
+          // The note's markdown is the source the blocks are parsed from, so
+          // the block's lines in it are rewritten to keep the two in step.
+          // Its siblings are read before the write, to tell whether it moved.
+          const siblings = current.note_id
+            ? await trx
+                .selectFrom("block")
+                .selectAll()
+                .where("note_id", "=", current.note_id)
+                .where("deleted_at", "is", null)
+                .execute()
+            : [];
+
+          const updatedBlock = await trx
+            .updateTable("block")
+            .set({
+              type: block.type,
+              done: block.done,
+              content: block.content,
+              fields: block.fields,
+              tags: block.tags,
+              links: block.links,
+              transclusions: block.transclusions,
+              parent_id: block.parent_id,
+              depth: block.depth,
+              order: block.order,
+              version: block.version,
+              updated_at: now,
+            })
+            .where("id", "=", validatedBlockId)
+            .returningAll()
+            .executeTakeFirstOrThrow();
+
+          if (updatedBlock.note_id) {
+            const stored = await trx
+              .selectFrom("note")
+              .select("content")
+              .where("id", "=", updatedBlock.note_id)
+              .where("user_id", "=", validatedUserId)
+              .forUpdate()
+              .executeTakeFirstOrThrow();
+            const note = await trx
+              .updateTable("note")
+              .set((eb) => ({
+                content: updateBlockInNote(stored.content, siblings, block),
+                updated_at: now,
+                version: eb("version", "+", 1),
+              }))
+              .where("id", "=", updatedBlock.note_id)
+              .where("user_id", "=", validatedUserId)
+              .returningAll()
+              .executeTakeFirstOrThrow();
+            await syncNoteTags(trx, note);
+            await recordNoteRevision(trx, note);
+          }
+
+          return updatedBlock;
+        }),
+      catch: (cause) => {
+        if (
+          cause instanceof BlockNotFoundError ||
+          cause instanceof BlockVersionConflictError ||
+          cause instanceof NoteValidationError
+        ) {
+          return cause;
+        }
+        return new NoteDatabaseError({ cause });
+      },
+    });
+    const updatedBlock = yield* Schema.decodeUnknown(BlockSchema)(result).pipe(
+      Effect.mapError((cause) => new NoteValidationError({ cause })),
+    );
+    yield* pokeService
+      .poke(updatedBlock.user_id, {
+        keys: [
+          `block/${updatedBlock.id}`,
+          ...(updatedBlock.note_id ? [`note/${updatedBlock.note_id}`] : []),
+        ],
+      })
+      .pipe(Effect.mapError((cause) => new NoteDatabaseError({ cause })));
+    return updatedBlock;
+  });
+
+export const updateBlock = (
+  blockId: string,
+  userId: string,
+  blockUpdate: BlockUpdatePayload,
+) =>
+  pipe(
+    updateBlockEffect(blockId, userId, blockUpdate),
+    withUpdateBlockLogging(blockId, userId),
+  );
@@ -2,6 +2,7 @@
 
 import { Effect, pipe } from "effect";
 import { Db } from "../../db/DbTag";
+import { runInTransaction } from "../../db/transaction";
 import type { Note } from "../../types/generated/public/Note";
 import { serverLog } from "../../lib/server/logger.server";
 import { validateNoteId, validateUserId } from "../../lib/shared/domain";
@@ -9,16 +10,38 @@ import {
   NoteDatabaseError,
   NoteNotFoundError,
   NoteValidationError,
+  NoteVersionConflictError,
 } from "./Errors";
 import { Schema } from "@effect/schema";
 import { NoteSchema } from "../../lib/shared/schemas";
 import { parseMarkdownToBlocks } from "../../lib/server/parser";
+import { reconcileBlocks } from "../../lib/server/blockReconciler";
 import { Crypto } from "../../lib/server/crypto";
 import { PokeService } from "../../lib/server/PokeService";
+import {
+  findRevisionAtVersion,
+  recordNoteRevision,
+} from "../../lib/server/noteRevisions";
+import { mergeNote } from "../../lib/shared/merge";
+import { syncNoteTags } from "../../lib/server/noteTags";
+import { rescheduleCompletedTasks } from "../../lib/server/recurringTasks";
+import { toDateStringIn } from "../../lib/shared/tasks";
 import { withUpdateNoteLogging } from "./wrappers";
 interface NoteUpdatePayload {
   title: string;
   content: string;
+  /** Set when the update restores an old revision; see `recordNoteRevision`. */
+  restoredFrom?: string;
+  /**
+   * The stored version the edit was made against. When the note has moved
+   * on since, the edit is three-way merged into it instead of replacing it.
+   */
+  baseVersion?: number;
+  /**
+   * The text the edit was made against, when the caller knows it better than
+   * the revision history does (see `handlePush`).
+   */
+  base?: { title: string; content: string };
 }
 
 const updateNoteEffect = (
@@ -27,7 +50,10 @@ const updateNoteEffect = (
   noteUpdate: NoteUpdatePayload,
 ): Effect.Effect<
   Note,
-  NoteDatabaseError | NoteNotFoundError | NoteValidationError,
+  | NoteDatabaseError
+  | NoteNotFoundError
+  | NoteValidationError
+  | NoteVersionConflictError,
   Db | Crypto | PokeService
 > =>
   Effect.gen(function* () {
@@ -53,20 +79,15 @@ const updateNoteEffect = (
 
     const result = yield* Effect.tryPromise({
       try: () =>
-        db.transaction().execute(async (trx) => {
-          const parentNote = await trx
-            .updateTable("note")
-            .set((eb) => ({
-              title: noteUpdate.title,
-              content: noteUpdate.content,
-              updated_at: new Date(),
-              version: eb("version", "+", 1),
-            }))
+        runInTransaction(db, async (trx) => {
+          const stored = await trx
+            .selectFrom("note")
+            .select(["title", "content", "version"])
             .where("id", "=", validatedNoteId)
             .where("user_id", "=", validatedUserId)
-            .returningAll()
+            .forUpdate()
             .executeTakeFirst();
-          if (!parentNote) {
+          if (!stored) {
             // Throw a specific error if the note wasn't found to update
             throw new NoteNotFoundError({
               noteId: validatedNoteId,
@@ -74,31 +95,158 @@ const updateNoteEffect = (
             });
           }
 
-          await trx
-            .deleteFrom("block")
+          let { title, content } = noteUpdate;
+          const { baseVersion } = noteUpdate;
+          const diverged =
+            baseVersion !== undefined && baseVersion !== stored.version;
+          if (diverged) {
+            const base =
+              noteUpdate.base ??
+              (await findRevisionAtVersion(trx, validatedNoteId, baseVersion));
+            const merged = mergeNote(base, { title, content }, stored);
+            // Without the text the edit was made against there is nothing to
+            // merge; the stored note is kept and the edit refused.
+            if (!merged) {
+              throw new NoteVersionConflictError({
+                noteId: validatedNoteId,
+                baseVersion,
+                actualVersion: stored.version,
+              });
+            }
+            ({ title, content } = merged);
+            await Effect.runPromise(
+              serverLog(
+                "info",
+                {
+                  noteId: validatedNoteId,
+                  baseVersion,
+                  storedVersion: stored.version,
+                  conflicts: merged.conflicts,
+                },
+                "[UpdateNote] Merged edit made against an older version",
+                "UpdateNote:Merge",
+              ),
+            );
+          }
+
+          const existingBlocks = await trx
+            .selectFrom("block")
+            .selectAll()
             .where("note_id", "=", validatedNoteId)
             .execute();
-          const childBlocks = await Effect.runPromise(
-            Effect.provideService(
-              Crypto,
-              crypto,
-            )(
-              parseMarkdownToBlocks(
-                noteUpdate.content,
-                `${parentNote.id}.md`,
-                validatedUserId,
-                validatedNoteId,
+          const parse = (markdown: string) =>
+            Effect.runPromise(
+              Effect.provideService(
+                Crypto,
+                crypto,
+              )(
+                parseMarkdownToBlocks(
+                  markdown,
+                  `${validatedNoteId}.md`,
+                  validatedUserId,
+                  validatedNoteId,
+                ),
               ),
-            ),
+            );
+          let parsedBlocks = await parse(content);
+
+          // Ticking off a recurring task moves it on to its next due date
+          // rather than leaving it done. Its "today" is the user's, not the
+          // server's.
+          const user = await trx
+            .selectFrom("user")
+            .select("timezone")
+            .where("id", "=", validatedUserId)
+            .executeTakeFirst();
+          const recurring = rescheduleCompletedTasks(
+            content,
+            existingBlocks,
+            parsedBlocks,
+            toDateStringIn(new Date(), user?.timezone ?? null),
+          );
+          if (recurring.completions.length > 0) {
+            content = recurring.content;
+            parsedBlocks = await parse(content);
+          }
+
+          const parentNote = await trx
+            .updateTable("note")
+            .set((eb) => ({
+              title,
+              content,
+              updated_at: new Date(),
+              version: eb("version", "+", 1),
+            }))
+            .where("id", "=", validatedNoteId)
+            .returningAll()
+            .executeTakeFirstOrThrow();
+
+          // Diff rather than replace, so unchanged blocks keep their IDs and
+          // versions and only the touched ones show up in the next pull.
+          const { inserts, updates, deletes } = reconcileBlocks(
+            existingBlocks,
+            parsedBlocks,
           );
-          if (childBlocks.length > 0) {
-            await trx.insertInto("block").values(childBlocks).execute();
+          if (inserts.length > 0) {
+            await trx
+              .insertInto("block")
+              .values(
+                inserts.map((block) => ({
+                  ...block,
+                  deleted_at: parentNote.deleted_at,
+                })),
+              )
+              .execute();
+          }
+          for (const { id, changes } of updates) {
+            await trx
+              .updateTable("block")
+              .set(changes)
+              .where("id", "=", id)
+              .execute();
+          }
+          // Deletes go last: re-parented blocks must be moved off a removed
+          // parent before the `parent_id` cascade can reach them.
+          if (deletes.length > 0) {
+            await trx.deleteFrom("block").where("id", "in", deletes).execute();
           }
+          await syncNoteTags(trx, parentNote);
+          if (recurring.completions.length > 0) {
+            await trx
+              .insertInto("task_completion")
+              .values(
+                recurring.completions.map((completion) => ({
+                  ...completion,
+                  note_id: validatedNoteId,
+                  user_id: validatedUserId,
+                })),
+              )
+              .execute();
+            await Effect.runPromise(
+              serverLog(
+                "info",
+                {
+                  noteId: validatedNoteId,
+                  completions: recurring.completions,
+                },
+                "[UpdateNote] Moved completed recurring tasks to their next due date",
+                "UpdateNote:RecurringTasks",
+              ),
+            );
+          }
+
+          // A merge keeps the version it merged into as its own revision.
+          await recordNoteRevision(trx, parentNote, {
+            startNew: noteUpdate.restoredFrom !== undefined || diverged,
+          });
 
           return parentNote;
         }),
       catch: (cause) => {
-        if (cause instanceof NoteNotFoundError) {
+        if (
+          cause instanceof NoteNotFoundError ||
+          cause instanceof NoteVersionConflictError
+        ) {
           return cause;
         }
         return new NoteDatabaseError({ cause });
@@ -108,7 +256,7 @@ const updateNoteEffect = (
       Effect.mapError((cause) => new NoteValidationError({ cause })),
     );
     yield* pokeService
-      .poke(updatedNote.user_id)
+      .poke(updatedNote.user_id, { keys: [`note/${updatedNote.id}`] })
       .pipe(Effect.mapError((cause) => new NoteDatabaseError({ cause })));
     return updatedNote;
   });
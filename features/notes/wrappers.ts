@@ -1,6 +1,7 @@
 import { Effect } from "effect";
 import { serverLog } from "../../lib/server/logger.server";
 import type { Note } from "../../types/generated/public/Note";
+import type { Block } from "../../types/generated/public/Block";
 
 /**
  * Reusable logging wrapper for the getNote feature.
@@ -96,3 +97,264 @@ export const withUpdateNoteLogging =
           "UpdateNote:Success",
         ),
     });
+
+/**
+ * Reusable logging wrapper for the deleteNote feature.
+ */
+export const withDeleteNoteLogging =
+  <R, E>(noteId: string, userId: string) =>
+  <A extends Note>(self: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.tapBoth(self, {
+      onFailure: (error) =>
+        serverLog(
+          "error", // level
+          { noteId, userId, error }, // data
+          `[DeleteNote] Failure: ${(error as { _tag: string })._tag}`, // message
+          "DeleteNote:Failure",
+        ),
+      onSuccess: (deletedNote) =>
+        serverLog(
+          "info", // level
+          { note: deletedNote }, // data
+          "[DeleteNote] OK: Successfully moved note to trash", // message
+          "DeleteNote:Success",
+        ),
+    });
+
+/**
+ * Reusable logging wrapper for the restoreNote feature.
+ */
+export const withRestoreNoteLogging =
+  <R, E>(noteId: string, userId: string) =>
+  <A extends Note>(self: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.tapBoth(self, {
+      onFailure: (error) =>
+        serverLog(
+          "error", // level
+          { noteId, userId, error }, // data
+          `[RestoreNote] Failure: ${(error as { _tag: string })._tag}`, // message
+          "RestoreNote:Failure",
+        ),
+      onSuccess: (restoredNote) =>
+        serverLog(
+          "info", // level
+          { note: restoredNote }, // data
+          "[RestoreNote] OK: Successfully restored note", // message
+          "RestoreNote:Success",
+        ),
+    });
+
+/**
+ * Reusable logging wrapper for the purgeNote feature.
+ */
+export const withPurgeNoteLogging =
+  <R, E>(noteId: string, userId: string) =>
+  <A>(self: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.tapBoth(self, {
+      onFailure: (error) =>
+        serverLog(
+          "error", // level
+          { noteId, userId, error }, // data
+          `[PurgeNote] Failure: ${(error as { _tag: string })._tag}`, // message
+          "PurgeNote:Failure",
+        ),
+      onSuccess: () =>
+        serverLog(
+          "info", // level
+          { noteId, userId }, // data
+          "[PurgeNote] OK: Successfully purged note", // message
+          "PurgeNote:Success",
+        ),
+    });
+
+/**
+ * Reusable logging wrapper for the updateBlock feature.
+ */
+export const withUpdateBlockLogging =
+  <R, E>(blockId: string, userId: string) =>
+  <A extends Block>(self: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.tapBoth(self, {
+      onFailure: (error) =>
+        serverLog(
+          "error", // level
+          { blockId, userId, error }, // data
+          `[UpdateBlock] Failure: ${(error as { _tag: string })._tag}`, // message
+          "UpdateBlock:Failure",
+        ),
+      onSuccess: (updatedBlock) =>
+        serverLog(
+          "info", // level
+          { block: updatedBlock }, // data
+          "[UpdateBlock] OK: Successfully updated block", // message
+          "UpdateBlock:Success",
+        ),
+    });
+
+/**
+ * Reusable logging wrapper for the listNoteRevisions feature.
+ */
+export const withListNoteRevisionsLogging =
+  <R, E>(noteId: string, userId: string) =>
+  <A extends ReadonlyArray<unknown>>(
+    self: Effect.Effect<A, E, R>,
+  ): Effect.Effect<A, E, R> =>
+    Effect.tapBoth(self, {
+      onFailure: (error) =>
+        serverLog(
+          "error", // level
+          { noteId, userId, error }, // data
+          `[ListNoteRevisions] Failure: ${(error as { _tag: string })._tag}`, // message
+          "ListNoteRevisions:Failure",
+        ),
+      onSuccess: (revisions) =>
+        serverLog(
+          "info", // level
+          { noteId, userId, revisionCount: revisions.length }, // data
+          "[ListNoteRevisions] OK: Successfully listed revisions", // message
+          "ListNoteRevisions:Success",
+        ),
+    });
+
+/**
+ * Reusable logging wrapper for the diffNoteRevision feature.
+ */
+export const withDiffNoteRevisionLogging =
+  <R, E>(noteId: string, userId: string, revisionId: string) =>
+  <A>(self: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.tapBoth(self, {
+      onFailure: (error) =>
+        serverLog(
+          "error", // level
+          { noteId, userId, revisionId, error }, // data
+          `[DiffNoteRevision] Failure: ${(error as { _tag: string })._tag}`, // message
+          "DiffNoteRevision:Failure",
+        ),
+      onSuccess: () =>
+        serverLog(
+          "info", // level
+          { noteId, userId, revisionId }, // data
+          "[DiffNoteRevision] OK: Successfully diffed revision", // message
+          "DiffNoteRevision:Success",
+        ),
+    });
+
+/**
+ * Reusable logging wrapper for the syncNoteDocument feature.
+ */
+export const withSyncNoteDocumentLogging =
+  <R, E>(noteId: string, userId: string) =>
+  <A>(self: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.tapBoth(self, {
+      onFailure: (error) =>
+        serverLog(
+          "error", // level
+          { noteId, userId, error }, // data
+          `[SyncNoteDocument] Failure: ${(error as { _tag: string })._tag}`, // message
+          "SyncNoteDocument:Failure",
+        ),
+      onSuccess: () =>
+        serverLog(
+          "debug", // level
+          { noteId, userId }, // data
+          "[SyncNoteDocument] OK: Sent document state", // message
+          "SyncNoteDocument:Success",
+        ),
+    });
+
+/**
+ * Reusable logging wrapper for the applyNoteDocumentUpdate feature. Success
+ * is logged at debug level, since editors send an update every few
+ * keystrokes.
+ */
+export const withApplyNoteDocumentUpdateLogging =
+  <R, E>(noteId: string, userId: string) =>
+  <A>(self: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.tapBoth(self, {
+      onFailure: (error) =>
+        serverLog(
+          "error", // level
+          { noteId, userId, error }, // data
+          `[ApplyNoteDocumentUpdate] Failure: ${(error as { _tag: string })._tag}`, // message
+          "ApplyNoteDocumentUpdate:Failure",
+        ),
+      onSuccess: () =>
+        serverLog(
+          "debug", // level
+          { noteId, userId }, // data
+          "[ApplyNoteDocumentUpdate] OK: Stored document update", // message
+          "ApplyNoteDocumentUpdate:Success",
+        ),
+    });
+
+/**
+ * Reusable logging wrapper for the flattenNoteDocument feature.
+ */
+export const withFlattenNoteDocumentLogging =
+  <R, E>(noteId: string) =>
+  <A extends { noteUpdated: boolean; documentUpdated: boolean }>(
+    self: Effect.Effect<A, E, R>,
+  ): Effect.Effect<A, E, R> =>
+    Effect.tapBoth(self, {
+      onFailure: (error) =>
+        serverLog(
+          "error", // level
+          { noteId, error }, // data
+          `[FlattenNoteDocument] Failure: ${(error as { _tag: string })._tag}`, // message
+          "FlattenNoteDocument:Failure",
+        ),
+      onSuccess: (result) =>
+        serverLog(
+          "info", // level
+          { noteId, ...result }, // data
+          "[FlattenNoteDocument] OK: Flattened document", // message
+          "FlattenNoteDocument:Success",
+        ),
+    });
+
+/**
+ * Reusable logging wrapper for the queryBlocks feature.
+ */
+export const withQueryBlocksLogging =
+  <R, E>(userId: string, query: string) =>
+  <A extends { total: number }>(
+    self: Effect.Effect<A, E, R>,
+  ): Effect.Effect<A, E, R> =>
+    Effect.tapBoth(self, {
+      onFailure: (error) =>
+        serverLog(
+          "error", // level
+          { userId, query, error }, // data
+          `[QueryBlocks] Failure: ${(error as { _tag: string })._tag}`, // message
+          "QueryBlocks:Failure",
+        ),
+      onSuccess: (page) =>
+        serverLog(
+          "info", // level
+          { userId, query, total: page.total }, // data
+          "[QueryBlocks] OK: Ran block query", // message
+          "QueryBlocks:Success",
+        ),
+    });
+
+/**
+ * Reusable logging wrapper for the toggleTask feature.
+ */
+export const withToggleTaskLogging =
+  <R, E>(blockId: string, userId: string, done: boolean) =>
+  <A extends Note>(self: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.tapBoth(self, {
+      onFailure: (error) =>
+        serverLog(
+          "error", // level
+          { blockId, userId, done, error }, // data
+          `[ToggleTask] Failure: ${(error as { _tag: string })._tag}`, // message
+          "ToggleTask:Failure",
+        ),
+      onSuccess: (note) =>
+        serverLog(
+          "info", // level
+          { blockId, noteId: note.id, done }, // data
+          "[ToggleTask] OK: Rewrote task checkbox", // message
+          "ToggleTask:Success",
+        ),
+    });
@@ -37,6 +37,7 @@ export async function createNote(
       ...note,
       created_at: note.created_at.toISOString(),
       updated_at: note.updated_at.toISOString(),
+      deleted_at: note.deleted_at?.toISOString() ?? null,
     };
     yield* Effect.promise(() => tx.set(key, noteForJSON));
   });
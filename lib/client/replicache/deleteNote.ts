@@ -0,0 +1,56 @@
+// FILE: lib/client/replicache/deleteNote.ts
+import { Effect } from "effect";
+import { Schema } from "@effect/schema";
+import { formatErrorSync } from "@effect/schema/TreeFormatter";
+import { type WriteTransaction, type ReadonlyJSONValue } from "replicache";
+import { NoteSchema } from "../../shared/schemas";
+import { clientLog } from "../logger.client";
+import { runClientPromise } from "../runtime";
+import { noteBlocks, withMutatorLogging } from "./helpers";
+
+export async function deleteNote(
+  tx: WriteTransaction,
+  { id }: { id: string },
+): Promise<void> {
+  const deleteNoteEffect = Effect.gen(function* () {
+    yield* clientLog(
+      "info",
+      `Executing mutator: deleteNote for id ${id}`,
+      undefined,
+      "Replicache:deleteNote",
+    );
+
+    const key = `note/${id}`;
+    const noteJSON = yield* Effect.promise(() => tx.get(key));
+
+    if (noteJSON === undefined) {
+      return yield* Effect.fail(
+        new Error(`Note with id ${id} not found for delete.`),
+      );
+    }
+
+    const note = yield* Schema.decodeUnknown(NoteSchema)(noteJSON).pipe(
+      Effect.mapError((e) => new Error(formatErrorSync(e))),
+    );
+
+    const now = new Date();
+    const deletedForJSON: ReadonlyJSONValue = {
+      ...note,
+      created_at: note.created_at.toISOString(),
+      updated_at: now.toISOString(),
+      deleted_at: now.toISOString(),
+      version: note.version + 1, // Optimistically increment version
+    };
+    yield* Effect.promise(() => tx.set(key, deletedForJSON));
+
+    // Blocks of trashed notes are not part of the client view; the server
+    // soft-deletes them and the next pull would drop them anyway.
+    for (const block of yield* noteBlocks(tx, id)) {
+      yield* Effect.promise(() => tx.del(`block/${block.id}`));
+    }
+  });
+
+  return runClientPromise(
+    deleteNoteEffect.pipe(withMutatorLogging("deleteNote")),
+  );
+}
@@ -1,5 +1,9 @@
 // lib/client/replicache/helpers.ts
-import { Effect, pipe } from "effect";
+import { Effect, Option, pipe } from "effect";
+import { Schema } from "@effect/schema";
+import type { IndexDefinitions, ReadTransaction } from "replicache";
+import type { Block } from "../../../types/generated/public/Block";
+import { BlockSchema } from "../../shared/schemas";
 import { clientLog } from "../logger.client";
 
 /**
@@ -16,3 +20,40 @@ export const withMutatorLogging =
         clientLog("error", `Error in ${name} mutator:`, err),
       ),
     );
+
+/**
+ * Client-only key holding the stored version a note's pending edits were
+ * made against. Only pending `updateNote` mutations write it, so it is gone
+ * again once the server has confirmed them and a pull brings the result.
+ */
+export const noteBaseVersionKey = (noteId: string) => `noteBase/${noteId}`;
+
+const BLOCKS_BY_NOTE = "blocksByNote";
+
+/** The local store's indexes, passed to Replicache by `initReplicache`. */
+export const indexes: IndexDefinitions = {
+  // Blocks by `note_id`; those outside a note are left out.
+  [BLOCKS_BY_NOTE]: { prefix: "block/", jsonPointer: "/note_id" },
+};
+
+/**
+ * The blocks of note `noteId`, trashed ones included, read through the
+ * note index rather than by scanning every block in the store.
+ */
+export const noteBlocks = (
+  tx: ReadTransaction,
+  noteId: string,
+): Effect.Effect<Block[]> =>
+  Effect.promise(() =>
+    tx.scan({ indexName: BLOCKS_BY_NOTE, prefix: noteId }).values().toArray(),
+  ).pipe(
+    Effect.map((blockJSONs) =>
+      blockJSONs.flatMap((json) => {
+        const block = Schema.decodeUnknownOption(BlockSchema)(json);
+        // The prefix would also match a longer ID.
+        return Option.isSome(block) && block.value.note_id === noteId
+          ? [block.value]
+          : [];
+      }),
+    ),
+  );
@@ -1,16 +1,92 @@
 // lib/client/replicache/index.ts
-import { Replicache } from "replicache";
+import {
+  getDefaultPuller,
+  Replicache,
+  type Puller,
+  type Pusher,
+  type PushResponse,
+} from "replicache";
 import { Effect } from "effect";
 import { clientLog } from "../logger.client";
 import { toError } from "../../shared/toError";
 import { mutators } from "./mutators";
+import { indexes } from "./helpers";
 import type { Mutators } from "./types";
 import { setupWebSocket } from "./websocket";
+import { attachNoteDocuments } from "./noteDocuments";
+import { handleUpdateNeeded, watchSchemaVersion } from "./schema";
+import { runClientUnscoped } from "../runtime";
+import { refreshMutationErrors } from "../stores/mutationErrorStore";
+import { INITIAL_SYNC_KEY, REPLICACHE_SCHEMA_VERSION } from "../../shared/sync";
+import {
+  recordSuccessfulPull,
+  recordSuccessfulPush,
+  setSyncing,
+  trackSyncStatus,
+} from "../stores/syncStatusStore";
 
 export let rep: Replicache<Mutators> | null = null;
+/**
+ * Closes the poke socket and note documents and stops status tracking for
+ * the current `rep`.
+ */
+let detachFromRep: (() => void) | null = null;
+
+const detach = () => {
+  detachFromRep?.();
+  detachFromRep = null;
+};
+
+const defaultPuller = getDefaultPuller({
+  pullURL: "/api/replicache/pull",
+  auth: "",
+});
+
+/** The stock puller, noting when a pull reached the server. */
+const puller: Puller = async (requestBody, requestID) => {
+  const result = await defaultPuller(requestBody, requestID);
+  if (result.httpRequestInfo.httpStatusCode === 200) recordSuccessfulPull();
+  return result;
+};
+
+/**
+ * Posts a push as Replicache's own pusher would, then checks for rejected
+ * mutations and pulls once the server has taken it. The server does not
+ * poke the client group that made a change (see `/ws`), and Replicache does
+ * not pull after a push, so without this the tab would wait for its next
+ * interval pull to see its mutations confirmed and what the server made of
+ * them.
+ */
+const makePusher =
+  (getRep: () => Replicache<Mutators>): Pusher =>
+  async (requestBody, requestID) => {
+    const response = await fetch("/api/replicache/push", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Replicache-RequestID": requestID,
+      },
+      body: JSON.stringify(requestBody),
+      credentials: "include",
+    });
+    const httpRequestInfo = {
+      httpStatusCode: response.status,
+      errorMessage: response.ok ? "" : await response.text(),
+    };
+    if (!response.ok) return { httpRequestInfo };
+    const body = (await response.json()) as PushResponse | { ok: true };
+    if ("error" in body) return { response: body, httpRequestInfo };
+    recordSuccessfulPush(requestBody);
+    // The push is where the server refuses a mutation, so only a push that
+    // reached it can have changed which ones were.
+    runClientUnscoped(refreshMutationErrors(getRep()));
+    void getRep().pull();
+    return { httpRequestInfo };
+  };
 
 export const nullifyReplicache = (): Effect.Effect<void> =>
   Effect.sync(() => {
+    detach();
     rep = null;
   });
 
@@ -18,27 +94,59 @@ export const initReplicache = (
   userId: string,
 ): Effect.Effect<Replicache<Mutators>> =>
   Effect.gen(function* () {
+    const name = `life-io-user-${userId}`;
+    // Booting offline opens the remembered user's instance before the
+    // session is confirmed; confirming it must not reopen it.
+    if (rep && !rep.closed && rep.name === name) return rep;
     if (rep) {
       yield* clientLog(
         "warn",
         "Closing existing Replicache instance before creating a new one.",
       );
+      detach();
       yield* Effect.promise(() => rep!.close());
     }
 
-    const newRep = new Replicache<Mutators>({
+    const newRep: Replicache<Mutators> = new Replicache<Mutators>({
       logLevel: "debug",
-      name: `life-io-user-${userId}`,
+      name,
+      schemaVersion: REPLICACHE_SCHEMA_VERSION,
       licenseKey: "l10f93d37bcd041beba8d111a72da0031",
       pushURL: "/api/replicache/push",
       pullURL: "/api/replicache/pull",
+      pusher: makePusher(() => newRep),
+      puller,
       pushDelay: 200,
       pullInterval: 60_000,
       mutators, // Import the combined mutators
+      indexes,
     });
 
     rep = newRep;
-    setupWebSocket(rep); // Pass the new instance to the WebSocket setup
+    // Before the socket, which syncs the documents with edits left to send.
+    const detachNoteDocuments = attachNoteDocuments(name);
+    const closeWebSocket = setupWebSocket(newRep);
+    const stopTrackingSyncStatus = trackSyncStatus(newRep);
+    const stopWatchingSchema = watchSchemaVersion(newRep);
+    detachFromRep = () => {
+      closeWebSocket();
+      detachNoteDocuments();
+      stopTrackingSyncStatus();
+      stopWatchingSchema();
+    };
+    newRep.onUpdateNeeded = handleUpdateNeeded;
+    newRep.onSync = (syncing) => {
+      runClientUnscoped(setSyncing(newRep, syncing));
+    };
+    // Rejections left from an earlier session; later ones follow pushes.
+    runClientUnscoped(refreshMutationErrors(newRep));
+    // Large accounts receive their first sync a page per pull; fetch the next
+    // page as soon as the previous one has landed.
+    newRep.subscribe((tx) => tx.get(INITIAL_SYNC_KEY), {
+      onData: (status) => {
+        if (status !== undefined) void newRep.pull();
+      },
+    });
     yield* clientLog("info", `Replicache initialized for user: ${userId}`);
     return newRep;
   }).pipe(
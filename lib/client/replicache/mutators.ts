@@ -2,10 +2,18 @@
 import { createNote } from "./createNote";
 import { updateNote } from "./updateNote";
 import { updateBlock } from "./updateBlock";
+import { toggleTask } from "./toggleTask";
+import { deleteNote } from "./deleteNote";
+import { restoreNote } from "./restoreNote";
+import { purgeNote } from "./purgeNote";
 import type { Mutators } from "./types";
 
 export const mutators: Mutators = {
   createNote,
   updateNote,
   updateBlock,
+  toggleTask,
+  deleteNote,
+  restoreNote,
+  purgeNote,
 };
@@ -0,0 +1,289 @@
+// FILE: lib/client/replicache/noteDocuments.ts
+
+import {
+  computed,
+  signal,
+  type ReadonlySignal,
+  type Signal,
+} from "@preact/signals-core";
+import * as Y from "yjs";
+import { clearDocument, IndexeddbPersistence } from "y-indexeddb";
+import {
+  decodeBinary,
+  encodeBinary,
+  NOTE_DOCUMENT_FIELD,
+} from "../../shared/noteDocument";
+import type {
+  ClientSocketMessage,
+  DocChangedMessage,
+  DocErrorMessage,
+  DocSyncMessage,
+} from "../../shared/socket";
+
+/** Marks updates that came from the server, so they are not sent back. */
+const REMOTE_ORIGIN = Symbol("remote");
+
+interface OpenDocument {
+  readonly doc: Y.Doc;
+  /** Keeps the document in IndexedDB; null when no user is signed in. */
+  readonly persistence: IndexeddbPersistence | null;
+  /** Settles once the copy kept in IndexedDB, if any, is in `doc`. */
+  readonly restored: Promise<void>;
+  readonly loaded: Signal<boolean>;
+  readonly failed: Signal<boolean>;
+  /** The editor cannot have the document until the socket is back. */
+  readonly unavailable: ReadonlySignal<boolean>;
+  refs: number;
+  /** Synced over the current socket, so local edits can go straight out. */
+  live: boolean;
+}
+
+export interface NoteDocumentHandle {
+  readonly doc: Y.Doc;
+  /**
+   * True once `doc` holds the note: the server's copy, or the one kept in
+   * IndexedDB from an earlier session, which can be edited offline.
+   */
+  readonly loaded: ReadonlySignal<boolean>;
+  /** True when the server refused the document. */
+  readonly failed: ReadonlySignal<boolean>;
+  /**
+   * True when the document is not loaded and will not be until the socket
+   * (re)connects: offline with no copy kept, or refused by the server.
+   */
+  readonly unavailable: ReadonlySignal<boolean>;
+  readonly close: () => void;
+}
+
+const documents = new Map<string, OpenDocument>();
+let send: ((message: ClientSocketMessage) => void) | null = null;
+const connected = signal(false);
+
+/**
+ * Names the IndexedDB databases and the unsent list of the signed-in user
+ * (their Replicache name), or null when no one is.
+ */
+let scope: string | null = null;
+
+const databaseName = (scope: string, noteId: string) =>
+  `${scope}-note-${noteId}`;
+const unsentKey = (scope: string) => `${scope}-unsent-note-documents`;
+
+/**
+ * Notes whose documents have edits the server has not been sent yet. Kept
+ * in localStorage with the edits themselves in IndexedDB, so they are sent
+ * on the next connection even after a reload.
+ */
+export const unsentNoteDocuments = signal<ReadonlySet<string>>(new Set());
+
+const setUnsent = (noteId: string, unsent: boolean) => {
+  if (unsentNoteDocuments.value.has(noteId) === unsent) return;
+  const next = new Set(unsentNoteDocuments.value);
+  if (unsent) next.add(noteId);
+  else next.delete(noteId);
+  unsentNoteDocuments.value = next;
+  if (scope !== null) {
+    localStorage.setItem(unsentKey(scope), JSON.stringify([...next]));
+  }
+};
+
+const readUnsent = (scope: string): Set<string> => {
+  try {
+    const stored: unknown = JSON.parse(
+      localStorage.getItem(unsentKey(scope)) ?? "[]",
+    );
+    return new Set(
+      Array.isArray(stored)
+        ? stored.filter((id): id is string => typeof id === "string")
+        : [],
+    );
+  } catch {
+    // A corrupt list is as good as none; the documents are still kept.
+    return new Set();
+  }
+};
+
+/** Asks the server for what this document lacks, once it has been restored. */
+const requestSync = (noteId: string, entry: OpenDocument) => {
+  entry.live = false;
+  void entry.restored.then(() => {
+    if (documents.get(noteId) !== entry) return;
+    send?.({
+      type: "doc-sync",
+      noteId,
+      stateVector: encodeBinary(Y.encodeStateVector(entry.doc)),
+    });
+  });
+};
+
+const release = (noteId: string, entry: OpenDocument) => {
+  documents.delete(noteId);
+  send?.({ type: "doc-close", noteId });
+  void entry.persistence?.destroy();
+  entry.doc.destroy();
+};
+
+const createDocument = (noteId: string): OpenDocument => {
+  const doc = new Y.Doc();
+  const persistence =
+    scope === null
+      ? null
+      : new IndexeddbPersistence(databaseName(scope, noteId), doc);
+  const loaded = signal(false);
+  const failed = signal(false);
+  const restored = signal(persistence === null);
+  const entry: OpenDocument = {
+    doc,
+    persistence,
+    restored: (persistence?.whenSynced ?? Promise.resolve()).then(() => {
+      // An empty copy is a document never synced; the editor must not write
+      // into it before the server's arrives.
+      if (doc.getXmlFragment(NOTE_DOCUMENT_FIELD).length > 0) {
+        loaded.value = true;
+      }
+      restored.value = true;
+    }),
+    loaded,
+    failed,
+    unavailable: computed(
+      () =>
+        restored.value && !loaded.value && (!connected.value || failed.value),
+    ),
+    refs: 0,
+    live: false,
+  };
+  doc.on("update", (update: Uint8Array, origin: unknown) => {
+    // Restoring the kept copy is not an edit.
+    if (origin === REMOTE_ORIGIN || (persistence && origin === persistence)) {
+      return;
+    }
+    if (entry.live && send) {
+      send({ type: "doc-update", noteId, update: encodeBinary(update) });
+    } else {
+      setUnsent(noteId, true);
+    }
+  });
+  documents.set(noteId, entry);
+  requestSync(noteId, entry);
+  return entry;
+};
+
+/**
+ * Opens the collaborative document behind a note's content. Handles to the
+ * same note share one document; it is released when the last is closed and
+ * nothing in it is left to send.
+ *
+ * Documents are kept in IndexedDB, so a note opened before can be edited
+ * offline. Edits go to the server as they happen while the socket is up.
+ * Edits made offline are kept and sent as part of the next sync, which is
+ * requested whenever the socket (re)connects or the server reports a change.
+ */
+export const openNoteDocument = (noteId: string): NoteDocumentHandle => {
+  const opened = documents.get(noteId) ?? createDocument(noteId);
+  opened.refs += 1;
+  let closed = false;
+  return {
+    doc: opened.doc,
+    loaded: opened.loaded,
+    failed: opened.failed,
+    unavailable: opened.unavailable,
+    close: () => {
+      if (closed) return;
+      closed = true;
+      opened.refs -= 1;
+      if (opened.refs > 0 || unsentNoteDocuments.value.has(noteId)) return;
+      release(noteId, opened);
+    },
+  };
+};
+
+/**
+ * Called by `initReplicache` for the signed-in user; documents are kept
+ * under `name`, their Replicache name. Returns a function that closes them.
+ */
+export const attachNoteDocuments = (name: string): (() => void) => {
+  scope = name;
+  unsentNoteDocuments.value = readUnsent(name);
+  return () => {
+    for (const [noteId, entry] of documents) release(noteId, entry);
+    scope = null;
+    unsentNoteDocuments.value = new Set();
+  };
+};
+
+/** Deletes the documents kept for `name` (see `attachNoteDocuments`). */
+export const clearNoteDocuments = async (name: string): Promise<void> => {
+  localStorage.removeItem(unsentKey(name));
+  const databases = await indexedDB.databases();
+  await Promise.all(
+    databases
+      .map((database) => database.name)
+      .filter(
+        (database): database is string =>
+          database?.startsWith(`${name}-note-`) ?? false,
+      )
+      .map((database) => clearDocument(database)),
+  );
+};
+
+/**
+ * Called by the poke socket once it is authenticated; every open document,
+ * and every one with edits left to send, is synced over it from then on.
+ */
+export const connectNoteDocuments = (
+  sender: (message: ClientSocketMessage) => void,
+): void => {
+  send = sender;
+  connected.value = true;
+  for (const [noteId, entry] of documents) requestSync(noteId, entry);
+  for (const noteId of unsentNoteDocuments.value) {
+    if (!documents.has(noteId)) createDocument(noteId);
+  }
+};
+
+/** Called by the poke socket when it closes. */
+export const disconnectNoteDocuments = (): void => {
+  send = null;
+  connected.value = false;
+  for (const entry of documents.values()) entry.live = false;
+};
+
+export const handleNoteDocumentMessage = (
+  message: DocSyncMessage | DocChangedMessage | DocErrorMessage,
+): void => {
+  const entry = documents.get(message.noteId);
+  if (!entry) return;
+  switch (message.type) {
+    case "doc-sync": {
+      Y.applyUpdate(entry.doc, decodeBinary(message.update), REMOTE_ORIGIN);
+      if (unsentNoteDocuments.value.has(message.noteId) && send) {
+        send({
+          type: "doc-update",
+          noteId: message.noteId,
+          update: encodeBinary(
+            Y.encodeStateAsUpdate(entry.doc, decodeBinary(message.stateVector)),
+          ),
+        });
+        setUnsent(message.noteId, false);
+        if (entry.refs === 0) {
+          release(message.noteId, entry);
+          return;
+        }
+      }
+      entry.live = true;
+      entry.loaded.value = true;
+      entry.failed.value = false;
+      return;
+    }
+    case "doc-changed":
+      requestSync(message.noteId, entry);
+      return;
+    case "doc-error":
+      entry.live = false;
+      entry.failed.value = true;
+      // Edits the server will not take cannot be sent; the copy stays.
+      setUnsent(message.noteId, false);
+      if (entry.refs === 0) release(message.noteId, entry);
+      return;
+  }
+};
@@ -0,0 +1,48 @@
+// FILE: lib/client/replicache/purgeNote.ts
+import { Effect } from "effect";
+import { Schema } from "@effect/schema";
+import { formatErrorSync } from "@effect/schema/TreeFormatter";
+import { type WriteTransaction } from "replicache";
+import { NoteSchema } from "../../shared/schemas";
+import { clientLog } from "../logger.client";
+import { runClientPromise } from "../runtime";
+import { withMutatorLogging } from "./helpers";
+
+export async function purgeNote(
+  tx: WriteTransaction,
+  { id }: { id: string },
+): Promise<void> {
+  const purgeNoteEffect = Effect.gen(function* () {
+    yield* clientLog(
+      "info",
+      `Executing mutator: purgeNote for id ${id}`,
+      undefined,
+      "Replicache:purgeNote",
+    );
+
+    const key = `note/${id}`;
+    const noteJSON = yield* Effect.promise(() => tx.get(key));
+
+    if (noteJSON === undefined) {
+      return yield* Effect.fail(
+        new Error(`Note with id ${id} not found for purge.`),
+      );
+    }
+
+    const note = yield* Schema.decodeUnknown(NoteSchema)(noteJSON).pipe(
+      Effect.mapError((e) => new Error(formatErrorSync(e))),
+    );
+
+    if (note.deleted_at === null) {
+      return yield* Effect.fail(
+        new Error(`Note with id ${id} must be in the trash to be purged.`),
+      );
+    }
+
+    yield* Effect.promise(() => tx.del(key));
+  });
+
+  return runClientPromise(
+    purgeNoteEffect.pipe(withMutatorLogging("purgeNote")),
+  );
+}
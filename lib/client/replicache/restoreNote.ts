@@ -0,0 +1,50 @@
+// FILE: lib/client/replicache/restoreNote.ts
+import { Effect } from "effect";
+import { Schema } from "@effect/schema";
+import { formatErrorSync } from "@effect/schema/TreeFormatter";
+import { type WriteTransaction, type ReadonlyJSONValue } from "replicache";
+import { NoteSchema } from "../../shared/schemas";
+import { clientLog } from "../logger.client";
+import { runClientPromise } from "../runtime";
+import { withMutatorLogging } from "./helpers";
+
+export async function restoreNote(
+  tx: WriteTransaction,
+  { id }: { id: string },
+): Promise<void> {
+  const restoreNoteEffect = Effect.gen(function* () {
+    yield* clientLog(
+      "info",
+      `Executing mutator: restoreNote for id ${id}`,
+      undefined,
+      "Replicache:restoreNote",
+    );
+
+    const key = `note/${id}`;
+    const noteJSON = yield* Effect.promise(() => tx.get(key));
+
+    if (noteJSON === undefined) {
+      return yield* Effect.fail(
+        new Error(`Note with id ${id} not found for restore.`),
+      );
+    }
+
+    const note = yield* Schema.decodeUnknown(NoteSchema)(noteJSON).pipe(
+      Effect.mapError((e) => new Error(formatErrorSync(e))),
+    );
+
+    // The note's blocks come back with the next pull.
+    const restoredForJSON: ReadonlyJSONValue = {
+      ...note,
+      created_at: note.created_at.toISOString(),
+      updated_at: new Date().toISOString(),
+      deleted_at: null,
+      version: note.version + 1, // Optimistically increment version
+    };
+    yield* Effect.promise(() => tx.set(key, restoredForJSON));
+  });
+
+  return runClientPromise(
+    restoreNoteEffect.pipe(withMutatorLogging("restoreNote")),
+  );
+}
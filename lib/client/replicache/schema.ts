@@ -0,0 +1,77 @@
+// lib/client/replicache/schema.ts
+import {
+  dropDatabase,
+  type Replicache,
+  type UpdateNeededReason,
+} from "replicache";
+import { clientLog } from "../logger.client";
+import { runClientUnscoped } from "../runtime";
+import { toError } from "../../shared/toError";
+import {
+  REPLICACHE_SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+} from "../../shared/sync";
+import type { Mutators } from "./types";
+
+/** When this tab last reloaded to pick up a new version, if it did. */
+const RELOADED_AT_KEY = "life-io-schema-reload-at";
+
+/**
+ * A server mid-deploy can briefly refuse a version the next bundle will
+ * speak; reloading more often than this would only spin.
+ */
+const MIN_RELOAD_INTERVAL_MS = 60_000;
+
+const log = (level: "info" | "warn" | "error", message: string) =>
+  runClientUnscoped(clientLog(level, message, undefined, "Replicache:Schema"));
+
+const reload = (why: string) => {
+  const last = Number(sessionStorage.getItem(RELOADED_AT_KEY) ?? 0);
+  if (Date.now() - last < MIN_RELOAD_INTERVAL_MS) {
+    log("warn", `Not reloading again so soon (${why}).`);
+    return;
+  }
+  sessionStorage.setItem(RELOADED_AT_KEY, String(Date.now()));
+  log("info", `Reloading: ${why}.`);
+  window.location.reload();
+};
+
+/**
+ * Replicache calls this when the server refused our schema version (or the
+ * protocol version of this Replicache build). Only a newer bundle can fix
+ * that, so the page is reloaded to fetch one.
+ */
+export const handleUpdateNeeded = (reason: UpdateNeededReason): void => {
+  reload(
+    reason.type === "VersionNotSupported"
+      ? `server does not support this client's ${reason.versionType ?? "version"}`
+      : `update needed (${reason.type})`,
+  );
+};
+
+/**
+ * Watches the schema version the server stamped on our data. Each schema
+ * version normally gets its own IndexedDB, so a mismatch means the local
+ * copy cannot be decoded by this bundle: it is dropped and the page reloaded
+ * to pull a clean copy. Pending mutations are pushed first where possible.
+ */
+export const watchSchemaVersion = (rep: Replicache<Mutators>): (() => void) =>
+  rep.subscribe((tx) => tx.get(SCHEMA_VERSION_KEY), {
+    onData: (stored) => {
+      if (stored === undefined || stored === REPLICACHE_SCHEMA_VERSION) return;
+      log(
+        "warn",
+        `Local data has schema version ${JSON.stringify(stored)}, expected ${REPLICACHE_SCHEMA_VERSION}; resyncing.`,
+      );
+      const { idbName } = rep;
+      rep
+        .push()
+        .catch(() => undefined)
+        .then(() => rep.close())
+        .then(() => dropDatabase(idbName))
+        .then(() => reload("local data was for another schema version"))
+        .catch((e: unknown) =>
+          log("error", `Failed to reset local data: ${toError(e).message}`),
+        );
+    },
+  });
@@ -0,0 +1,86 @@
+// FILE: lib/client/replicache/toggleTask.ts
+import { Effect } from "effect";
+import { Schema } from "@effect/schema";
+import { formatErrorSync } from "@effect/schema/TreeFormatter";
+import {
+  type WriteTransaction,
+  type ReadonlyJSONValue,
+  type JSONValue,
+} from "replicache";
+import { BlockSchema, NoteSchema } from "../../shared/schemas";
+import { toggleTaskInNote } from "../../shared/tasks";
+import { clientLog } from "../logger.client";
+import { runClientPromise } from "../runtime";
+import { noteBlocks, withMutatorLogging } from "./helpers";
+
+export async function toggleTask(
+  tx: WriteTransaction,
+  { id, done }: { id: string; done: boolean },
+): Promise<void> {
+  const toggleTaskEffect = Effect.gen(function* () {
+    yield* clientLog(
+      "info",
+      `Executing mutator: toggleTask for id ${id} (done: ${done})`,
+      undefined,
+      "Replicache:toggleTask",
+    );
+
+    const key = `block/${id}`;
+    const blockJSON = yield* Effect.promise(() => tx.get(key));
+
+    if (blockJSON === undefined) {
+      return yield* Effect.fail(
+        new Error(`Block with id ${id} not found for toggle`),
+      );
+    }
+
+    const block = yield* Schema.decodeUnknown(BlockSchema)(blockJSON).pipe(
+      Effect.mapError((e) => new Error(formatErrorSync(e))),
+    );
+    if (block.type !== "task") {
+      return yield* Effect.fail(new Error(`Block ${id} is not a task`));
+    }
+    if (block.done === done) return;
+
+    const now = new Date();
+    const blockForJSON: ReadonlyJSONValue = {
+      ...block,
+      done,
+      created_at: block.created_at.toISOString(),
+      updated_at: now.toISOString(),
+      deleted_at: block.deleted_at?.toISOString() ?? null,
+      fields: block.fields as JSONValue,
+      version: block.version + 1,
+    };
+    yield* Effect.promise(() => tx.set(key, blockForJSON));
+
+    // The server ticks the box in the note's markdown and re-parses it; do
+    // the same to the local copy so the note reads right until the pull.
+    if (block.note_id) {
+      const noteKey = `note/${block.note_id}`;
+      const noteJSON = yield* Effect.promise(() => tx.get(noteKey));
+      if (noteJSON === undefined) return;
+      const note = yield* Schema.decodeUnknown(NoteSchema)(noteJSON).pipe(
+        Effect.mapError((e) => new Error(formatErrorSync(e))),
+      );
+
+      const siblings = (yield* noteBlocks(tx, block.note_id)).filter(
+        (sibling) => sibling.deleted_at === null,
+      );
+
+      const noteForJSON: ReadonlyJSONValue = {
+        ...note,
+        content: toggleTaskInNote(note.content, siblings, id, done),
+        created_at: note.created_at.toISOString(),
+        updated_at: now.toISOString(),
+        deleted_at: note.deleted_at?.toISOString() ?? null,
+        version: note.version + 1,
+      };
+      yield* Effect.promise(() => tx.set(noteKey, noteForJSON));
+    }
+  });
+
+  return runClientPromise(
+    toggleTaskEffect.pipe(withMutatorLogging("toggleTask")),
+  );
+}
@@ -9,12 +9,39 @@ import type { BlockUpdate } from "../../../types/generated/public/Block";
  */
 export type Mutators = {
   createNote: (tx: WriteTransaction, note: NewNote) => Promise<void>;
+  /**
+   * Replaces a note's title and content. `baseVersion` is the stored version
+   * the edit was made against; the server merges the edit when the note has
+   * moved on since. `restoredFrom` names the revision being restored, which
+   * makes the server start a new history entry.
+   */
   updateNote: (
     tx: WriteTransaction,
-    update: { id: string; title: string; content: string },
+    update: {
+      id: string;
+      title: string;
+      content: string;
+      restoredFrom?: string;
+      baseVersion?: number;
+    },
   ) => Promise<void>;
+  /**
+   * Edits a block. If `version` is given it is the version the edit was made
+   * against, and the mutation is rejected when the block has moved on.
+   */
   updateBlock: (
     tx: WriteTransaction,
     update: BlockUpdate & { id: string },
   ) => Promise<void>;
+  /**
+   * Ticks (`done: true`) or unticks a task block, rewriting its checkbox in
+   * the parent note's markdown.
+   */
+  toggleTask: (
+    tx: WriteTransaction,
+    args: { id: string; done: boolean },
+  ) => Promise<void>;
+  deleteNote: (tx: WriteTransaction, args: { id: string }) => Promise<void>;
+  restoreNote: (tx: WriteTransaction, args: { id: string }) => Promise<void>;
+  purgeNote: (tx: WriteTransaction, args: { id: string }) => Promise<void>;
 };
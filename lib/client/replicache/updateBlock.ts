@@ -8,10 +8,11 @@ import {
   type JSONValue,
 } from "replicache";
 import type { BlockUpdate } from "../../../types/generated/public/Block";
-import { BlockSchema } from "../../shared/schemas";
+import { BlockSchema, NoteSchema } from "../../shared/schemas";
+import { updateBlockInNote } from "../../shared/outline";
 import { clientLog } from "../logger.client";
 import { runClientPromise } from "../runtime";
-import { withMutatorLogging } from "./helpers";
+import { noteBlocks, withMutatorLogging } from "./helpers";
 
 export async function updateBlock(
   tx: WriteTransaction,
@@ -40,11 +41,22 @@ export async function updateBlock(
       Effect.mapError((e) => new Error(formatErrorSync(e))),
     );
 
+    // `version`, when given, is the version the edit was made against.
+    const { version: baseVersion, ...changes } = update;
+    if (baseVersion !== undefined && baseVersion !== block.version) {
+      return yield* Effect.fail(
+        new Error(
+          `Block ${id} changed since it was edited (v${baseVersion} -> v${block.version})`,
+        ),
+      );
+    }
+
+    const now = new Date();
     const updated = {
       ...block,
-      ...update,
+      ...changes,
       version: block.version + 1,
-      updated_at: new Date(),
+      updated_at: now,
     };
     const validated = yield* Schema.decodeUnknown(BlockSchema)(updated).pipe(
       Effect.mapError(
@@ -56,9 +68,39 @@ export async function updateBlock(
       ...validated,
       created_at: validated.created_at.toISOString(),
       updated_at: validated.updated_at.toISOString(),
+      deleted_at: validated.deleted_at?.toISOString() ?? null,
       fields: validated.fields as JSONValue,
     };
     yield* Effect.promise(() => tx.set(key, updatedForJSON));
+
+    // Mirror the server, which rewrites the block's lines in its note's
+    // markdown after every block edit.
+    if (validated.note_id) {
+      const noteKey = `note/${validated.note_id}`;
+      const noteJSON = yield* Effect.promise(() => tx.get(noteKey));
+      if (noteJSON === undefined) return;
+      const note = yield* Schema.decodeUnknown(NoteSchema)(noteJSON).pipe(
+        Effect.mapError((e) => new Error(formatErrorSync(e))),
+      );
+
+      // As they were before this edit, to tell whether the block moved.
+      const siblings = (yield* noteBlocks(tx, validated.note_id)).flatMap(
+        (sibling) =>
+          sibling.deleted_at !== null
+            ? []
+            : [sibling.id === id ? block : sibling],
+      );
+
+      const noteForJSON: ReadonlyJSONValue = {
+        ...note,
+        content: updateBlockInNote(note.content, siblings, validated),
+        created_at: note.created_at.toISOString(),
+        updated_at: now.toISOString(),
+        deleted_at: note.deleted_at?.toISOString() ?? null,
+        version: note.version + 1,
+      };
+      yield* Effect.promise(() => tx.set(noteKey, noteForJSON));
+    }
   });
 
   return runClientPromise(
@@ -6,11 +6,22 @@ import { type WriteTransaction, type ReadonlyJSONValue } from "replicache";
 import { NoteSchema } from "../../shared/schemas";
 import { clientLog } from "../logger.client";
 import { runClientPromise } from "../runtime";
-import { withMutatorLogging } from "./helpers";
+import { noteBaseVersionKey, withMutatorLogging } from "./helpers";
 
 export async function updateNote(
   tx: WriteTransaction,
-  { id, title, content }: { id: string; title: string; content: string },
+  {
+    id,
+    title,
+    content,
+    baseVersion,
+  }: {
+    id: string;
+    title: string;
+    content: string;
+    restoredFrom?: string;
+    baseVersion?: number;
+  },
 ): Promise<void> {
   const updateNoteEffect = Effect.gen(function* () {
     yield* clientLog(
@@ -51,8 +62,15 @@ export async function updateNote(
       ...validated,
       created_at: validated.created_at.toISOString(),
       updated_at: validated.updated_at.toISOString(),
+      deleted_at: validated.deleted_at?.toISOString() ?? null,
     };
     yield* Effect.promise(() => tx.set(key, updatedForJSON));
+    // When this mutation is replayed on top of a newer pulled note, the
+    // content above is still only what this device wrote; later edits must
+    // keep naming the version it was based on so the server merges them.
+    if (baseVersion !== undefined) {
+      yield* Effect.promise(() => tx.set(noteBaseVersionKey(id), baseVersion));
+    }
   });
 
   return runClientPromise(
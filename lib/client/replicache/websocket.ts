@@ -5,6 +5,27 @@ import { clientLog } from "../logger.client";
 import { runClientUnscoped } from "../runtime";
 import { toError } from "../../shared/toError";
 import type { Mutators } from "./types";
+import {
+  SOCKET_AUTH_FAILED_CLOSE_CODE,
+  SOCKET_HEARTBEAT_INTERVAL_MS,
+  SOCKET_IDLE_TIMEOUT_MS,
+  type ClientSocketMessage,
+  type ServerSocketMessage,
+} from "../../shared/socket";
+import { connectionState } from "../stores/connectionStore";
+import {
+  describeDevice,
+  localPresence,
+  presenceSessions,
+} from "../stores/presenceStore";
+import {
+  connectNoteDocuments,
+  disconnectNoteDocuments,
+  handleNoteDocumentMessage,
+} from "./noteDocuments";
+
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
 
 // Helper to get a cookie value
 const getCookie = (name: string): string | undefined => {
@@ -13,81 +34,219 @@ const getCookie = (name: string): string | undefined => {
   if (parts.length === 2) return parts.pop()?.split(";").shift();
 };
 
-export function setupWebSocket(rep: Replicache<Mutators> | null) {
-  const sessionId = getCookie("session_id");
-  if (!sessionId) {
-    runClientUnscoped(
-      clientLog(
-        "error",
-        "No session_id cookie found for WebSocket connection.",
-      ),
-    );
-    return;
+const log = (level: "info" | "warn" | "error", message: string) =>
+  runClientUnscoped(clientLog(level, message, undefined, "Replicache:WS"));
+
+/**
+ * Parses a server message. The bare string "poke" is still accepted from
+ * servers that predate JSON messages.
+ */
+const parseMessage = (data: unknown): ServerSocketMessage | null => {
+  if (data === "poke") return { type: "poke", clientGroupID: null, keys: null };
+  if (typeof data !== "string") return null;
+  try {
+    const parsed: unknown = JSON.parse(data);
+    if (typeof parsed === "object" && parsed !== null && "type" in parsed) {
+      return parsed as ServerSocketMessage;
+    }
+    if (
+      typeof parsed === "object" &&
+      parsed !== null &&
+      "error" in parsed &&
+      parsed.error === "authentication_failed"
+    ) {
+      return { type: "error", error: "authentication_failed" };
+    }
+  } catch {
+    // Not JSON; ignored below.
   }
+  return null;
+};
 
-  const wsUrl = `${window.location.protocol === "https:" ? "wss" : "ws"}://${
-    window.location.host
-  }/ws?sessionId=${sessionId}`;
-  const ws = new WebSocket(wsUrl);
-
-  ws.onopen = () => {
-    runClientUnscoped(
-      clientLog(
-        "info",
-        "[POKE DEBUG] WebSocket connection opened.",
-        undefined,
-        "Replicache:WS",
-      ),
-    );
+/** Exponential backoff with full jitter, so a restarted server is not stormed. */
+const reconnectDelay = (attempt: number): number =>
+  Math.random() *
+  Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+
+/**
+ * Keeps a poke socket open for `rep` until the returned function is called.
+ *
+ * The socket is reopened with backoff whenever it drops, and a heartbeat
+ * closes it when the server has gone quiet for `SOCKET_IDLE_TIMEOUT_MS`, which
+ * is how half-open connections after a network change are noticed. Every
+ * reconnect is followed by a pull, since pokes sent while the socket was down
+ * are lost.
+ */
+export function setupWebSocket(rep: Replicache<Mutators>): () => void {
+  let ws: WebSocket | null = null;
+  let stopped = false;
+  let attempt = 0;
+  let hasConnected = false;
+  let lastMessageAt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let isReady = false;
+  const device = describeDevice(navigator.userAgent);
+
+  const send = (message: ClientSocketMessage) => {
+    if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
   };
 
-  ws.onerror = (event) => {
-    runClientUnscoped(
-      clientLog(
-        "error",
-        `[POKE DEBUG] WebSocket error. Event: ${JSON.stringify(event)}`,
-        undefined,
-        "Replicache:WS",
-      ),
-    );
+  const sendPresence = () => {
+    if (!isReady) return;
+    send({ type: "presence", device, ...localPresence.value });
   };
 
-  ws.onmessage = (event) => {
-    if (event.data === "poke" && rep) {
-      void (async () => {
-        try {
-          runClientUnscoped(
-            clientLog(
-              "info",
-              "[POKE DEBUG] Poke received, awaiting rep.pull()...",
-              undefined,
-              "Replicache:WS",
-            ),
-          );
-          await rep.pull();
-          runClientUnscoped(
-            clientLog(
-              "info",
-              "[POKE DEBUG] rep.pull() completed successfully after poke.",
-              undefined,
-              "Replicache:WS",
-            ),
-          );
-        } catch (e) {
-          runClientUnscoped(
-            clientLog(
-              "error",
-              `[POKE DEBUG] Error executing pull after poke:`,
-              toError(e),
-            ),
-          );
-        }
-      })();
-    } else if (event.data === '{"error":"authentication_failed"}') {
-      ws.close(1008, "Authentication failed");
+  const pull = (reason: string) => {
+    rep.pull().catch((e: unknown) => {
       runClientUnscoped(
-        clientLog("error", "WebSocket closed due to authentication failure."),
+        clientLog(
+          "error",
+          `Error executing pull after ${reason}:`,
+          toError(e),
+          "Replicache:WS",
+        ),
       );
+    });
+  };
+
+  const stopHeartbeat = () => {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = undefined;
+  };
+
+  const startHeartbeat = () => {
+    stopHeartbeat();
+    heartbeatTimer = setInterval(() => {
+      if (Date.now() - lastMessageAt > SOCKET_IDLE_TIMEOUT_MS) {
+        log("warn", "No message from server within timeout; reconnecting.");
+        ws?.close();
+        return;
+      }
+      send({ type: "ping" });
+    }, SOCKET_HEARTBEAT_INTERVAL_MS);
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimer !== undefined) return;
+    connectionState.value = "reconnecting";
+    const delay = reconnectDelay(attempt);
+    attempt += 1;
+    log("info", `Reconnecting in ${Math.round(delay)}ms (attempt ${attempt}).`);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      void connect();
+    }, delay);
+  };
+
+  const handleMessage = (message: ServerSocketMessage) => {
+    switch (message.type) {
+      case "ready":
+        connectionState.value = "connected";
+        isReady = true;
+        attempt = 0;
+        sendPresence();
+        connectNoteDocuments(send);
+        if (hasConnected) pull("reconnect");
+        hasConnected = true;
+        return;
+      case "poke":
+        pull("poke");
+        return;
+      case "presence":
+        presenceSessions.value = message.sessions;
+        return;
+      case "doc-sync":
+      case "doc-changed":
+      case "doc-error":
+        handleNoteDocumentMessage(message);
+        return;
+      case "pong":
+        return;
+      case "error":
+        log("error", "WebSocket closed due to authentication failure.");
+        stop();
+        return;
+    }
+  };
+
+  const connect = async () => {
+    const sessionId = getCookie("session_id");
+    if (!sessionId) {
+      log("error", "No session_id cookie found for WebSocket connection.");
+      stop();
+      return;
     }
+    const clientGroupID = await rep.clientGroupID;
+    if (stopped) return;
+
+    const socket = new WebSocket(
+      `${window.location.protocol === "https:" ? "wss" : "ws"}://${
+        window.location.host
+      }/ws`,
+    );
+    ws = socket;
+
+    socket.onopen = () => {
+      lastMessageAt = Date.now();
+      send({ type: "auth", sessionId, clientGroupID });
+      startHeartbeat();
+    };
+
+    socket.onmessage = (event) => {
+      lastMessageAt = Date.now();
+      const message = parseMessage(event.data);
+      if (message) handleMessage(message);
+    };
+
+    socket.onerror = () => {
+      log("warn", "WebSocket error.");
+    };
+
+    socket.onclose = (event) => {
+      if (ws !== socket) return;
+      ws = null;
+      isReady = false;
+      disconnectNoteDocuments();
+      // Other sessions are unknown until the server reports them again.
+      presenceSessions.value = [];
+      stopHeartbeat();
+      if (event.code === SOCKET_AUTH_FAILED_CLOSE_CODE) {
+        log("error", "WebSocket closed due to authentication failure.");
+        stop();
+        return;
+      }
+      scheduleReconnect();
+    };
+  };
+
+  // The browser knows before the backoff does when the network is back.
+  const onOnline = () => {
+    if (stopped || ws !== null) return;
+    clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+    void connect();
+  };
+
+  const stop = () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+    stopHeartbeat();
+    window.removeEventListener("online", onOnline);
+    unsubscribePresence();
+    presenceSessions.value = [];
+    isReady = false;
+    disconnectNoteDocuments();
+    const socket = ws;
+    ws = null;
+    socket?.close();
+    connectionState.value = "disconnected";
   };
+
+  window.addEventListener("online", onOnline);
+  const unsubscribePresence = localPresence.subscribe(sendPresence);
+  connectionState.value = "connecting";
+  void connect();
+  return stop;
 }
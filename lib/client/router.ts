@@ -3,6 +3,9 @@ import { Effect } from "effect";
 import { TemplateResult } from "lit";
 import { NotesView } from "../../components/pages/notes-list-page";
 import { NoteDetailView } from "../../components/pages/note-detail-page";
+import { TrashView } from "../../components/pages/trash-page";
+import { TagView } from "../../components/pages/tag-page";
+import { TasksView } from "../../components/pages/tasks-page";
 import { LoginView } from "../../components/pages/login-page";
 import { SignupView } from "../../components/pages/signup-page";
 import { ProfileView } from "../../components/pages/profile-page";
@@ -70,6 +73,21 @@ const routes: Route[] = [
     view: NoteDetailView,
     meta: { requiresAuth: true, requiresPerms: [perms.note.read] },
   },
+  {
+    pattern: /^\/tags\/([^/]+)$/,
+    view: TagView,
+    meta: { requiresAuth: true, requiresPerms: [perms.note.read] },
+  },
+  {
+    pattern: /^\/tasks$/,
+    view: TasksView,
+    meta: { requiresAuth: true, requiresPerms: [perms.note.read] },
+  },
+  {
+    pattern: /^\/trash$/,
+    view: TrashView,
+    meta: { requiresAuth: true, requiresPerms: [perms.note.write] },
+  },
   { pattern: /^\/profile$/, view: ProfileView, meta: { requiresAuth: true } },
   { pattern: /^\/unauthorized$/, view: UnauthorizedView, meta: {} },
 ];
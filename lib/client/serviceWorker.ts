@@ -0,0 +1,33 @@
+// lib/client/serviceWorker.ts
+import { clientLog } from "./logger.client";
+import { runClientUnscoped } from "./runtime";
+import { toError } from "../shared/toError";
+
+/**
+ * Registers the service worker that caches the app shell for offline boots.
+ * Production only: the dev server serves modules straight from source, and
+ * a cached shell there would only get in the way.
+ */
+export const registerServiceWorker = (): void => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.register("/sw.js").then(
+    (registration) =>
+      runClientUnscoped(
+        clientLog(
+          "info",
+          `Service worker registered for ${registration.scope}`,
+          undefined,
+          "ServiceWorker",
+        ),
+      ),
+    (error: unknown) =>
+      runClientUnscoped(
+        clientLog(
+          "error",
+          `Service worker registration failed: ${toError(error).message}`,
+          undefined,
+          "ServiceWorker",
+        ),
+      ),
+  );
+};
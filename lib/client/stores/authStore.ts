@@ -17,9 +17,14 @@ import { runClientUnscoped } from "../runtime";
 import { clientLog } from "../logger.client";
 import { rep, initReplicache, nullifyReplicache } from "../replicache/index";
 import { makeIDBName, dropDatabase } from "replicache";
+import { clearNoteDocuments } from "../replicache/noteDocuments";
+import superjson from "superjson";
 import { toError } from "../../../lib/shared/toError";
+import { REPLICACHE_SCHEMA_VERSION } from "../../shared/sync";
 /* ─────────────────────────── Helpers ──────────────────────────── */
 const CLEANUP_FLAG_KEY = "life-io-db-cleanup-pending";
+/** The last user the server confirmed, so the app can boot offline. */
+const LAST_USER_KEY = "life-io-last-user";
 const expireCookieEffect = (name: string): Effect.Effect<void> =>
   Effect.gen(function* () {
     yield* clientLog(
@@ -88,6 +93,25 @@ const clearCleanupFlag = (): Effect.Effect<void> =>
       ),
     ),
   );
+/** Remembers a confirmed user (superjson keeps its dates intact). */
+const rememberUser = (user: User): Effect.Effect<void> =>
+  Effect.sync(() => {
+    localStorage.setItem(LAST_USER_KEY, superjson.stringify(user));
+  });
+const forgetUser = (): Effect.Effect<void> =>
+  Effect.sync(() => {
+    localStorage.removeItem(LAST_USER_KEY);
+  });
+const getRememberedUser = (): Effect.Effect<Option.Option<User>> =>
+  Effect.sync(() => {
+    const stored = localStorage.getItem(LAST_USER_KEY);
+    return stored === null
+      ? Option.none()
+      : Option.some(superjson.parse<User>(stored));
+  }).pipe(
+    // A corrupt entry is as good as none; the server decides.
+    Effect.catchAllDefect(() => Effect.succeed(Option.none<User>())),
+  );
 /** Reads the user ID from the cleanup flag, if it exists.
  */
 const getPendingCleanupUserId = (): Effect.Effect<Option.Option<UserId>> =>
@@ -107,7 +131,7 @@ const performLocalDbCleanup = (userId: UserId): Effect.Effect<void, Error> =>
       "authStore:durableCleanup",
     );
     const logicalName = `life-io-user-${userId}`;
-    const idbName = makeIDBName(logicalName);
+    const idbName = makeIDBName(logicalName, REPLICACHE_SCHEMA_VERSION);
 
     if (rep && rep.name === logicalName) {
       yield* clientLog(
@@ -134,6 +158,13 @@ const performLocalDbCleanup = (userId: UserId): Effect.Effect<void, Error> =>
       "authStore:durableCleanup",
     );
     yield* Effect.promise(() => dropDatabase("replicache-dbs-v0"));
+    yield* clientLog(
+      "info",
+      `Deleting note documents kept for "${logicalName}"`,
+      userId,
+      "authStore:durableCleanup",
+    );
+    yield* Effect.promise(() => clearNoteDocuments(logicalName));
     yield* clientLog(
       "info",
       "Local DB cleanup successful.",
@@ -180,6 +211,11 @@ export interface AuthModel {
     | "authenticating"
     | "authenticated";
   user: User | null;
+  /**
+   * False while running on the remembered user, until the server has
+   * confirmed the session (it may be unreachable for a while).
+   */
+  sessionVerified: boolean;
 }
 
 class AuthCheckError extends Data.TaggedError("AuthCheckError")<{
@@ -188,39 +224,112 @@ class AuthCheckError extends Data.TaggedError("AuthCheckError")<{
 
 type AuthAction =
   | { type: "AUTH_CHECK_START" }
+  | { type: "AUTH_RESTORED"; payload: User }
   | { type: "AUTH_CHECK_SUCCESS"; payload: User }
   | { type: "AUTH_CHECK_FAILURE"; payload: AuthCheckError }
+  | { type: "AUTH_CHECK_UNREACHABLE"; payload: AuthCheckError }
+  | { type: "AUTH_REVALIDATE" }
   | { type: "LOGOUT_START" }
   | { type: "LOGOUT_SUCCESS" }
   | { type: "SET_AUTHENTICATED"; payload: User };
 const _authStateRef = Ref.unsafeMake<AuthModel>({
   status: "initializing",
   user: null,
+  sessionVerified: false,
 });
 const _actionQueue = Effect.runSync(Queue.unbounded<AuthAction>());
 export const authState = signal<AuthModel>({
   status: "initializing",
   user: null,
+  sessionVerified: false,
 });
 const update = (model: AuthModel, action: AuthAction): AuthModel => {
   switch (action.type) {
     case "AUTH_CHECK_START":
       return { ...model, status: "authenticating" };
+    case "AUTH_RESTORED":
+      return {
+        status: "authenticated",
+        user: action.payload,
+        sessionVerified: false,
+      };
     case "AUTH_CHECK_SUCCESS":
-      return { status: "authenticated", user: action.payload };
+      return {
+        status: "authenticated",
+        user: action.payload,
+        sessionVerified: true,
+      };
     case "AUTH_CHECK_FAILURE":
-      return { status: "unauthenticated", user: null };
+      return { status: "unauthenticated", user: null, sessionVerified: false };
     case "LOGOUT_START":
       return { ...model, status: "authenticating" };
     case "LOGOUT_SUCCESS":
-      return { status: "unauthenticated", user: null };
+      return { status: "unauthenticated", user: null, sessionVerified: false };
     case "SET_AUTHENTICATED":
-      return { status: "authenticated", user: action.payload };
+      return {
+        status: "authenticated",
+        user: action.payload,
+        sessionVerified: true,
+      };
     default:
       return model;
   }
 };
 
+/**
+ * Asks the server who the session belongs to. When the app is already
+ * running on a remembered user, only an explicit "no user" signs it out;
+ * failing to get an answer at all leaves it running offline.
+ */
+/**
+ * Records the browser's time zone for the user when it is not the one the
+ * server has, so the server dates things as they would. Best effort: the
+ * server falls back to UTC without it.
+ */
+const recordTimeZone = (user: User): Effect.Effect<void> => {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (timeZone === user.timezone) return Effect.void;
+  return Effect.tryPromise(() =>
+    trpc.auth.setTimeZone.mutate({ timeZone }),
+  ).pipe(
+    Effect.catchAll((err) =>
+      clientLog(
+        "warn",
+        `Could not record the time zone: ${toError(err).message}`,
+        user.id,
+        "authStore",
+      ),
+    ),
+  );
+};
+
+const checkSession = (hasFallback: boolean): Effect.Effect<void> =>
+  pipe(
+    Effect.tryPromise({
+      try: () => trpc.auth.me.mutate(),
+      catch: (cause) => new AuthCheckError({ cause }),
+    }),
+    Effect.match({
+      onSuccess: (user) => {
+        if (user) {
+          proposeAuthAction({ type: "AUTH_CHECK_SUCCESS", payload: user });
+        } else {
+          proposeAuthAction({
+            type: "AUTH_CHECK_FAILURE",
+            payload: new AuthCheckError({ cause: "No user returned" }),
+          });
+        }
+      },
+      onFailure: (error) => {
+        proposeAuthAction(
+          hasFallback
+            ? { type: "AUTH_CHECK_UNREACHABLE", payload: error }
+            : { type: "AUTH_CHECK_FAILURE", payload: error },
+        );
+      },
+    }),
+  );
+
 const handleAuthAction = (action: AuthAction): Effect.Effect<void, never> =>
   Effect.gen(function* () {
     const currentModel = yield* Ref.get(_authStateRef);
@@ -231,47 +340,71 @@ const handleAuthAction = (action: AuthAction): Effect.Effect<void, never> =>
     });
 
     switch (action.type) {
+      case "AUTH_RESTORED": {
+        yield* clientLog(
+          "info",
+          "Booting on the remembered user while the session is checked.",
+          action.payload.id,
+          "authStore",
+        );
+        yield* initReplicache(action.payload.id);
+        break;
+      }
       case "AUTH_CHECK_SUCCESS": {
         yield* clientLog(
           "info",
           "Auth check success. Initializing Replicache.",
           action.payload.id,
         );
+        yield* rememberUser(action.payload);
+        // A no-op when already booted on the remembered user.
         yield* initReplicache(action.payload.id);
+        yield* Effect.fork(recordTimeZone(action.payload));
         break;
       }
       case "AUTH_CHECK_START": {
         const authCheckEffect = pipe(
           clientLog("info", "Starting auth check...", undefined, "authStore"),
           Effect.andThen(checkAndRunPendingCleanup()),
-          Effect.andThen(() =>
-            Effect.tryPromise({
-              try: () => trpc.auth.me.mutate(),
-              catch: (cause) => new AuthCheckError({ cause }),
+          Effect.andThen(getRememberedUser()),
+          Effect.tap((remembered) =>
+            Option.match(remembered, {
+              onNone: () => Effect.void,
+              onSome: (user) =>
+                Effect.sync(() =>
+                  proposeAuthAction({ type: "AUTH_RESTORED", payload: user }),
+                ),
             }),
           ),
-          Effect.match({
-            onSuccess: (user) => {
-              if (user) {
-                proposeAuthAction({
-                  type: "AUTH_CHECK_SUCCESS",
-                  payload: user,
-                });
-              } else {
-                proposeAuthAction({
-                  type: "AUTH_CHECK_FAILURE",
-                  payload: new AuthCheckError({ cause: "No user returned" }),
-                });
-              }
-            },
-            onFailure: (error) => {
-              proposeAuthAction({ type: "AUTH_CHECK_FAILURE", payload: error });
-            },
-          }),
+          Effect.flatMap((remembered) =>
+            checkSession(Option.isSome(remembered)),
+          ),
         );
         yield* Effect.fork(authCheckEffect);
         break;
       }
+      case "AUTH_REVALIDATE": {
+        if (currentModel.status !== "authenticated") break;
+        yield* clientLog(
+          "info",
+          "Back online. Revalidating the session.",
+          currentModel.user?.id,
+          "authStore",
+        );
+        yield* Effect.fork(checkSession(true));
+        break;
+      }
+      case "AUTH_CHECK_UNREACHABLE": {
+        yield* clientLog(
+          "warn",
+          `Could not reach the server to check the session; staying signed in offline. Cause: ${
+            toError(action.payload.cause).message
+          }`,
+          currentModel.user?.id,
+          "authStore",
+        );
+        break;
+      }
       case "AUTH_CHECK_FAILURE": {
         yield* clientLog(
           "info",
@@ -279,6 +412,14 @@ const handleAuthAction = (action: AuthAction): Effect.Effect<void, never> =>
           undefined,
           "authStore",
         );
+        yield* forgetUser();
+        // The server rejected a session we had booted on. The local data is
+        // kept: queued mutations go out once the same user signs back in.
+        if (rep) {
+          const closing = rep;
+          yield* nullifyReplicache();
+          yield* Effect.promise(() => closing.close());
+        }
         break;
       }
       case "LOGOUT_START": {
@@ -334,6 +475,7 @@ const handleAuthAction = (action: AuthAction): Effect.Effect<void, never> =>
             ),
           ),
         );
+        yield* forgetUser();
         // Fork the entire robust logout process.
         yield* Effect.fork(fullLogoutProcess);
 
@@ -369,6 +511,7 @@ const handleAuthAction = (action: AuthAction): Effect.Effect<void, never> =>
           "User set to authenticated. Initializing Replicache.",
           action.payload.id,
         );
+        yield* rememberUser(action.payload);
         yield* initReplicache(action.payload.id);
         break;
       }
@@ -384,3 +527,8 @@ export const proposeAuthAction = (action: AuthAction): void => {
 };
 
 proposeAuthAction({ type: "AUTH_CHECK_START" });
+window.addEventListener("online", () => {
+  if (!authState.value.sessionVerified) {
+    proposeAuthAction({ type: "AUTH_REVALIDATE" });
+  }
+});
@@ -0,0 +1,18 @@
+// FILE: lib/client/stores/connectionStore.ts
+import { signal } from "@preact/signals-core";
+
+/**
+ * - `connecting`: the first socket for this session is being opened.
+ * - `connected`: authenticated and receiving pokes.
+ * - `reconnecting`: the socket dropped and a retry is scheduled or running.
+ * - `disconnected`: closed on purpose (logout, failed authentication); no
+ *   retry will happen.
+ */
+export type ConnectionState =
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "disconnected";
+
+/** State of the `/ws` connection that delivers pokes. */
+export const connectionState = signal<ConnectionState>("disconnected");
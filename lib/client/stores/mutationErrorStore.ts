@@ -0,0 +1,74 @@
+// FILE: lib/client/stores/mutationErrorStore.ts
+import { signal } from "@preact/signals-core";
+import { Effect } from "effect";
+import type { Replicache } from "replicache";
+import { trpc } from "../trpc";
+import { clientLog } from "../logger.client";
+import { toError } from "../../shared/toError";
+import type { Mutators } from "../replicache/types";
+import type { RejectedMutation } from "../../../replicache/server";
+
+export type { RejectedMutation };
+
+/** Mutations from this client group that the server refused to apply. */
+export const mutationErrors = signal<readonly RejectedMutation[]>([]);
+
+/**
+ * Asks the server which of this client group's mutations were rejected.
+ * Called after every push the server took, since a rejection is only
+ * visible once the push carrying it has completed.
+ */
+export const refreshMutationErrors = (
+  rep: Replicache<Mutators>,
+): Effect.Effect<void> =>
+  Effect.gen(function* () {
+    const clientGroupID = yield* Effect.promise(() => rep.clientGroupID);
+    const errors = yield* Effect.tryPromise(() =>
+      trpc.replicache.mutationErrors.query({ clientGroupID }),
+    );
+    yield* Effect.sync(() => {
+      mutationErrors.value = errors;
+    });
+  }).pipe(
+    Effect.catchAll((err) =>
+      clientLog(
+        "warn",
+        `Could not fetch rejected mutations: ${toError(err).message}`,
+        undefined,
+        "MutationErrors:refresh",
+      ),
+    ),
+  );
+
+export const dismissMutationError = (id: string): Effect.Effect<void> =>
+  Effect.gen(function* () {
+    yield* Effect.sync(() => {
+      mutationErrors.value = mutationErrors.value.filter((e) => e.id !== id);
+    });
+    yield* Effect.tryPromise(() =>
+      trpc.replicache.dismissMutationError.mutate({ id }),
+    );
+  }).pipe(
+    Effect.catchAll((err) =>
+      clientLog(
+        "warn",
+        `Could not dismiss rejected mutation ${id}: ${toError(err).message}`,
+        undefined,
+        "MutationErrors:dismiss",
+      ),
+    ),
+  );
+
+/**
+ * The text the user typed into a rejected mutation, or `null` when the
+ * mutation carried none (e.g. deleting a note).
+ */
+export const lostContentOf = (error: RejectedMutation): string | null => {
+  const args = error.args;
+  if (typeof args !== "object" || args === null) return null;
+  const { title, content } = args as { title?: unknown; content?: unknown };
+  const parts = [title, content].filter(
+    (part): part is string => typeof part === "string" && part.length > 0,
+  );
+  return parts.length > 0 ? parts.join("\n\n") : null;
+};
@@ -0,0 +1,50 @@
+// FILE: lib/client/stores/presenceStore.ts
+import { signal } from "@preact/signals-core";
+import type { PresenceSession } from "../../shared/presence";
+
+export type { PresenceSession };
+
+/** What this tab is doing, as announced to the user's other sessions. */
+export interface LocalPresence {
+  readonly noteId: string | null;
+  readonly editing: boolean;
+}
+
+/** Set by pages; the poke socket sends it whenever it changes. */
+export const localPresence = signal<LocalPresence>({
+  noteId: null,
+  editing: false,
+});
+
+/** The user's other open sessions, as last reported by the server. */
+export const presenceSessions = signal<readonly PresenceSession[]>([]);
+
+export const setLocalPresence = (next: LocalPresence): void => {
+  const current = localPresence.value;
+  if (current.noteId === next.noteId && current.editing === next.editing) {
+    return;
+  }
+  localPresence.value = next;
+};
+
+const BROWSERS: readonly [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+const PLATFORMS: readonly [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Mac OS X/, "macOS"],
+  [/Windows/, "Windows"],
+  [/Linux/, "Linux"],
+];
+
+/** A short label for this client, e.g. "Firefox on macOS". */
+export const describeDevice = (userAgent: string): string => {
+  const browser =
+    BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? "Browser";
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return platform ? `${browser} on ${platform}` : browser;
+};
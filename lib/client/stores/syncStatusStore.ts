@@ -0,0 +1,125 @@
+// FILE: lib/client/stores/syncStatusStore.ts
+import { signal } from "@preact/signals-core";
+import { Effect } from "effect";
+import type { PushRequest, Replicache } from "replicache";
+import { clientLog } from "../logger.client";
+import { runClientUnscoped } from "../runtime";
+import { toError } from "../../shared/toError";
+import type { Mutators } from "../replicache/types";
+import { unsentNoteDocuments } from "../replicache/noteDocuments";
+
+export interface SyncStatus {
+  /** False when no Replicache instance is running (e.g. logged out). */
+  readonly active: boolean;
+  /** Replicache's view: false after a push or pull failed to reach us. */
+  readonly online: boolean;
+  readonly syncing: boolean;
+  /**
+   * Local mutations not yet pushed to the server, and note documents with
+   * edits not yet sent: what leaving the page now would lose.
+   */
+  readonly unsavedChanges: number;
+  /** Mutations the server has taken, not yet confirmed by a pull. */
+  readonly unconfirmedChanges: number;
+  readonly lastPulledAt: Date | null;
+}
+
+const INACTIVE: SyncStatus = {
+  active: false,
+  online: true,
+  syncing: false,
+  unsavedChanges: 0,
+  unconfirmedChanges: 0,
+  lastPulledAt: null,
+};
+
+export const syncStatus = signal<SyncStatus>(INACTIVE);
+
+const update = (patch: Partial<SyncStatus>) => {
+  syncStatus.value = { ...syncStatus.value, ...patch };
+};
+
+/** Called by the puller after a pull got a response from the server. */
+export const recordSuccessfulPull = (): void => {
+  update({ lastPulledAt: new Date() });
+};
+
+/** The last mutation ID the server has taken, per client. */
+const pushedThrough = new Map<string, number>();
+
+/** Called by the pusher after the server took a push. */
+export const recordSuccessfulPush = (request: PushRequest): void => {
+  if (request.pushVersion !== 1) return;
+  for (const { clientID, id } of request.mutations) {
+    pushedThrough.set(clientID, Math.max(pushedThrough.get(clientID) ?? 0, id));
+  }
+};
+
+/** Replicache's part of `unsavedChanges`, as last counted. */
+let replicacheUnsaved = 0;
+
+const updateUnsavedChanges = () =>
+  update({
+    unsavedChanges: replicacheUnsaved + unsentNoteDocuments.value.size,
+  });
+
+const refreshPendingMutations = (
+  rep: Replicache<Mutators>,
+): Effect.Effect<void> =>
+  Effect.tryPromise(() => rep.experimentalPendingMutations()).pipe(
+    Effect.andThen((pending) =>
+      Effect.sync(() => {
+        const unconfirmed = pending.filter(
+          ({ clientID, id }) => id <= (pushedThrough.get(clientID) ?? 0),
+        ).length;
+        replicacheUnsaved = pending.length - unconfirmed;
+        update({
+          unsavedChanges: replicacheUnsaved + unsentNoteDocuments.value.size,
+          unconfirmedChanges: unconfirmed,
+        });
+      }),
+    ),
+    Effect.catchAll((err) =>
+      clientLog(
+        "warn",
+        `Could not count pending mutations: ${toError(err).message}`,
+        undefined,
+        "SyncStatus:pending",
+      ),
+    ),
+  );
+
+/** Forwarded from `rep.onSync`, which `initReplicache` owns. */
+export const setSyncing = (
+  rep: Replicache<Mutators>,
+  syncing: boolean,
+): Effect.Effect<void> =>
+  Effect.sync(() => update({ syncing })).pipe(
+    Effect.andThen(refreshPendingMutations(rep)),
+  );
+
+/**
+ * Starts reflecting `rep` in `syncStatus`. The pending counts are refreshed on
+ * every change to the local store, which covers both new local mutations and
+ * pulls that confirm them, and whenever a note document's edits are kept or
+ * sent. Returns a function that stops tracking.
+ */
+export const trackSyncStatus = (rep: Replicache<Mutators>): (() => void) => {
+  syncStatus.value = { ...INACTIVE, active: true, online: rep.online };
+  replicacheUnsaved = 0;
+  pushedThrough.clear();
+  rep.onOnlineChange = (online) => update({ online });
+  const unwatch = rep.experimentalWatch(() => {
+    runClientUnscoped(refreshPendingMutations(rep));
+  });
+  const unsubscribeDocuments =
+    unsentNoteDocuments.subscribe(updateUnsavedChanges);
+  runClientUnscoped(refreshPendingMutations(rep));
+
+  return () => {
+    unwatch();
+    unsubscribeDocuments();
+    rep.onOnlineChange = null;
+    syncStatus.value = INACTIVE;
+  };
+};
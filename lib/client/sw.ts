@@ -0,0 +1,140 @@
+// lib/client/sw.ts
+//
+// The service worker, built to `/sw.js` (see vite.config.ts). It keeps the
+// built app shell (index.html and the bundles it references) in a cache so
+// the app boots with no network; the notes themselves come from Replicache's
+// IndexedDB. API calls and the poke socket are never touched.
+
+export {};
+
+// The DOM lib has no service worker types, and pulling in `webworker` would
+// clash with it for the rest of the program; these are the parts used here.
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  readonly request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface WorkerScope {
+  readonly registration: { readonly scope: string };
+  readonly clients: { claim(): Promise<void> };
+  skipWaiting(): Promise<void>;
+  addEventListener(
+    type: "install" | "activate",
+    listener: (event: ExtendableEvent) => void,
+  ): void;
+  addEventListener(type: "fetch", listener: (event: FetchEvent) => void): void;
+}
+
+const worker = self as unknown as WorkerScope;
+
+const CACHE_PREFIX = "life-io-shell-";
+const CACHE_NAME = `${CACHE_PREFIX}v1`;
+
+/** Every route renders the same document, so it is cached under one key. */
+const SHELL_URL = new URL("/", worker.registration.scope).href;
+
+const isAsset = (url: URL) => url.pathname.startsWith("/assets/");
+
+/** The same-origin scripts and stylesheets an index.html loads. */
+const shellAssets = (html: string): string[] =>
+  [...html.matchAll(/(?:src|href)="([^"]+)"/g)]
+    .map(([, path]) => new URL(path, SHELL_URL))
+    .filter((url) => url.origin === location.origin && isAsset(url))
+    .map((url) => url.href);
+
+/**
+ * Stores a freshly fetched index.html along with its assets. Assets are
+ * content-hashed, so ones already cached are kept and ones the new document
+ * no longer references are dropped.
+ */
+const cacheShell = async (response: Response) => {
+  const cache = await caches.open(CACHE_NAME);
+  const assets = shellAssets(await response.clone().text());
+  const cached = await cache.keys();
+  const missing = assets.filter(
+    (asset) => !cached.some((request) => request.url === asset),
+  );
+  await cache.addAll(missing);
+  await cache.put(SHELL_URL, response);
+  await Promise.all(
+    cached
+      .filter(
+        (request) => request.url !== SHELL_URL && !assets.includes(request.url),
+      )
+      .map((request) => cache.delete(request)),
+  );
+};
+
+worker.addEventListener("install", (event) => {
+  event.waitUntil(
+    fetch(SHELL_URL, { cache: "reload" })
+      .then((response) => {
+        if (!response.ok) throw new Error(`Shell fetch: ${response.status}`);
+        return cacheShell(response);
+      })
+      .then(() => worker.skipWaiting()),
+  );
+});
+
+worker.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME,
+            )
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => worker.clients.claim()),
+  );
+});
+
+/** Network first, so a deploy is picked up on the next load while online. */
+const handleNavigation = async (request: Request): Promise<Response> => {
+  try {
+    const response = await fetch(request);
+    if (response.ok && response.headers.get("Content-Type")?.includes("html")) {
+      // Keeping the cache current must not hold up the page.
+      cacheShell(response.clone()).catch(() => undefined);
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(SHELL_URL);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+/** Hashed assets never change under the same URL: cache first. */
+const handleAsset = async (request: Request): Promise<Response> => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+worker.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== location.origin) return;
+  if (url.pathname.startsWith("/api/") || url.pathname === "/ws") return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  } else if (isAsset(url)) {
+    event.respondWith(handleAsset(request));
+  }
+});
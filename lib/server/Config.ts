@@ -50,6 +50,17 @@ const AppInfoConfig = EffectConfig.all({
   ),
 });
 
+/**
+ * Tuning for the Replicache garbage collection job. Read on its own (not part
+ * of the `Config` service) because the job runs outside any request layer.
+ */
+export const ReplicacheGcConfig = EffectConfig.all({
+  clientGroupMaxInactiveDays: pipe(
+    EffectConfig.integer("REPLICACHE_CLIENT_GROUP_MAX_INACTIVE_DAYS"),
+    EffectConfig.withDefault(30),
+  ),
+});
+
 // --- Unified Config Service ---
 
 const AppConfigObject = EffectConfig.all({
@@ -1,8 +1,27 @@
 // FILE: lib/server/PokeService.ts
 
-import { Context, Effect, Layer, PubSub, Stream, Console, Ref } from "effect";
+import {
+  Context,
+  Data,
+  Duration,
+  Effect,
+  Layer,
+  Option,
+  PubSub,
+  Schedule,
+  Stream,
+  Console,
+  Ref,
+} from "effect";
+import { Client, type Notification } from "@neondatabase/serverless";
+import { sql } from "kysely";
+import { Schema } from "@effect/schema";
 import { serverLog } from "./logger.server";
+import { Config } from "./Config";
+import { Db } from "../../db/DbTag";
 import type { UserId } from "../../types/generated/public/User";
+import type { PokeLogId } from "../../types/generated/public/PokeLog";
+import type { PokeMessage } from "../shared/poke";
 
 /**
  * The service definition and Tag remain unchanged.
@@ -12,50 +31,372 @@ import type { UserId } from "../../types/generated/public/User";
 export class PokeService extends Context.Tag("PokeService")<
   PokeService,
   {
-    readonly poke: (userId: UserId) => Effect.Effect<void>;
-    readonly subscribe: (userId: UserId) => Stream.Stream<string>;
+    readonly poke: (
+      userId: UserId,
+      details?: PokeDetails,
+    ) => Effect.Effect<void>;
+    readonly subscribe: (userId: UserId) => Stream.Stream<PokeMessage>;
   }
 >() {}
 
+/** What a caller knows about the change it is poking for. */
+export interface PokeDetails {
+  /** The client group whose push made the change, if any. */
+  readonly clientGroupID?: string;
+  /** Replicache keys that were written. Omit when unknown. */
+  readonly keys?: readonly string[];
+}
+
+class PokeListenerError extends Data.TaggedError("PokeListenerError")<{
+  readonly cause: unknown;
+}> {}
+
+/** Postgres channel every server instance LISTENs on. */
+const POKE_CHANNEL = "poke";
+
+/** How often `poke_log` is polled while the LISTEN connection is down. */
+const FALLBACK_POLL_INTERVAL = Duration.seconds(2);
+
+/** Pokes for the same user within this window go out as one message. */
+const POKE_COALESCE_WINDOW = Duration.millis(100);
+
+/**
+ * Above this many keys a poke is sent without them; NOTIFY payloads are
+ * limited to 8000 bytes.
+ */
+const MAX_POKE_KEYS = 100;
+
+const PokeMessageSchema = Schema.Struct({
+  type: Schema.Literal("poke"),
+  clientGroupID: Schema.NullOr(Schema.String),
+  keys: Schema.NullOr(Schema.Array(Schema.String)),
+});
+
+/** Sent in place of a logged row's payload when it is missing or invalid. */
+const UNSPECIFIED_POKE: PokeMessage = {
+  type: "poke",
+  clientGroupID: null,
+  keys: null,
+};
+
+const decodePokeMessage = (value: unknown): PokeMessage =>
+  Option.getOrElse(
+    Schema.decodeUnknownOption(PokeMessageSchema)(value),
+    () => UNSPECIFIED_POKE,
+  );
+
+interface PokeNotification {
+  readonly id: string;
+  readonly userId: UserId;
+  readonly message: PokeMessage;
+}
+
+const parseNotification = (
+  payload: string | undefined,
+): PokeNotification | null => {
+  try {
+    const parsed: unknown = JSON.parse(payload ?? "");
+    if (
+      typeof parsed === "object" &&
+      parsed !== null &&
+      "id" in parsed &&
+      "userId" in parsed &&
+      typeof parsed.userId === "string"
+    ) {
+      return {
+        id: String(parsed.id),
+        userId: parsed.userId as UserId,
+        message: decodePokeMessage("message" in parsed ? parsed.message : null),
+      };
+    }
+  } catch {
+    // Fall through: a malformed payload is logged by the caller.
+  }
+  return null;
+};
+
+/** Pokes for one user that are waiting out the coalescing window. */
+interface PendingPoke {
+  readonly clientGroupIDs: Set<string | null>;
+  keys: Set<string> | null;
+}
+
+const mergeKeys = (
+  keys: Set<string> | null,
+  added: readonly string[] | undefined,
+): Set<string> | null => {
+  if (keys === null || added === undefined) return null;
+  for (const key of added) keys.add(key);
+  return keys.size > MAX_POKE_KEYS ? null : keys;
+};
+
 /**
  * The live implementation of the PokeService.
+ *
+ * Pokes for a user are coalesced for `POKE_COALESCE_WINDOW`, then written to
+ * `poke_log` and announced with `pg_notify` in the same statement, so they
+ * reach every instance, not only the one that handled the write. Each
+ * instance holds a dedicated LISTEN connection and fans notifications out
+ * to its local per-user PubSubs. While that connection is down (and it is
+ * retried with backoff), the instance polls `poke_log` for rows past the last
+ * id it delivered instead.
  */
 export const PokeServiceLive = Layer.scoped(
   PokeService,
   Effect.gen(function* () {
-    // This stateful part is the same
+    const db = yield* Db;
+    const config = yield* Config;
+
+    const scope = yield* Effect.scope;
     const userPubSubs = yield* Ref.make(
-      new Map<UserId, PubSub.PubSub<string>>(),
+      new Map<UserId, PubSub.PubSub<PokeMessage>>(),
     );
+    const pendingPokes = yield* Ref.make(new Map<UserId, PendingPoke>());
+    const lastSeenId = yield* Ref.make(0n);
+    const isListening = yield* Ref.make(false);
 
     yield* Console.log(
       "INFO: Singleton PokeService created. [Context: PokeService:Lifecycle]",
     );
 
-    // The implementation logic is also the same
-    const poke = (userId: UserId) =>
+    /** Delivers a poke to this instance's sockets for `userId`. */
+    const deliver = ({ id, userId, message }: PokeNotification) =>
       Effect.gen(function* () {
-        yield* serverLog(
-          "info",
-          { userId },
-          "PokeService.poke() called.",
-          "PokeService:poke",
+        yield* Ref.update(lastSeenId, (last) =>
+          BigInt(id) > last ? BigInt(id) : last,
         );
-        const pubSubsMap = yield* Ref.get(userPubSubs);
-        const userPubSub = pubSubsMap.get(userId);
+        const userPubSub = (yield* Ref.get(userPubSubs)).get(userId);
 
         if (userPubSub) {
-          yield* PubSub.publish(userPubSub, "poke");
+          yield* PubSub.publish(userPubSub, message);
         } else {
           yield* serverLog(
             "debug",
             { userId },
             "No active poke subscriptions. Poke ignored.",
-            "PokeService:poke",
+            "PokeService:deliver",
           );
         }
       });
 
+    /** Logs and NOTIFYs everything gathered for `userId` in one message. */
+    const flush = (userId: UserId) =>
+      Effect.gen(function* () {
+        const pending = yield* Ref.modify(pendingPokes, (map) => {
+          const entry = map.get(userId);
+          map.delete(userId);
+          return [entry, map];
+        });
+        if (!pending) return;
+
+        const [onlyGroup] = pending.clientGroupIDs;
+        const message: PokeMessage = {
+          type: "poke",
+          clientGroupID:
+            pending.clientGroupIDs.size === 1 ? (onlyGroup ?? null) : null,
+          keys: pending.keys === null ? null : [...pending.keys],
+        };
+        yield* Effect.tryPromise(() =>
+          sql`
+            WITH logged AS (
+              INSERT INTO poke_log (user_id, payload)
+              VALUES (${userId}, ${JSON.stringify(message)}::jsonb)
+              RETURNING id, user_id, payload
+            )
+            SELECT pg_notify(
+              ${POKE_CHANNEL},
+              json_build_object(
+                'id', logged.id,
+                'userId', logged.user_id,
+                'message', logged.payload
+              )::text
+            )
+            FROM logged
+          `.execute(db),
+        );
+      }).pipe(
+        // A lost poke only delays sync until the next pull interval, so it
+        // must never surface as an error.
+        Effect.catchAll((error) =>
+          serverLog(
+            "error",
+            { userId, error },
+            "Failed to publish poke",
+            "PokeService:flush",
+          ),
+        ),
+      );
+
+    const poke = (userId: UserId, details: PokeDetails = {}) =>
+      Effect.gen(function* () {
+        yield* serverLog(
+          "info",
+          { userId, ...details },
+          "PokeService.poke() called.",
+          "PokeService:poke",
+        );
+        const clientGroupID = details.clientGroupID ?? null;
+        const startsWindow = yield* Ref.modify(pendingPokes, (map) => {
+          const pending = map.get(userId);
+          if (pending) {
+            pending.clientGroupIDs.add(clientGroupID);
+            pending.keys = mergeKeys(pending.keys, details.keys);
+            return [false, map];
+          }
+          map.set(userId, {
+            clientGroupIDs: new Set([clientGroupID]),
+            keys: mergeKeys(new Set(), details.keys),
+          });
+          return [true, map];
+        });
+        // The flush outlives the request that poked, so it runs in the
+        // service's own scope.
+        if (startsWindow) {
+          yield* Effect.forkIn(
+            Effect.delay(flush(userId), POKE_COALESCE_WINDOW),
+            scope,
+          );
+        }
+      });
+
+    /** Delivers every logged poke this instance has not seen yet. */
+    const catchUp = Effect.gen(function* () {
+      const since = yield* Ref.get(lastSeenId);
+      const missed = yield* Effect.tryPromise(() =>
+        db
+          .selectFrom("poke_log")
+          .select(["id", "user_id", "payload"])
+          .where("id", ">", String(since) as PokeLogId)
+          .orderBy("id")
+          .execute(),
+      );
+      yield* Effect.forEach(missed, (row) =>
+        deliver({
+          id: row.id,
+          userId: row.user_id as UserId,
+          message: decodePokeMessage(row.payload),
+        }),
+      );
+    });
+
+    /**
+     * Holds one LISTEN connection open until it drops, then fails so the
+     * caller can retry.
+     */
+    const listenOnce = Effect.gen(function* () {
+      const client = yield* Effect.acquireRelease(
+        Effect.tryPromise({
+          try: async () => {
+            const client = new Client({
+              connectionString: config.neon.connectionString,
+            });
+            await client.connect();
+            return client;
+          },
+          catch: (cause) => new PokeListenerError({ cause }),
+        }),
+        (client) => Effect.promise(() => client.end()).pipe(Effect.ignore),
+      );
+
+      return yield* Effect.async<never, PokeListenerError>((resume) => {
+        client.on("notification", (message: Notification) => {
+          const notification = parseNotification(message.payload);
+          if (notification) {
+            Effect.runFork(deliver(notification));
+          } else {
+            Effect.runFork(
+              serverLog(
+                "warn",
+                { payload: message.payload },
+                "Ignoring malformed poke notification",
+                "PokeService:listen",
+              ),
+            );
+          }
+        });
+        client.on("error", (cause) =>
+          resume(Effect.fail(new PokeListenerError({ cause }))),
+        );
+        client.on("end", () =>
+          resume(
+            Effect.fail(new PokeListenerError({ cause: "Connection ended" })),
+          ),
+        );
+
+        client
+          .query(`LISTEN ${POKE_CHANNEL}`)
+          .then(() =>
+            Effect.runFork(
+              // Anything logged before LISTEN took effect would be missed.
+              catchUp.pipe(
+                Effect.ignore,
+                Effect.andThen(Ref.set(isListening, true)),
+                Effect.andThen(
+                  serverLog(
+                    "info",
+                    {},
+                    "Listening for pokes.",
+                    "PokeService:listen",
+                  ),
+                ),
+              ),
+            ),
+          )
+          .catch((cause: unknown) =>
+            resume(Effect.fail(new PokeListenerError({ cause }))),
+          );
+      });
+    }).pipe(
+      Effect.scoped,
+      Effect.tapError((error) =>
+        Ref.set(isListening, false).pipe(
+          Effect.andThen(
+            serverLog(
+              "warn",
+              { error },
+              "Poke listener disconnected; polling poke_log until it is back.",
+              "PokeService:listen",
+            ),
+          ),
+        ),
+      ),
+    );
+
+    // Start from the current end of the log; earlier pokes are stale.
+    const latest = yield* Effect.tryPromise(() =>
+      db
+        .selectFrom("poke_log")
+        .select((eb) => eb.fn.max("id").as("id"))
+        .executeTakeFirst(),
+    ).pipe(Effect.orElseSucceed(() => undefined));
+    yield* Ref.set(lastSeenId, BigInt(latest?.id ?? 0));
+
+    yield* Effect.forkScoped(
+      listenOnce.pipe(
+        Effect.retry(
+          Schedule.exponential(Duration.seconds(1)).pipe(
+            Schedule.union(Schedule.spaced(Duration.seconds(30))),
+          ),
+        ),
+      ),
+    );
+
+    yield* Effect.forkScoped(
+      Effect.gen(function* () {
+        if (yield* Ref.get(isListening)) return;
+        yield* catchUp.pipe(
+          Effect.catchAll((error) =>
+            serverLog(
+              "error",
+              { error },
+              "Failed to poll poke_log",
+              "PokeService:fallback",
+            ),
+          ),
+        );
+      }).pipe(Effect.repeat(Schedule.spaced(FALLBACK_POLL_INTERVAL))),
+    );
+
     const subscribe = (userId: UserId) =>
       Stream.unwrap(
         Effect.gen(function* () {
@@ -69,7 +410,7 @@ export const PokeServiceLive = Layer.scoped(
               "Creating new PubSub for user",
               "PokeService:subscribe",
             );
-            userPubSub = yield* PubSub.unbounded<string>();
+            userPubSub = yield* PubSub.unbounded<PokeMessage>();
             yield* Ref.update(userPubSubs, (map) =>
               map.set(userId, userPubSub!),
             );
@@ -0,0 +1,97 @@
+// FILE: lib/server/PresenceService.ts
+
+import { Context, Effect, Layer, PubSub, Ref, Stream } from "effect";
+import { serverLog } from "./logger.server";
+import type { UserId } from "../../types/generated/public/User";
+import type { PresenceSession } from "../shared/presence";
+
+export class PresenceService extends Context.Tag("PresenceService")<
+  PresenceService,
+  {
+    /** Records or replaces the presence of one socket. */
+    readonly update: (
+      userId: UserId,
+      session: PresenceSession,
+    ) => Effect.Effect<void>;
+    /** Drops a socket's presence; called when the socket closes. */
+    readonly leave: (
+      userId: UserId,
+      connectionId: string,
+    ) => Effect.Effect<void>;
+    /**
+     * The user's current sessions, then the full list again after every
+     * change.
+     */
+    readonly subscribe: (
+      userId: UserId,
+    ) => Stream.Stream<readonly PresenceSession[]>;
+  }
+>() {}
+
+/**
+ * The live implementation of the PresenceService.
+ *
+ * Presence lives in memory and is only shared between sockets connected to
+ * the same instance. Unlike a missed poke, a missing avatar costs nothing, and
+ * keeping it local means an instance that dies takes its sessions with it
+ * rather than leaving stale entries behind.
+ */
+export const PresenceServiceLive = Layer.effect(
+  PresenceService,
+  Effect.gen(function* () {
+    const sessionsByUser = yield* Ref.make(
+      new Map<UserId, Map<string, PresenceSession>>(),
+    );
+    const changes = yield* PubSub.unbounded<UserId>();
+
+    const snapshot = (userId: UserId) =>
+      Ref.get(sessionsByUser).pipe(
+        Effect.map((map): readonly PresenceSession[] => [
+          ...(map.get(userId)?.values() ?? []),
+        ]),
+      );
+
+    const update = (userId: UserId, session: PresenceSession) =>
+      Ref.update(sessionsByUser, (map) => {
+        const sessions = map.get(userId) ?? new Map<string, PresenceSession>();
+        sessions.set(session.connectionId, session);
+        return map.set(userId, sessions);
+      }).pipe(Effect.andThen(PubSub.publish(changes, userId)));
+
+    const leave = (userId: UserId, connectionId: string) =>
+      Effect.gen(function* () {
+        const removed = yield* Ref.modify(sessionsByUser, (map) => {
+          const sessions = map.get(userId);
+          const existed = sessions?.delete(connectionId) ?? false;
+          if (sessions?.size === 0) map.delete(userId);
+          return [existed, map];
+        });
+        if (!removed) return;
+        yield* serverLog(
+          "debug",
+          { userId, connectionId },
+          "Presence session removed",
+          "PresenceService:leave",
+        );
+        yield* PubSub.publish(changes, userId);
+      });
+
+    const subscribe = (userId: UserId) =>
+      Stream.unwrapScoped(
+        Effect.gen(function* () {
+          // Subscribe before reading the snapshot so no change falls between.
+          const queue = yield* PubSub.subscribe(changes);
+          const initial = yield* snapshot(userId);
+          return Stream.concat(
+            Stream.make(initial),
+            Stream.fromQueue(queue).pipe(
+              Stream.filter((changed) => changed === userId),
+              Stream.mapEffect(() => snapshot(userId)),
+            ),
+          );
+        }),
+      );
+
+    return PresenceService.of({ update, leave, subscribe });
+  }),
+);
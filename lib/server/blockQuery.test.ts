@@ -0,0 +1,263 @@
+// lib/server/blockQuery.test.ts
+import { describe, expect, test } from "bun:test";
+import { Either } from "effect";
+import {
+  DummyDriver,
+  Kysely,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  sql,
+} from "kysely";
+import type { Database } from "../../types";
+import type { UserId } from "../../types/generated/public/User";
+import { parseQuery, type Query } from "../shared/query";
+import {
+  queryPage,
+  selectQueryBlocks,
+  selectQueryPage,
+  sortToSql,
+  whereToSql,
+} from "./blockQuery";
+
+// Compiles queries as Postgres would get them, without a database.
+const db = new Kysely<Database>({
+  dialect: {
+    createAdapter: () => new PostgresAdapter(),
+    createDriver: () => new DummyDriver(),
+    createIntrospector: (db) => new PostgresIntrospector(db),
+    createQueryCompiler: () => new PostgresQueryCompiler(),
+  },
+});
+
+const userId = "00000000-0000-0000-0000-000000000001" as UserId;
+
+const parse = (source: string): Query => Either.getOrThrow(parseQuery(source));
+
+/** SQL on one line, so fragments can be looked for in it. */
+const flat = (compiled: { sql: string; parameters: readonly unknown[] }) => ({
+  sql: compiled.sql.replace(/\s+/g, " "),
+  parameters: compiled.parameters,
+});
+
+const compileWhere = (source: string) =>
+  flat(sql`${whereToSql(parse(source).where!)}`.compile(db));
+
+describe("parseQuery", () => {
+  test("reads every clause", () => {
+    expect(
+      parse(
+        'TABLE status, due FROM #Project WHERE status != "done" SORT due DESC, title LIMIT 20',
+      ),
+    ).toEqual({
+      view: "table",
+      columns: ["status", "due"],
+      from: "project",
+      where: {
+        kind: "compare",
+        op: "!=",
+        left: { kind: "field", name: "status" },
+        right: { kind: "literal", value: "done" },
+      },
+      sort: [
+        { field: "due", descending: true },
+        { field: "title", descending: false },
+      ],
+      limit: 20,
+    });
+  });
+
+  test("binds NOT, then comparisons, then AND, then OR", () => {
+    expect(parse("LIST WHERE a OR b AND NOT c >= 2").where).toEqual({
+      kind: "or",
+      left: { kind: "field", name: "a" },
+      right: {
+        kind: "and",
+        left: { kind: "field", name: "b" },
+        right: {
+          kind: "not",
+          expr: {
+            kind: "compare",
+            op: ">=",
+            left: { kind: "field", name: "c" },
+            right: { kind: "literal", value: 2 },
+          },
+        },
+      },
+    });
+    expect(parse("list where (a or b) and c").where).toMatchObject({
+      kind: "and",
+      left: { kind: "or" },
+    });
+  });
+
+  test("rejects malformed queries, saying where", () => {
+    const rejected: [string, string, number][] = [
+      ["", "A query starts with TABLE or LIST", 0],
+      ["SELECT everything", "A query starts with TABLE or LIST", 0],
+      ["LIST FROM project", "Expected a #tag after FROM", 10],
+      ["LIST WHERE (a = 1", 'Expected ")"', 17],
+      ["LIST WHERE a = 1 OR", "Expected a field name or a value", 19],
+      ["LIST SORT", "Expected a field name to sort by", 9],
+      ["LIST LIMIT -1", "Expected a whole number after LIMIT", 11],
+      ["LIST LIMIT 2.5", "Expected a whole number after LIMIT", 11],
+      ["LIST WHERE a = 1 b", "Unexpected text after the query", 17],
+      ['LIST WHERE a = "open', 'Unexpected """', 15],
+      ["LIST WHERE a; drop table block", 'Unexpected ";"', 12],
+    ];
+    for (const [source, message, position] of rejected) {
+      const result = parseQuery(source);
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect([result.left.message, result.left.position]).toEqual([
+          message,
+          position,
+        ]);
+      }
+    }
+  });
+});
+
+describe("whereToSql", () => {
+  test("looks fields up by lowercased name, values passed as jsonb", () => {
+    const { sql, parameters } = compileWhere('LIST WHERE Status = "Done"');
+    expect(sql).toContain("FROM jsonb_each(block.fields) AS f");
+    expect(sql).toContain('COLLATE "C") = (lower(');
+    expect(parameters).toContain("status");
+    expect(parameters).toContain('"Done"');
+    expect(parameters).not.toContain("Status");
+  });
+
+  test("falls back to the block's own content, type and done", () => {
+    expect(compileWhere('LIST WHERE content = "x"').sql).toContain(
+      "to_jsonb(block.content)",
+    );
+    expect(compileWhere('LIST WHERE type = "task"').sql).toContain(
+      "to_jsonb(block.type)",
+    );
+    expect(compileWhere("LIST WHERE done").sql).toContain(
+      "to_jsonb(block.done)",
+    );
+    expect(compileWhere("LIST WHERE due").sql).not.toContain("to_jsonb(block.");
+  });
+
+  test("compares numbers numerically when both sides read as one", () => {
+    const { sql, parameters } = compileWhere("LIST WHERE estimate <= 3");
+    expect(sql).toContain("END ) <= ( CASE");
+    expect(parameters).toContain("3");
+    expect(parameters).toContain(String.raw`^\s*-?\d+(\.\d+)?\s*$`);
+  });
+
+  test("gives missing values meaning only under (in)equality", () => {
+    expect(compileWhere("LIST WHERE due = null").sql).toContain(
+      "IS NULL AND NULL::jsonb IS NULL",
+    );
+    expect(compileWhere("LIST WHERE due != null").sql).toContain(
+      "IS NULL) <> (NULL::jsonb IS NULL)",
+    );
+    expect(compileWhere("LIST WHERE due < 3").sql).toContain("THEN false");
+  });
+
+  test("combines conditions by their truthiness", () => {
+    const { sql } = compileWhere("LIST WHERE NOT (a AND b) OR c");
+    expect(sql).toContain("to_jsonb(NOT coalesce(");
+    expect(sql).toContain(") AND coalesce(");
+    expect(sql).toContain(") OR coalesce(");
+    expect(sql).toContain(
+      `NOT IN ('false'::jsonb, '""'::jsonb, '"false"'::jsonb)`,
+    );
+  });
+
+  test("passes text as a parameter, never as SQL", () => {
+    const { sql, parameters } = compileWhere(
+      `LIST WHERE title = "'; drop table block; --"`,
+    );
+    expect(sql).not.toContain("drop table");
+    expect(parameters).toContain(`"'; drop table block; --"`);
+  });
+});
+
+describe("sortToSql", () => {
+  const compileSort = (source: string) =>
+    sortToSql(parse(source).sort).map((term) => flat(term.compile(db)).sql);
+
+  test("puts missing values last, then numbers, then text", () => {
+    const [missing, numeric, text] = compileSort("LIST SORT due");
+    expect(missing).toEndWith(") IS NULL)");
+    expect(numeric).toEndWith("ASC NULLS LAST");
+    expect(text).toEndWith('COLLATE "C") ASC');
+  });
+
+  test("reverses numbers and text when descending", () => {
+    const terms = compileSort("LIST SORT due DESC, title");
+    expect(terms).toHaveLength(6);
+    expect(terms[1]).toEndWith("DESC NULLS FIRST");
+    expect(terms[2]).toEndWith('COLLATE "C") DESC');
+    expect(terms[4]).toEndWith("ASC NULLS LAST");
+  });
+});
+
+describe("selectQueryBlocks", () => {
+  test("counts the user's blocks outside the trash", () => {
+    const { sql, parameters } = flat(
+      selectQueryBlocks(db, userId, parse("LIST"))
+        .select((eb) => eb.fn.countAll().as("count"))
+        .compile(),
+    );
+    expect(sql).toBe(
+      'select count(*) as "count" from "block" inner join "note" on "note"."id" = "block"."note_id" where "block"."user_id" = $1 and "block"."deleted_at" is null and "note"."deleted_at" is null',
+    );
+    expect(parameters).toEqual([userId]);
+  });
+
+  test("keeps blocks with the FROM tag, matched case-insensitively", () => {
+    const { sql, parameters } = flat(
+      selectQueryBlocks(db, userId, parse("LIST FROM #Project"))
+        .selectAll("block")
+        .compile(),
+    );
+    expect(sql).toContain(
+      "exists ( select 1 from unnest(block.tags) as t(tag) where lower(t.tag) = $2 )",
+    );
+    expect(parameters).toEqual([userId, "#project"]);
+  });
+});
+
+describe("selectQueryPage", () => {
+  test("orders by the SORT terms, then note and outline order", () => {
+    const { sql, parameters } = flat(
+      selectQueryPage(db, userId, parse("LIST SORT due"), 40, 20).compile(),
+    );
+    expect(sql).toStartWith('select "block".* from "block"');
+    expect(sql).toContain("IS NULL), (");
+    expect(sql).toEndWith(
+      'COLLATE "C") ASC, "block"."note_id", "block"."order" limit $10 offset $11',
+    );
+    expect(parameters.slice(-2)).toEqual([20, 40]);
+  });
+
+  test("pages in note and outline order without SORT", () => {
+    const { sql } = flat(
+      selectQueryPage(db, userId, parse("LIST"), 0, 50).compile(),
+    );
+    expect(sql).toEndWith(
+      'order by "block"."note_id", "block"."order" limit $2 offset $3',
+    );
+  });
+});
+
+describe("queryPage", () => {
+  test("caps the rows at the query's LIMIT", () => {
+    const query = parse("LIST LIMIT 20");
+    expect(queryPage(query, 35, 0, 15)).toEqual({ total: 20, pageSize: 15 });
+    expect(queryPage(query, 35, 15, 15)).toEqual({ total: 20, pageSize: 5 });
+    expect(queryPage(query, 35, 20, 15)).toEqual({ total: 20, pageSize: 0 });
+  });
+
+  test("pages through every row without a LIMIT", () => {
+    const query = parse("LIST");
+    expect(queryPage(query, 35, 30, 15)).toEqual({ total: 35, pageSize: 5 });
+    expect(queryPage(query, 35, 50, 15)).toEqual({ total: 35, pageSize: 0 });
+    expect(queryPage(query, 0, 0, 15)).toEqual({ total: 0, pageSize: 0 });
+  });
+});
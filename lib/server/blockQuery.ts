@@ -0,0 +1,185 @@
+// lib/server/blockQuery.ts
+import { sql, type Kysely, type RawBuilder } from "kysely";
+import type { Database } from "../../types";
+import type { UserId } from "../../types/generated/public/User";
+import type { Query, QueryExpr, QuerySort } from "../shared/query";
+
+// Block queries (see lib/shared/query.ts) compiled to SQL over the `block`
+// table, so the database filters, sorts and pages them. Every value is a
+// `jsonb` scalar, or SQL NULL for a missing one, as `QueryValue` is in
+// `runQuery`.
+
+type Jsonb = RawBuilder<unknown>;
+
+/** A field of the block, or its `content`, `type` or `done` (`blockFieldValue`). */
+const fieldValue = (name: string): Jsonb => {
+  const key = name.toLowerCase();
+  const fallback =
+    key === "content"
+      ? sql`to_jsonb(block.content)`
+      : key === "type"
+        ? sql`to_jsonb(block.type)`
+        : key === "done"
+          ? sql`to_jsonb(block.done)`
+          : sql`NULL::jsonb`;
+  // Field names match case-insensitively, and one set to JSON null is
+  // missing.
+  return sql`coalesce(
+    (
+      SELECT nullif(f.value, 'null'::jsonb) FROM jsonb_each(block.fields) AS f
+      WHERE lower(f.key) = ${key}
+      LIMIT 1
+    ),
+    ${fallback}
+  )`;
+};
+
+const literal = (value: QueryExpr & { kind: "literal" }): Jsonb =>
+  value.value === null
+    ? sql`NULL::jsonb`
+    : sql`${JSON.stringify(value.value)}::jsonb`;
+
+/** The value's text, as `String(value)`. */
+const text = (value: Jsonb) => sql<string>`(${value} #>> '{}')`;
+
+const numberPattern = String.raw`^\s*-?\d+(\.\d+)?\s*$`;
+
+/** The value as a number, if it is one or is text that reads as one. */
+const numeric = (value: Jsonb) => sql<number | null>`(
+  CASE
+    WHEN jsonb_typeof(${value}) = 'number' THEN ${text(value)}::numeric
+    WHEN jsonb_typeof(${value}) = 'string'
+      AND ${text(value)} ~ ${numberPattern}
+      THEN trim(${text(value)})::numeric
+  END
+)`;
+
+/** Text compared case-insensitively and by character, as in JS. */
+const folded = (value: Jsonb) =>
+  sql<string>`(lower(${text(value)}) COLLATE "C")`;
+
+const truthy = (value: Jsonb) => sql<boolean>`coalesce(
+  ${value} NOT IN ('false'::jsonb, '""'::jsonb, '"false"'::jsonb),
+  false
+)`;
+
+const compare = (
+  op: QueryExpr & { kind: "compare" },
+  left: Jsonb,
+  right: Jsonb,
+) => {
+  const operator = sql.raw(op.op === "!=" ? "<>" : op.op);
+  // Only (in)equality means anything against a missing value.
+  const missing =
+    op.op === "="
+      ? sql`(${left} IS NULL AND ${right} IS NULL)`
+      : op.op === "!="
+        ? sql`(${left} IS NULL) <> (${right} IS NULL)`
+        : sql`false`;
+  return sql<boolean>`(
+    CASE
+      WHEN ${left} IS NULL OR ${right} IS NULL THEN ${missing}
+      WHEN ${numeric(left)} IS NOT NULL AND ${numeric(right)} IS NOT NULL
+        THEN ${numeric(left)} ${operator} ${numeric(right)}
+      ELSE ${folded(left)} ${operator} ${folded(right)}
+    END
+  )`;
+};
+
+const compile = (expr: QueryExpr): Jsonb => {
+  switch (expr.kind) {
+    case "field":
+      return fieldValue(expr.name);
+    case "literal":
+      return literal(expr);
+    case "not":
+      return sql`to_jsonb(NOT ${truthy(compile(expr.expr))})`;
+    case "and":
+      return sql`to_jsonb(${truthy(compile(expr.left))} AND ${truthy(compile(expr.right))})`;
+    case "or":
+      return sql`to_jsonb(${truthy(compile(expr.left))} OR ${truthy(compile(expr.right))})`;
+    case "compare":
+      return sql`to_jsonb(${compare(expr, compile(expr.left), compile(expr.right))})`;
+  }
+};
+
+/** A query's `WHERE` as a condition on `block`. */
+export const whereToSql = (expr: QueryExpr): RawBuilder<boolean> =>
+  truthy(compile(expr));
+
+/**
+ * A query's `SORT` as `ORDER BY` terms on `block`. Blocks missing a field
+ * go last, as in `runQuery`. Numbers and text are ordered apart, numbers
+ * first (last when descending), which is where comparing them as text puts
+ * digits too.
+ */
+export const sortToSql = (sort: readonly QuerySort[]): RawBuilder<unknown>[] =>
+  sort.flatMap(({ field, descending }) => {
+    const value = fieldValue(field);
+    const direction = sql.raw(descending ? "DESC" : "ASC");
+    return [
+      sql`(${value} IS NULL)`,
+      sql`${numeric(value)} ${direction} NULLS ${sql.raw(descending ? "FIRST" : "LAST")}`,
+      sql`${folded(value)} ${direction}`,
+    ];
+  });
+
+/** The user's blocks outside the trash that `query` matches, in no order. */
+export const selectQueryBlocks = (
+  db: Kysely<Database>,
+  userId: UserId,
+  query: Query,
+) => {
+  let select = db
+    .selectFrom("block")
+    .innerJoin("note", "note.id", "block.note_id")
+    .where("block.user_id", "=", userId)
+    .where("block.deleted_at", "is", null)
+    .where("note.deleted_at", "is", null);
+  if (query.from !== null) {
+    // Blocks keep their tags as written, `#` and all, and they match
+    // case-insensitively as in `blockHasTag`.
+    select = select.where(
+      sql<boolean>`exists (
+        select 1 from unnest(block.tags) as t(tag)
+        where lower(t.tag) = ${`#${query.from}`}
+      )`,
+    );
+  }
+  if (query.where !== null) select = select.where(whereToSql(query.where));
+  return select;
+};
+
+/**
+ * The page of `count` matching rows starting at `offset`, at most `limit`
+ * long. The query's own LIMIT caps the rows there are to page through.
+ */
+export const queryPage = (
+  query: Query,
+  count: number,
+  offset: number,
+  limit: number,
+): { total: number; pageSize: number } => {
+  const total = Math.min(count, query.limit ?? Infinity);
+  return { total, pageSize: Math.max(0, Math.min(limit, total - offset)) };
+};
+
+/**
+ * The blocks of a page of `query`'s rows. Without SORT, rows come in note
+ * and outline order, which also breaks ties between sorted ones.
+ */
+export const selectQueryPage = (
+  db: Kysely<Database>,
+  userId: UserId,
+  query: Query,
+  offset: number,
+  pageSize: number,
+) => {
+  let page = selectQueryBlocks(db, userId, query).selectAll("block");
+  for (const term of sortToSql(query.sort)) page = page.orderBy(term);
+  return page
+    .orderBy("block.note_id")
+    .orderBy("block.order")
+    .offset(offset)
+    .limit(pageSize);
+};
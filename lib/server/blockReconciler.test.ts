@@ -0,0 +1,124 @@
+// lib/server/blockReconciler.test.ts
+import { describe, expect, test } from "bun:test";
+import { Effect } from "effect";
+import type { Block, NewBlock } from "../../types/generated/public/Block";
+import type { NoteId } from "../../types/generated/public/Note";
+import type { UserId } from "../../types/generated/public/User";
+import { CryptoLive } from "./crypto";
+import { parseMarkdownToBlocks } from "./parser";
+import { reconcileBlocks } from "./blockReconciler";
+
+const parse = (markdown: string): NewBlock[] =>
+  Effect.runSync(
+    Effect.provide(
+      parseMarkdownToBlocks(
+        markdown,
+        "note.md",
+        "00000000-0000-0000-0000-000000000001" as UserId,
+        "00000000-0000-0000-0000-000000000002" as NoteId,
+      ),
+      CryptoLive,
+    ),
+  );
+
+/** A note's blocks as they would be stored after parsing `markdown`. */
+const stored = (markdown: string): Block[] =>
+  parse(markdown).map((block) => ({
+    ...(block as Block),
+    done: block.done ?? false,
+    fields: block.fields ?? {},
+    tags: block.tags ?? [],
+    links: block.links ?? [],
+    transclusions: block.transclusions ?? [],
+    version: 1,
+    deleted_at: null,
+  }));
+
+/** Reconciles a note written as `before` with it rewritten as `after`. */
+const reconcile = (before: string, after: string) => {
+  const existing = stored(before);
+  const parsed = parse(after);
+  const idOf = (content: string) =>
+    existing.find((block) => block.content === content)?.id;
+  return { existing, parsed, idOf, ...reconcileBlocks(existing, parsed) };
+};
+
+describe("reconcileBlocks", () => {
+  test("writes nothing when nothing changed", () => {
+    const markdown = ["# Plan", "", "- one #tag", "  - two", "", "end"].join(
+      "\n",
+    );
+    const { inserts, updates, deletes } = reconcile(markdown, markdown);
+    expect(inserts).toEqual([]);
+    expect(updates).toEqual([]);
+    expect(deletes).toEqual([]);
+  });
+
+  test("keeps the ID of a block edited in place and bumps its version", () => {
+    const { idOf, inserts, updates, deletes } = reconcile(
+      ["- buy milk", "- call mum"].join("\n"),
+      ["- buy oat milk", "- call mum"].join("\n"),
+    );
+    expect(inserts).toEqual([]);
+    expect(deletes).toEqual([]);
+    expect(updates).toHaveLength(1);
+    expect(updates[0].id).toBe(idOf("buy milk")!);
+    expect(updates[0].changes).toMatchObject({
+      content: "buy oat milk",
+      version: 2,
+    });
+  });
+
+  test("keeps the IDs of moved blocks, updating only their order", () => {
+    const { idOf, inserts, updates, deletes } = reconcile(
+      ["First thing", "", "Second thing", "", "Third thing"].join("\n"),
+      ["Second thing", "", "First thing", "", "Third thing"].join("\n"),
+    );
+    expect(inserts).toEqual([]);
+    expect(deletes).toEqual([]);
+    expect(
+      updates.map(({ id, changes }) => [id, changes.order, changes.version]),
+    ).toEqual([
+      [idOf("Second thing"), 0, 2],
+      [idOf("First thing"), 1, 2],
+    ]);
+  });
+
+  test("gives a duplicated line a new block and leaves the original", () => {
+    const { idOf, parsed, inserts, updates, deletes } = reconcile(
+      ["Repeat me", "", "Other"].join("\n"),
+      ["Repeat me", "", "Other", "", "Repeat me"].join("\n"),
+    );
+    expect(updates).toEqual([]);
+    expect(deletes).toEqual([]);
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0]).toMatchObject({ content: "Repeat me", order: 2 });
+    expect(inserts[0].id).toBe(parsed[2].id!);
+    expect(inserts[0].id).not.toBe(idOf("Repeat me")!);
+  });
+
+  test("deletes removed blocks and inserts unrelated new ones", () => {
+    const { idOf, inserts, updates, deletes } = reconcile(
+      ["Keep this", "", "Drop this paragraph"].join("\n"),
+      ["Keep this", "", "Something else entirely"].join("\n"),
+    );
+    expect(updates).toEqual([]);
+    expect(deletes).toEqual([idOf("Drop this paragraph")!]);
+    expect(inserts.map((block) => block.content)).toEqual([
+      "Something else entirely",
+    ]);
+  });
+
+  test("points children at the stored ID of their matched parent", () => {
+    const { idOf, inserts, updates } = reconcile(
+      ["- groceries", "  - milk"].join("\n"),
+      ["- groceries list", "  - milk", "  - bread"].join("\n"),
+    );
+    expect(updates.map((update) => update.id)).toEqual([idOf("groceries")!]);
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0]).toMatchObject({
+      content: "bread",
+      parent_id: idOf("groceries"),
+    });
+  });
+});
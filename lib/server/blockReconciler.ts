@@ -0,0 +1,184 @@
+// lib/server/blockReconciler.ts
+import type {
+  Block,
+  BlockId,
+  BlockUpdate,
+  NewBlock,
+} from "../../types/generated/public/Block";
+
+/**
+ * The minimal set of writes needed to turn a note's stored blocks into a
+ * freshly parsed set.
+ */
+export interface BlockReconciliation {
+  readonly inserts: NewBlock[];
+  readonly updates: { id: BlockId; changes: BlockUpdate }[];
+  readonly deletes: BlockId[];
+}
+
+/** Blocks whose content is at least this similar are treated as one edited block. */
+const SIMILARITY_THRESHOLD = 0.5;
+
+const bigrams = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const normalized = text.toLowerCase();
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const gram = normalized.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Sørensen–Dice similarity over character bigrams, in [0, 1].
+ */
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const aGrams = bigrams(a);
+  const bGrams = bigrams(b);
+  let overlap = 0;
+  for (const [gram, count] of aGrams) {
+    overlap += Math.min(count, bGrams.get(gram) ?? 0);
+  }
+  return (2 * overlap) / (a.length - 1 + (b.length - 1));
+};
+
+/**
+ * JSON with sorted keys, so jsonb round-trips (which reorder keys) compare
+ * equal to what the parser produced.
+ */
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v as Record<string, unknown>).sort(([a], [b]) =>
+            a.localeCompare(b),
+          ),
+        )
+      : v,
+  );
+
+const sameList = (a: readonly string[], b: readonly string[]) =>
+  a.length === b.length && a.every((item, i) => item === b[i]);
+
+/**
+ * Matches the blocks parsed from a note's new markdown against the blocks
+ * already stored for it, so that unchanged and edited blocks keep their IDs.
+ *
+ * Blocks are paired first by identical content (nearest position wins), then
+ * by content similarity for lines that were edited in place. Matched blocks
+ * are only updated, with a version bump, if something about them changed.
+ */
+export const reconcileBlocks = (
+  existing: readonly Block[],
+  parsed: readonly NewBlock[],
+): BlockReconciliation => {
+  const matchedOld = new Set<BlockId>();
+  // parsed block id -> existing block it was matched with
+  const matches = new Map<BlockId, Block>();
+
+  const claimBest = (
+    candidate: NewBlock,
+    score: (old: Block) => number,
+    minScore: number,
+  ) => {
+    let best: Block | undefined;
+    let bestScore = 0;
+    let bestDistance = Infinity;
+    for (const old of existing) {
+      if (matchedOld.has(old.id)) continue;
+      const s = score(old);
+      if (s < minScore) continue;
+      const distance = Math.abs(old.order - candidate.order);
+      if (
+        !best ||
+        s > bestScore ||
+        (s === bestScore && distance < bestDistance)
+      ) {
+        best = old;
+        bestScore = s;
+        bestDistance = distance;
+      }
+    }
+    if (best) {
+      matchedOld.add(best.id);
+      matches.set(candidate.id as BlockId, best);
+    }
+  };
+
+  // Pass 1: identical content.
+  for (const block of parsed) {
+    claimBest(block, (old) => (old.content === block.content ? 1 : 0), 1);
+  }
+  // Pass 2: lines edited in place.
+  for (const block of parsed) {
+    if (matches.has(block.id as BlockId)) continue;
+    claimBest(
+      block,
+      (old) => similarity(old.content, block.content),
+      SIMILARITY_THRESHOLD,
+    );
+  }
+
+  // Parsed parent IDs point at freshly generated IDs; redirect them to the
+  // IDs the blocks will actually have.
+  const finalId = (id: BlockId | null | undefined): BlockId | null =>
+    id ? (matches.get(id)?.id ?? id) : null;
+
+  const inserts: NewBlock[] = [];
+  const updates: { id: BlockId; changes: BlockUpdate }[] = [];
+
+  for (const block of parsed) {
+    const parentId = finalId(block.parent_id);
+    const old = matches.get(block.id as BlockId);
+    if (!old) {
+      inserts.push({ ...block, parent_id: parentId });
+      continue;
+    }
+
+    const tags = block.tags ?? [];
+    const links = block.links ?? [];
+    const transclusions = block.transclusions ?? [];
+    const done = block.done ?? false;
+    const changed =
+      old.content !== block.content ||
+      old.type !== block.type ||
+      old.done !== done ||
+      old.depth !== block.depth ||
+      old.order !== block.order ||
+      old.parent_id !== parentId ||
+      old.file_path !== block.file_path ||
+      !sameList(old.tags, tags) ||
+      !sameList(old.links, links) ||
+      !sameList(old.transclusions, transclusions) ||
+      stableStringify(old.fields) !== stableStringify(block.fields ?? {});
+
+    if (changed) {
+      updates.push({
+        id: old.id,
+        changes: {
+          content: block.content,
+          type: block.type,
+          done,
+          depth: block.depth,
+          order: block.order,
+          parent_id: parentId,
+          file_path: block.file_path,
+          tags,
+          links,
+          transclusions,
+          fields: block.fields ?? {},
+          version: old.version + 1,
+          updated_at: new Date(),
+        },
+      });
+    }
+  }
+
+  const deletes = existing
+    .filter((old) => !matchedOld.has(old.id))
+    .map((old) => old.id);
+
+  return { inserts, updates, deletes };
+};
@@ -4,6 +4,13 @@ import { Db } from "../../db/DbTag";
 import { serverLog } from "./logger.server";
 import { EmailSendError } from "../../features/auth/Errors";
 import { sendEmail } from "./email";
+import { PokeService } from "./PokeService";
+import type { UserId } from "../../types/generated/public/User";
+import { TRASH_RETENTION_DAYS } from "../shared/trash";
+import { ReplicacheGcConfig } from "./Config";
+import { runInTransaction } from "../../db/transaction";
+import type { Crypto } from "./crypto";
+import { flattenNoteDocument } from "../../features/notes/flattenNoteDocument";
 
 /**
  * Effect to clean up expired email verification and password reset tokens.
@@ -78,6 +85,222 @@ export const cleanupExpiredTokensEffect: Effect.Effect<void, Error, Db> =
     );
   });
 
+/**
+ * Effect to permanently delete notes that have been in the trash for longer
+ * than `TRASH_RETENTION_DAYS`. Blocks are removed by the `note_id` cascade.
+ * Affected users are poked so their devices pull the resulting `del` patches.
+ */
+export const purgeExpiredTrashEffect: Effect.Effect<
+  void,
+  Error,
+  Db | PokeService
+> = Effect.gen(function* () {
+  const db = yield* Db;
+  const pokeService = yield* PokeService;
+
+  yield* serverLog(
+    "info",
+    { retentionDays: TRASH_RETENTION_DAYS },
+    "Starting purge of expired trash...",
+    "Job:TrashPurge",
+  );
+
+  const cutoff = new Date(
+    Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  const purgedNotes = yield* Effect.tryPromise({
+    try: () =>
+      db
+        .deleteFrom("note")
+        .where("deleted_at", "is not", null)
+        .where("deleted_at", "<", cutoff)
+        .returning(["id", "user_id"])
+        .execute(),
+    catch: (cause) =>
+      new Error(`Failed to purge expired trash: ${String(cause)}`, { cause }),
+  });
+
+  const keysByUser = new Map<UserId, string[]>();
+  for (const note of purgedNotes) {
+    const keys = keysByUser.get(note.user_id) ?? [];
+    keys.push(`note/${note.id}`);
+    keysByUser.set(note.user_id, keys);
+  }
+  for (const [userId, keys] of keysByUser) {
+    yield* pokeService.poke(userId, { keys });
+  }
+
+  yield* serverLog(
+    "info",
+    { count: purgedNotes.length, users: keysByUser.size },
+    "Finished purge of expired trash.",
+    "Job:TrashPurge",
+  );
+});
+
+export interface ReplicacheGcReport {
+  readonly tombstones: number;
+  readonly inactiveClientGroups: number;
+  readonly pokeLogEntries: number;
+}
+
+/**
+ * Pokes are only replayed from `poke_log` while an instance's LISTEN
+ * connection is briefly down, so a day of history is plenty.
+ */
+const POKE_LOG_RETENTION_HOURS = 24;
+
+/**
+ * Effect to garbage-collect Replicache bookkeeping. Client groups that have
+ * neither pushed nor pulled within the configured age are deleted, along with
+ * their clients, change log and rejected mutations (by cascade). Deletion
+ * tombstones older than that age are dropped too: any client that still needs
+ * them has been collected, and the per-user `tombstone_floor` sends stragglers
+ * through a full resync instead. Old `poke_log` entries are removed as well.
+ */
+export const pruneReplicacheStateEffect: Effect.Effect<
+  ReplicacheGcReport,
+  Error,
+  Db
+> = Effect.gen(function* () {
+  const db = yield* Db;
+  const { clientGroupMaxInactiveDays } = yield* ReplicacheGcConfig.pipe(
+    Effect.mapError(
+      (cause) => new Error("Invalid Replicache GC configuration", { cause }),
+    ),
+  );
+
+  yield* serverLog(
+    "info",
+    { clientGroupMaxInactiveDays },
+    "Starting Replicache garbage collection...",
+    "Job:ReplicacheGc",
+  );
+
+  const cutoff = new Date(
+    Date.now() - clientGroupMaxInactiveDays * 24 * 60 * 60 * 1000,
+  );
+
+  const inactiveClientGroups = yield* Effect.tryPromise({
+    try: () =>
+      db
+        .deleteFrom("replicache_client_group")
+        .where("updated_at", "<", cutoff)
+        .executeTakeFirst(),
+    catch: (cause) =>
+      new Error(`Failed to delete inactive client groups: ${String(cause)}`, {
+        cause,
+      }),
+  });
+
+  const tombstones = yield* Effect.tryPromise({
+    try: () =>
+      runInTransaction(db, async (trx) => {
+        const floors = await trx
+          .selectFrom("sync_change")
+          .select(["user_id", (eb) => eb.fn.max("sync_version").as("floor")])
+          .where("deleted", "=", true)
+          .where("changed_at", "<", cutoff)
+          .groupBy("user_id")
+          .execute();
+        for (const { user_id, floor } of floors) {
+          await trx
+            .updateTable("user_sync_version")
+            .set((eb) => ({
+              tombstone_floor: eb.fn("greatest", [
+                "tombstone_floor",
+                eb.val(floor),
+              ]),
+            }))
+            .where("user_id", "=", user_id)
+            .execute();
+        }
+        return trx
+          .deleteFrom("sync_change")
+          .where("deleted", "=", true)
+          .where("changed_at", "<", cutoff)
+          .executeTakeFirst();
+      }),
+    catch: (cause) =>
+      new Error(`Failed to prune sync tombstones: ${String(cause)}`, {
+        cause,
+      }),
+  });
+
+  const pokeLogEntries = yield* Effect.tryPromise({
+    try: () =>
+      db
+        .deleteFrom("poke_log")
+        .where(
+          "created_at",
+          "<",
+          new Date(Date.now() - POKE_LOG_RETENTION_HOURS * 60 * 60 * 1000),
+        )
+        .executeTakeFirst(),
+    catch: (cause) =>
+      new Error(`Failed to prune poke log: ${String(cause)}`, { cause }),
+  });
+
+  const report: ReplicacheGcReport = {
+    tombstones: Number(tombstones.numDeletedRows),
+    inactiveClientGroups: Number(inactiveClientGroups.numDeletedRows),
+    pokeLogEntries: Number(pokeLogEntries.numDeletedRows),
+  };
+
+  yield* serverLog(
+    "info",
+    report,
+    "Finished Replicache garbage collection.",
+    "Job:ReplicacheGc",
+  );
+
+  return report;
+});
+
+/**
+ * Effect to write collaborative documents back to their notes. Picks every
+ * document with updates since it was last flattened, or whose note was
+ * written to outside of it; see `flattenNoteDocument`. A note that fails is
+ * logged and retried on the next run.
+ */
+export const flattenNoteDocumentsEffect: Effect.Effect<
+  void,
+  Error,
+  Db | Crypto | PokeService
+> = Effect.gen(function* () {
+  const db = yield* Db;
+
+  const stale = yield* Effect.tryPromise({
+    try: () =>
+      db
+        .selectFrom("note_document as d")
+        .innerJoin("note as n", "n.id", "d.note_id")
+        .select("d.note_id")
+        .where((eb) =>
+          eb.or([
+            eb("n.version", "<>", eb.ref("d.flattened_version")),
+            eb.exists(
+              eb
+                .selectFrom("note_document_update as u")
+                .select("u.id")
+                .whereRef("u.note_id", "=", "d.note_id")
+                .whereRef("u.id", ">", "d.flattened_through"),
+            ),
+          ]),
+        )
+        .execute(),
+    catch: (cause) =>
+      new Error(`Failed to find documents to flatten: ${String(cause)}`, {
+        cause,
+      }),
+  });
+
+  yield* Effect.forEach(stale, ({ note_id }) =>
+    flattenNoteDocument(note_id).pipe(Effect.ignore),
+  );
+});
+
 /**
  * Effect to retry sending failed emails.
  * This is a simplified example. In a real application, you would
@@ -19,6 +19,18 @@ import * as m2025070401 from "../../../migrations/2025070401_create_change_log";
 import * as m2025070901 from "../../../migrations/2025070901_add_version_to_note";
 import * as m2025070902 from "../../../migrations/2025070902_create_cvr_table";
 import * as m2025071001 from "../../../migrations/2025071001_alter_cvr_pk_to_bigserial";
+import * as m2025071101 from "../../../migrations/2025071101_add_deleted_at_to_note_and_block";
+import * as m2025071201 from "../../../migrations/2025071201_create_mutation_error";
+import * as m2025071301 from "../../../migrations/2025071301_add_client_group_id_to_cvr";
+import * as m2025071401 from "../../../migrations/2025071401_replace_cvr_with_sync_changes";
+import * as m2025071501 from "../../../migrations/2025071501_recreate_poke_log";
+import * as m2025071601 from "../../../migrations/2025071601_add_payload_to_poke_log";
+import * as m2025071701 from "../../../migrations/2025071701_create_note_revision";
+import * as m2025071801 from "../../../migrations/2025071801_create_note_document";
+import * as m2025071901 from "../../../migrations/2025071901_sync_tags";
+import * as m2025072001 from "../../../migrations/2025072001_add_block_done";
+import * as m2025072101 from "../../../migrations/2025072101_create_task_completion";
+import * as m2025072201 from "../../../migrations/2025072201_add_user_timezone";
 
 export const centralMigrationObjects: Record<string, Migration> = {
   "2025062601_create_user": { up: m2025062601.up, down: m2025062601.down },
@@ -77,4 +89,52 @@ export const centralMigrationObjects: Record<string, Migration> = {
     up: m2025071001.up,
     down: m2025071001.down,
   },
+  "2025071101_add_deleted_at_to_note_and_block": {
+    up: m2025071101.up,
+    down: m2025071101.down,
+  },
+  "2025071201_create_mutation_error": {
+    up: m2025071201.up,
+    down: m2025071201.down,
+  },
+  "2025071301_add_client_group_id_to_cvr": {
+    up: m2025071301.up,
+    down: m2025071301.down,
+  },
+  "2025071401_replace_cvr_with_sync_changes": {
+    up: m2025071401.up,
+    down: m2025071401.down,
+  },
+  "2025071501_recreate_poke_log": {
+    up: m2025071501.up,
+    down: m2025071501.down,
+  },
+  "2025071601_add_payload_to_poke_log": {
+    up: m2025071601.up,
+    down: m2025071601.down,
+  },
+  "2025071701_create_note_revision": {
+    up: m2025071701.up,
+    down: m2025071701.down,
+  },
+  "2025071801_create_note_document": {
+    up: m2025071801.up,
+    down: m2025071801.down,
+  },
+  "2025071901_sync_tags": {
+    up: m2025071901.up,
+    down: m2025071901.down,
+  },
+  "2025072001_add_block_done": {
+    up: m2025072001.up,
+    down: m2025072001.down,
+  },
+  "2025072101_create_task_completion": {
+    up: m2025072101.up,
+    down: m2025072101.down,
+  },
+  "2025072201_add_user_timezone": {
+    up: m2025072201.up,
+    down: m2025072201.down,
+  },
 };
@@ -0,0 +1,90 @@
+// lib/server/noteDocuments.ts
+import type { Kysely } from "kysely";
+import * as Y from "yjs";
+import type { Database } from "../../types";
+import type { Note } from "../../types/generated/public/Note";
+import type { NoteDocument } from "../../types/generated/public/NoteDocument";
+import type { NoteDocumentUpdateId } from "../../types/generated/public/NoteDocumentUpdate";
+import { setNoteDocumentMarkdown } from "../shared/noteDocument";
+
+/** Above this many appended updates, the next flatten compacts them. */
+export const NOTE_DOCUMENT_COMPACT_THRESHOLD = 200;
+
+export interface LoadedNoteDocument {
+  readonly row: NoteDocument;
+  readonly doc: Y.Doc;
+  /** The newest appended update folded into `doc`, if any. */
+  readonly lastUpdateId: NoteDocumentUpdateId | null;
+  readonly updateCount: number;
+}
+
+/**
+ * Locks a note's document row, creating it from the note's current content
+ * on first use. Every write to a document takes this lock first, so updates
+ * are appended in id order and compaction never races an append.
+ *
+ * Must run in a transaction.
+ */
+export const lockNoteDocument = async (
+  trx: Kysely<Database>,
+  note: Pick<Note, "id" | "user_id" | "content" | "version">,
+): Promise<NoteDocument> => {
+  const selectLocked = () =>
+    trx
+      .selectFrom("note_document")
+      .selectAll()
+      .where("note_id", "=", note.id)
+      .forUpdate();
+  const existing = await selectLocked().executeTakeFirst();
+  if (existing) return existing;
+
+  const seed = new Y.Doc();
+  setNoteDocumentMarkdown(seed, note.content);
+  // Racing seeds must not both survive: two documents built from the same
+  // text by different Yjs clients would merge into the text twice.
+  await trx
+    .insertInto("note_document")
+    .values({
+      note_id: note.id,
+      user_id: note.user_id,
+      state: Buffer.from(Y.encodeStateAsUpdate(seed)),
+      flattened_version: note.version,
+      flattened_content: note.content,
+    })
+    .onConflict((oc) => oc.column("note_id").doNothing())
+    .execute();
+  return selectLocked().executeTakeFirstOrThrow();
+};
+
+/** Rebuilds a note's document from its compacted state and later updates. */
+export const loadNoteDocument = async (
+  trx: Kysely<Database>,
+  row: NoteDocument,
+): Promise<LoadedNoteDocument> => {
+  const updates = await trx
+    .selectFrom("note_document_update")
+    .select(["id", "update"])
+    .where("note_id", "=", row.note_id)
+    .orderBy("id")
+    .execute();
+  const doc = new Y.Doc();
+  Y.applyUpdate(doc, row.state);
+  for (const { update } of updates) Y.applyUpdate(doc, update);
+  return {
+    row,
+    doc,
+    lastUpdateId: updates.at(-1)?.id ?? null,
+    updateCount: updates.length,
+  };
+};
+
+export const appendNoteDocumentUpdate = (
+  trx: Kysely<Database>,
+  noteId: Note["id"],
+  update: Uint8Array,
+): Promise<{ id: NoteDocumentUpdateId }> =>
+  trx
+    .insertInto("note_document_update")
+    .values({ note_id: noteId, update: Buffer.from(update) })
+    .returning("id")
+    .executeTakeFirstOrThrow();
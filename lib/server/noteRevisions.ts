@@ -0,0 +1,97 @@
+// lib/server/noteRevisions.ts
+import type { Kysely } from "kysely";
+import type { Database } from "../../types";
+import type { Note } from "../../types/generated/public/Note";
+
+/** Saves closer together than this extend the newest revision. */
+const REVISION_IDLE_GAP_MS = 2 * 60 * 1000;
+
+/** A revision stops absorbing saves once it is this old, even mid-burst. */
+const REVISION_MAX_SPAN_MS = 15 * 60 * 1000;
+
+/**
+ * Snapshots a note after a write. Autosave fires every few hundred
+ * milliseconds while typing, so a save that follows the previous one within
+ * `REVISION_IDLE_GAP_MS` overwrites the newest revision rather than adding
+ * another. `startNew` forces a fresh revision, e.g. when restoring, so the
+ * state being replaced stays in the history.
+ *
+ * Must run in the same transaction as the write it records.
+ */
+export const recordNoteRevision = async (
+  trx: Kysely<Database>,
+  note: Pick<Note, "id" | "user_id" | "title" | "content" | "version">,
+  { startNew = false }: { startNew?: boolean } = {},
+): Promise<void> => {
+  const latest = await trx
+    .selectFrom("note_revision")
+    .select(["id", "title", "content", "created_at", "updated_at"])
+    .where("note_id", "=", note.id)
+    .orderBy("created_at", "desc")
+    .orderBy("id", "desc")
+    .limit(1)
+    .executeTakeFirst();
+
+  if (
+    latest &&
+    latest.title === note.title &&
+    latest.content === note.content
+  ) {
+    return;
+  }
+
+  const now = new Date();
+  const extendsLatest =
+    !startNew &&
+    latest !== undefined &&
+    now.getTime() - latest.updated_at.getTime() < REVISION_IDLE_GAP_MS &&
+    now.getTime() - latest.created_at.getTime() < REVISION_MAX_SPAN_MS;
+
+  if (extendsLatest) {
+    await trx
+      .updateTable("note_revision")
+      .set({
+        title: note.title,
+        content: note.content,
+        note_version: note.version,
+        updated_at: now,
+      })
+      .where("id", "=", latest.id)
+      .execute();
+    return;
+  }
+
+  await trx
+    .insertInto("note_revision")
+    .values({
+      note_id: note.id,
+      user_id: note.user_id,
+      title: note.title,
+      content: note.content,
+      note_version: note.version,
+      created_at: now,
+      updated_at: now,
+    })
+    .execute();
+};
+
+/**
+ * The note's title and content as of `version`, or the closest earlier
+ * snapshot when saves around it were folded into a later revision. An older
+ * base only makes a three-way merge see some changes on both sides, which
+ * it resolves without conflict when they match.
+ */
+export const findRevisionAtVersion = (
+  trx: Kysely<Database>,
+  noteId: Note["id"],
+  version: number,
+): Promise<{ title: string; content: string } | undefined> =>
+  trx
+    .selectFrom("note_revision")
+    .select(["title", "content"])
+    .where("note_id", "=", noteId)
+    .where("note_version", "<=", version)
+    .orderBy("note_version", "desc")
+    .orderBy("id", "desc")
+    .limit(1)
+    .executeTakeFirst();
@@ -0,0 +1,68 @@
+// lib/server/noteTags.ts
+import type { Kysely } from "kysely";
+import type { Database } from "../../types";
+import type { Note } from "../../types/generated/public/Note";
+import { normalizeTagName } from "../shared/tags";
+
+/**
+ * Brings a note's `note_tag` links in line with the `#tags` its blocks
+ * carry, so a note has exactly the tags the parser found in it, creating
+ * tags the user has not used before. Tags left without notes are deleted by
+ * the `note_tag` trigger (see migration 2025071901).
+ *
+ * Must run in the same transaction as the write that changed the note's
+ * blocks, after it.
+ */
+export const syncNoteTags = async (
+  trx: Kysely<Database>,
+  note: Pick<Note, "id" | "user_id">,
+): Promise<void> => {
+  const blocks = await trx
+    .selectFrom("block")
+    .select("tags")
+    .where("note_id", "=", note.id)
+    .where("deleted_at", "is", null)
+    .execute();
+  const names = [
+    ...new Set(blocks.flatMap((block) => block.tags.map(normalizeTagName))),
+  ];
+  const linked = await trx
+    .selectFrom("note_tag")
+    .innerJoin("tag", "tag.id", "note_tag.tag_id")
+    .select(["tag.id", "tag.name"])
+    .where("note_tag.note_id", "=", note.id)
+    .execute();
+
+  const added = names.filter((name) => !linked.some((t) => t.name === name));
+  const removed = linked.filter((t) => !names.includes(t.name));
+
+  if (added.length > 0) {
+    await trx
+      .insertInto("tag")
+      .values(added.map((name) => ({ user_id: note.user_id, name })))
+      .onConflict((oc) => oc.columns(["user_id", "name"]).doNothing())
+      .execute();
+    const tags = await trx
+      .selectFrom("tag")
+      .select("id")
+      .where("user_id", "=", note.user_id)
+      .where("name", "in", added)
+      .execute();
+    await trx
+      .insertInto("note_tag")
+      .values(tags.map((tag) => ({ note_id: note.id, tag_id: tag.id })))
+      .onConflict((oc) => oc.columns(["note_id", "tag_id"]).doNothing())
+      .execute();
+  }
+  if (removed.length > 0) {
+    await trx
+      .deleteFrom("note_tag")
+      .where("note_id", "=", note.id)
+      .where(
+        "tag_id",
+        "in",
+        removed.map((t) => t.id),
+      )
+      .execute();
+  }
+};
@@ -0,0 +1,90 @@
+// lib/server/parser.test.ts
+import { describe, expect, test } from "bun:test";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { Effect } from "effect";
+import type { NewBlock } from "../../types/generated/public/Block";
+import type { NoteId } from "../../types/generated/public/Note";
+import type { UserId } from "../../types/generated/public/User";
+import { serializeBlocksToMarkdown } from "../shared/markdown";
+import { CryptoLive } from "./crypto";
+import { parseMarkdownToBlocks } from "./parser";
+
+// Each `<name>.md` fixture is parsed and compared with `<name>.json`: the
+// blocks it should give, with parents as indexes into the list.
+const fixtures = join(import.meta.dir, "__fixtures__", "parser");
+const names = readdirSync(fixtures)
+  .filter((file) => file.endsWith(".md"))
+  .map((file) => file.slice(0, -".md".length))
+  .sort();
+
+const parse = (markdown: string): NewBlock[] =>
+  Effect.runSync(
+    Effect.provide(
+      parseMarkdownToBlocks(
+        markdown,
+        "fixture.md",
+        "00000000-0000-0000-0000-000000000001" as UserId,
+        "00000000-0000-0000-0000-000000000002" as NoteId,
+      ),
+      CryptoLive,
+    ),
+  );
+
+/** What a fixture states about a block, without IDs or timestamps. */
+const outline = (blocks: readonly NewBlock[]) => {
+  const ids = blocks.map((block) => block.id);
+  return blocks.map((block) => ({
+    type: block.type,
+    depth: block.depth,
+    parent: block.parent_id ? ids.indexOf(block.parent_id) : null,
+    content: block.content,
+    tags: block.tags ?? [],
+    links: block.links ?? [],
+    transclusions: block.transclusions ?? [],
+    fields: block.fields ?? {},
+    done: block.done ?? false,
+  }));
+};
+
+/** Parsed blocks as `serializeBlocksToMarkdown` takes them. */
+const serialize = (blocks: readonly NewBlock[]) =>
+  serializeBlocksToMarkdown(
+    blocks.map((block) => ({
+      id: block.id!,
+      parent_id: block.parent_id ?? null,
+      type: block.type,
+      done: block.done ?? false,
+      content: block.content,
+      tags: block.tags ?? [],
+      links: block.links ?? [],
+      transclusions: block.transclusions ?? [],
+      fields: block.fields ?? {},
+      depth: block.depth,
+      order: block.order,
+    })),
+  );
+
+const read = (name: string, extension: string) =>
+  readFileSync(join(fixtures, `${name}.${extension}`), "utf8");
+
+describe("parseMarkdownToBlocks", () => {
+  test.each(names)("%s", (name) => {
+    const expected: unknown = JSON.parse(read(name, "json"));
+    expect(outline(parse(read(name, "md")))).toEqual(
+      expected as ReturnType<typeof outline>,
+    );
+  });
+});
+
+describe("serializeBlocksToMarkdown", () => {
+  test.each(names)("%s parses back to the same blocks", (name) => {
+    const blocks = parse(read(name, "md"));
+    expect(outline(parse(serialize(blocks)))).toEqual(outline(blocks));
+  });
+
+  test.each(names)("%s is stable once written out", (name) => {
+    const once = serialize(parse(read(name, "md")));
+    expect(serialize(parse(once))).toBe(once);
+  });
+});
@@ -4,24 +4,12 @@ import type { BlockId, NewBlock } from "../../types/generated/public/Block";
 import { generateUUID } from "./utils";
 import type { UserId } from "../../types/generated/public/User";
 import type { NoteId } from "../../types/generated/public/Note";
+import { outlineMarkdown } from "../shared/outline";
 
-const tagRegex = /#([\w-]+)/g;
-const linkRegex = /\[\[([^\]]+)\]\]/g;
-const transclusionRegex = /!\[\[([^\]]+)\]\]/g;
-const fieldRegex = /^\s*([^:]+?)::\s*(.*)$/;
-
-function parseLineComponents(line: string) {
-  const tags = [...line.matchAll(tagRegex)].map((m) => m[0]);
-  const links = [...line.matchAll(linkRegex)].map((m) => m[1]);
-  const transclusions = [...line.matchAll(transclusionRegex)].map((m) => m[1]);
-  const content = line
-    .replace(tagRegex, "")
-    .replace(linkRegex, "")
-    .replace(transclusionRegex, "")
-    .trim();
-  return { content, tags, links, transclusions };
-}
-
+/**
+ * Parses a note's markdown into its blocks, as read by `outlineMarkdown`,
+ * giving each a new ID. Only tasks set `done`.
+ */
 export const parseMarkdownToBlocks = (
   markdownContent: string,
   filePath: string,
@@ -29,70 +17,28 @@ export const parseMarkdownToBlocks = (
   noteId: NoteId, // Accept the parent note's ID
 ): Effect.Effect<NewBlock[], never, never> =>
   Effect.gen(function* () {
-    const lines = markdownContent.split("\n");
     const blocks: NewBlock[] = [];
-    const parentStack: (NewBlock & { depth: number })[] = [];
-
-    let order = 0;
-
-    for (const line of lines) {
-      if (!line.trim()) continue;
-
-      const indentMatch = line.match(/^\s*/);
-
-      const indentation = indentMatch ? indentMatch[0].length : 0;
-      const depth = Math.floor(indentation / 2);
-
-      const fieldMatch = line.match(fieldRegex);
-
-      while (
-        parentStack.length > 0 &&
-        parentStack[parentStack.length - 1].depth >= depth
-      ) {
-        parentStack.pop();
-      }
-
-      const parent =
-        parentStack.length > 0
-          ? parentStack[parentStack.length - 1]
-          : undefined;
-
-      if (fieldMatch && parent) {
-        const key = fieldMatch[1].trim();
-        const value = fieldMatch[2].trim();
-        // Use `unknown` instead of `any` for better type safety.
-        parent.fields = {
-          ...(parent.fields as Record<string, unknown>),
-          [key]: value,
-        };
-        continue;
-      }
-
-      const { content, tags, links, transclusions } = parseLineComponents(line);
-      if (!content) continue;
-      const id = (yield* generateUUID()) as BlockId;
+    for (const [order, block] of outlineMarkdown(markdownContent).entries()) {
       const now = new Date();
-      const newBlock: NewBlock & { depth: number } = {
-        id,
+      blocks.push({
+        id: (yield* generateUUID()) as BlockId,
         user_id: userId,
         note_id: noteId, // Assign the note_id to the block
-        type: tags[0]?.substring(1) || "note",
-        content,
-        fields: {},
-        tags,
-        links,
-        transclusions,
+        type: block.type,
+        content: block.content,
+        fields: block.fields,
+        tags: block.tags,
+        links: block.links,
+        transclusions: block.transclusions,
+        ...(block.type === "task" ? { done: block.done } : {}),
         file_path: filePath,
-        parent_id: parent?.id ?? null,
-        depth,
-        order: order++,
+        parent_id: block.parent === null ? null : blocks[block.parent].id!,
+        depth: block.depth,
+        order,
         created_at: now,
         updated_at: now,
         version: 0,
-      };
-      blocks.push(newBlock);
-      parentStack.push(newBlock);
+      });
     }
-
     return blocks;
   });
@@ -0,0 +1,100 @@
+// lib/server/recurringTasks.test.ts
+import { describe, expect, test } from "bun:test";
+import { Effect } from "effect";
+import type { Block, NewBlock } from "../../types/generated/public/Block";
+import type { NoteId } from "../../types/generated/public/Note";
+import type { UserId } from "../../types/generated/public/User";
+import { toDateStringIn } from "../shared/tasks";
+import { CryptoLive } from "./crypto";
+import { parseMarkdownToBlocks } from "./parser";
+import { rescheduleCompletedTasks } from "./recurringTasks";
+
+const parse = (markdown: string): NewBlock[] =>
+  Effect.runSync(
+    Effect.provide(
+      parseMarkdownToBlocks(
+        markdown,
+        "note.md",
+        "00000000-0000-0000-0000-000000000001" as UserId,
+        "00000000-0000-0000-0000-000000000002" as NoteId,
+      ),
+      CryptoLive,
+    ),
+  );
+
+/** Ticks off what `before` holds as `after` does, on `today`. */
+const tick = (before: string, after: string, today = "2025-07-22") => {
+  const existing = parse(before).map(
+    (block): Block => ({
+      ...(block as Block),
+      done: block.done ?? false,
+      fields: block.fields ?? {},
+      tags: block.tags ?? [],
+      links: block.links ?? [],
+      transclusions: block.transclusions ?? [],
+      version: 1,
+      deleted_at: null,
+    }),
+  );
+  return rescheduleCompletedTasks(after, existing, parse(after), today);
+};
+
+const note = (box: string, ...fields: string[]) =>
+  [
+    `- [${box}] water plants`,
+    ...fields.map((f) => `  ${f}`),
+    "- [ ] other",
+  ].join("\n");
+
+describe("rescheduleCompletedTasks", () => {
+  test("moves a ticked-off recurring task on from its due date", () => {
+    const fields = ["repeat:: every 3 days", "due:: 2025-07-20"];
+    const { content, completions } = tick(
+      note(" ", ...fields),
+      note("x", ...fields),
+    );
+    expect(content).toBe(
+      note(" ", "repeat:: every 3 days", "due:: 2025-07-23"),
+    );
+    expect(completions).toHaveLength(1);
+    expect(completions[0]).toMatchObject({
+      content: "water plants",
+      repeat: "every 3 days",
+      due: "2025-07-20",
+      next_due: "2025-07-23",
+    });
+  });
+
+  test("counts from today for a task that had no due date", () => {
+    const { content, completions } = tick(
+      note(" ", "repeat:: daily"),
+      note("x", "repeat:: daily"),
+    );
+    expect(content).toBe(note(" ", "repeat:: daily", "due:: 2025-07-23"));
+    expect(completions[0]).toMatchObject({ due: null, next_due: "2025-07-23" });
+  });
+
+  test("leaves tasks without a rule, or already done, as they are", () => {
+    const plain = tick(note(" "), note("x"));
+    expect(plain).toEqual({ content: note("x"), completions: [] });
+
+    const done = note("x", "repeat:: daily");
+    expect(tick(done, done)).toEqual({ content: done, completions: [] });
+  });
+
+  test("takes today in the user's time zone", () => {
+    // Early on the 22nd in UTC is still the 21st in California.
+    const now = new Date("2025-07-22T02:30:00Z");
+    expect(toDateStringIn(now, "America/Los_Angeles")).toBe("2025-07-21");
+    expect(toDateStringIn(now, "Asia/Tokyo")).toBe("2025-07-22");
+    expect(toDateStringIn(now, null)).toBe("2025-07-22");
+    expect(toDateStringIn(now, "Not/AZone")).toBe("2025-07-22");
+
+    const { completions } = tick(
+      note(" ", "repeat:: daily"),
+      note("x", "repeat:: daily"),
+      toDateStringIn(now, "America/Los_Angeles"),
+    );
+    expect(completions[0].next_due).toBe("2025-07-22");
+  });
+});
@@ -0,0 +1,68 @@
+// lib/server/recurringTasks.ts
+import type { Block, NewBlock } from "../../types/generated/public/Block";
+import type { NewTaskCompletion } from "../../types/generated/public/TaskCompletion";
+import { reconcileBlocks } from "./blockReconciler";
+import { nextOccurrence, parseRecurrence } from "../shared/recurrence";
+import { rescheduleTaskInMarkdown, taskDue, taskRepeat } from "../shared/tasks";
+
+/** A completion to log, less the note and user it belongs to. */
+export type RecurringTaskCompletion = Omit<
+  NewTaskCompletion,
+  "note_id" | "user_id"
+>;
+
+/**
+ * Finds the recurring tasks (those with a `repeat::` field) that an edit to
+ * a note ticks off, and instead of leaving them done, unticks them and moves
+ * their `due::` on to the next occurrence after the old one, or after
+ * `today` if they had none. Returns the rewritten markdown and a completion
+ * for each task moved on; `content` is returned as is when there are none.
+ *
+ * `existing` are the note's stored blocks and `parsed` the blocks parsed
+ * from `content`; a task is ticked off when it is matched to a stored task
+ * that was not done.
+ */
+export const rescheduleCompletedTasks = (
+  content: string,
+  existing: readonly Block[],
+  parsed: readonly NewBlock[],
+  today: string,
+): { content: string; completions: RecurringTaskCompletion[] } => {
+  const stored = new Map(existing.map((block) => [block.id, block]));
+  const tasks = parsed
+    .filter((block) => block.type === "task")
+    .sort((a, b) => a.order - b.order);
+
+  const completions: RecurringTaskCompletion[] = [];
+  let rescheduled = content;
+  for (const { id, changes } of reconcileBlocks(existing, parsed).updates) {
+    const before = stored.get(id);
+    if (before?.type !== "task" || before.done || changes.done !== true) {
+      continue;
+    }
+    const index = tasks.findIndex((task) => task.order === changes.order);
+    const task = index === -1 ? undefined : tasks[index];
+    const repeat = task ? taskRepeat(task) : null;
+    const rule = repeat === null ? null : parseRecurrence(repeat);
+    if (!task || repeat === null || !rule) continue;
+
+    const due = taskDue(task);
+    const nextDue = nextOccurrence(rule, due ?? today);
+    const next = rescheduleTaskInMarkdown(
+      rescheduled,
+      index,
+      tasks.length,
+      nextDue,
+    );
+    if (next === null) continue;
+    rescheduled = next;
+    completions.push({
+      block_id: id,
+      content: task.content,
+      repeat,
+      due,
+      next_due: nextDue,
+    });
+  }
+  return { content: rescheduled, completions };
+};
@@ -8,15 +8,18 @@ import { S3Live } from "./s3";
 import { CryptoLive, type Crypto } from "./crypto";
 import { ConfigLive } from "./Config";
 import { PokeService, PokeServiceLive } from "./PokeService";
+import { PresenceService, PresenceServiceLive } from "./PresenceService";
 import { TRPCError } from "@trpc/server";
 import { serverLog } from "./logger.server";
 
-// 1. Combine the core service layers.
+// 1. Combine the core service layers. The PokeService LISTENs and logs
+// pokes through the same database layer (layers are shared by reference).
 const ServerServices = Layer.mergeAll(
   DbLayer,
   S3Live,
   CryptoLive,
-  PokeServiceLive,
+  PokeServiceLive.pipe(Layer.provide(DbLayer)),
+  PresenceServiceLive,
 );
 
 // 2. Define the full application layer.
@@ -31,7 +34,7 @@ export const ServerLive = ServerServices.pipe(
   }),
 );
 // Define the context type that our server effects will require.
-export type ServerContext = Db | S3 | Crypto | PokeService;
+export type ServerContext = Db | S3 | Crypto | PokeService | PresenceService;
 
 // --- Runtime Setup ---
 
@@ -0,0 +1,99 @@
+// lib/shared/lineDiff.ts
+
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffLine {
+  readonly op: DiffOp;
+  readonly text: string;
+}
+
+export const splitLines = (text: string): string[] =>
+  text === "" ? [] : text.split("\n");
+
+/**
+ * Myers' O(ND) shortest edit script between two line arrays. Common leading
+ * and trailing lines are stripped first, since most edits touch a small part
+ * of a note and the search cost grows with the differing region only.
+ */
+export const diffLineArrays = (
+  a: readonly string[],
+  b: readonly string[],
+): DiffLine[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  const n = aMid.length;
+  const m = bMid.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && aMid[x] === bMid[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  // Walk the trace backwards to recover the edits, then reverse them.
+  const middle: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      middle.push({ op: "equal", text: aMid[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) middle.push({ op: "insert", text: bMid[prevY] });
+      else middle.push({ op: "delete", text: aMid[prevX] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  middle.reverse();
+
+  return [
+    ...a.slice(0, prefix).map((text): DiffLine => ({ op: "equal", text })),
+    ...middle,
+    ...a
+      .slice(a.length - suffix)
+      .map((text): DiffLine => ({ op: "equal", text })),
+  ];
+};
+
+/** Line diff between two texts, turning `before` into `after`. */
+export const diffLines = (before: string, after: string): DiffLine[] =>
+  diffLineArrays(splitLines(before), splitLines(after));
@@ -0,0 +1,153 @@
+// lib/shared/markdown.ts
+import type { Block } from "../../types/generated/public/Block";
+
+/** A `key:: value` line, giving a field to the block it belongs to. */
+export const fieldRegex = /^\s*([^:]+?)::\s*(.*)$/;
+
+/** Code spans and backslash escapes, whose text is not markup. */
+export const inlineLiteralRegex = /(`+)[\s\S]*?\1|\\[\s\S]/g;
+
+/** The `[ ]` or `[x]` that makes a list item a task. */
+export const taskMarkerRegex = /^\[[ xX]\](?:\s|$)/;
+
+/**
+ * The subset of a block needed to write it back out as markdown.
+ */
+export type SerializableBlock = Pick<
+  Block,
+  | "id"
+  | "parent_id"
+  | "type"
+  | "done"
+  | "content"
+  | "tags"
+  | "links"
+  | "transclusions"
+  | "fields"
+  | "depth"
+  | "order"
+>;
+
+const listTypes = ["bullet", "numbered", "task"];
+
+/** Types whose content is their markdown source, written as is. */
+const verbatimTypes = ["code", "table", "html", "rule"];
+
+/**
+ * Serializes a note's blocks back into markdown, the inverse of
+ * `parseMarkdownToBlocks`. Because the parser strips tags, links and
+ * transclusions out of the text, they are re-appended after the content.
+ * Fields are written as `key:: value` lines straight after a paragraph or a
+ * list item's text, and as a paragraph of their own after other blocks, which
+ * the parser attaches to the block before it.
+ */
+export const serializeBlocksToMarkdown = (
+  blocks: readonly SerializableBlock[],
+): string => {
+  const lines: string[] = [];
+  const ordered = [...blocks].sort((a, b) => a.order - b.order);
+  const byId = new Map(ordered.map((block) => [block.id as string, block]));
+  const parentOf = (block: SerializableBlock) =>
+    block.parent_id ? byId.get(block.parent_id) : undefined;
+  const inList = (block: SerializableBlock) => {
+    for (let b: SerializableBlock | undefined = block; b; b = parentOf(b)) {
+      if (listTypes.includes(b.type)) return true;
+    }
+    return false;
+  };
+
+  // List markers as written, so nested content can line up under the text.
+  const markers = new Map<string, string>();
+  const lastChild = new Map<string | null, SerializableBlock>();
+  let previous: SerializableBlock | undefined;
+
+  for (const block of ordered) {
+    const isItem = listTypes.includes(block.type);
+    const sibling = lastChild.get(block.parent_id);
+    lastChild.set(block.parent_id, block);
+
+    let indent = "";
+    for (let p = parentOf(block); p; p = parentOf(p)) {
+      const marker = markers.get(p.id);
+      if (marker) indent = " ".repeat(marker.length) + indent;
+    }
+
+    // Items of one list, and whatever nests in them, run on without a gap.
+    if (previous !== undefined && !(isItem && inList(previous))) {
+      lines.push("");
+    }
+    previous = block;
+
+    if (verbatimTypes.includes(block.type)) {
+      lines.push(
+        ...block.content
+          .split("\n")
+          .map((line) => (line === "" ? line : indent + line)),
+      );
+    } else {
+      // The link pattern also matches `![[embeds]]`, so every transclusion
+      // shows up in `links` too; write those once, as embeds, in the order
+      // the links were found.
+      const pendingEmbeds = [...block.transclusions];
+      const references = block.links.map((link) => {
+        const i = pendingEmbeds.indexOf(link);
+        if (i === -1) return `[[${link}]]`;
+        pendingEmbeds.splice(i, 1);
+        return `![[${link}]]`;
+      });
+      const text = [
+        block.content,
+        ...block.tags,
+        ...references,
+        ...pendingEmbeds.map((target) => `![[${target}]]`),
+      ]
+        .filter((part) => part.length > 0)
+        .join(" ")
+        .split("\n");
+
+      if (block.type === "heading") {
+        const level = Math.min(Math.max(block.depth + 1, 1), 6);
+        lines.push(`${indent}${"#".repeat(level)} ${text.join(" ")}`);
+      } else if (block.type === "quote") {
+        lines.push(
+          ...text.map((line) => `${indent}>${line === "" ? "" : ` ${line}`}`),
+        );
+      } else {
+        let marker = "";
+        if (isItem) {
+          const n =
+            block.type === "numbered" && sibling?.type === "numbered"
+              ? Number.parseInt(markers.get(sibling.id) ?? "0", 10) + 1
+              : 1;
+          marker = block.type === "numbered" ? `${n}. ` : "- ";
+          markers.set(block.id, marker);
+        }
+        // The checkbox is the start of a task's text, not of its marker:
+        // what nests under the task lines up with the box.
+        const checkbox =
+          block.type === "task" ? `[${block.done ? "x" : " "}] ` : "";
+        const continued = indent + " ".repeat(marker.length);
+        lines.push(
+          `${indent}${marker}${checkbox}${text[0]}`.trimEnd(),
+          ...text.slice(1).map((line) => continued + line),
+        );
+      }
+    }
+
+    const fields =
+      block.fields && typeof block.fields === "object"
+        ? Object.entries(block.fields as Record<string, unknown>)
+        : [];
+    if (fields.length === 0) continue;
+    const inline = block.type === "paragraph" || isItem;
+    const fieldIndent = inline
+      ? indent + " ".repeat(markers.get(block.id)?.length ?? 0)
+      : indent;
+    if (!inline) lines.push("");
+    for (const [key, value] of fields) {
+      lines.push(`${fieldIndent}${key}:: ${String(value)}`);
+    }
+  }
+
+  return lines.join("\n");
+};
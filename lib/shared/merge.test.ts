@@ -0,0 +1,108 @@
+// lib/shared/merge.test.ts
+import { describe, expect, test } from "bun:test";
+import {
+  CONFLICT_END,
+  CONFLICT_SEPARATOR,
+  CONFLICT_START,
+  findConflicts,
+  mergeNote,
+  mergeText,
+  resolveConflict,
+} from "./merge";
+
+const lines = (...text: string[]) => text.join("\n");
+
+const base = lines("# Plan", "", "one", "two", "three", "", "end");
+
+describe("mergeText", () => {
+  test("takes edits to different lines from both sides", () => {
+    const ours = lines("# Plan", "", "ONE", "two", "three", "", "end");
+    const theirs = lines("# Plan", "", "one", "two", "three", "", "THE END");
+    expect(mergeText(base, ours, theirs)).toEqual({
+      text: lines("# Plan", "", "ONE", "two", "three", "", "THE END"),
+      conflicts: 0,
+    });
+  });
+
+  test("keeps lines added on one side and removed on the other", () => {
+    const ours = lines("# Plan", "", "one", "two", "two and a half", "three");
+    const theirs = lines("# Plan", "", "two", "three", "", "end");
+    expect(mergeText(base, ours, theirs)).toEqual({
+      text: lines("# Plan", "", "two", "two and a half", "three"),
+      conflicts: 0,
+    });
+  });
+
+  test("takes the same edit made on both sides once", () => {
+    const edited = lines("# Plan", "", "one", "2", "three", "", "end");
+    expect(mergeText(base, edited, edited)).toEqual({
+      text: edited,
+      conflicts: 0,
+    });
+  });
+
+  test("writes overlapping edits out between markers, this edit first", () => {
+    const ours = lines("# Plan", "", "one", "mine", "three", "", "end");
+    const theirs = lines("# Plan", "", "one", "yours", "three", "", "end");
+    const merged = mergeText(base, ours, theirs);
+    expect(merged).toEqual({
+      text: lines(
+        "# Plan",
+        "",
+        "one",
+        CONFLICT_START,
+        "mine",
+        CONFLICT_SEPARATOR,
+        "yours",
+        CONFLICT_END,
+        "three",
+        "",
+        "end",
+      ),
+      conflicts: 1,
+    });
+
+    const [hunk] = findConflicts(merged.text);
+    expect(hunk).toEqual({
+      startLine: 3,
+      endLine: 7,
+      ours: ["mine"],
+      theirs: ["yours"],
+    });
+    expect(resolveConflict(merged.text, hunk, hunk.theirs)).toBe(
+      lines("# Plan", "", "one", "yours", "three", "", "end"),
+    );
+  });
+});
+
+describe("mergeNote", () => {
+  test("merges the content and keeps whichever title changed", () => {
+    const ours = { title: "Plan", content: base.replace("one", "ONE") };
+    const stored = { title: "New plan", content: base.replace("end", "END") };
+    expect(mergeNote({ title: "Plan", content: base }, ours, stored)).toEqual({
+      title: "New plan",
+      content: base.replace("one", "ONE").replace("end", "END"),
+      conflicts: 0,
+    });
+  });
+
+  test("keeps this edit's title when both sides renamed the note", () => {
+    expect(
+      mergeNote(
+        { title: "Plan", content: base },
+        { title: "Mine", content: base },
+        { title: "Yours", content: base },
+      )?.title,
+    ).toBe("Mine");
+  });
+
+  test("refuses to merge without a base", () => {
+    expect(
+      mergeNote(
+        undefined,
+        { title: "Plan", content: base.replace("one", "ONE") },
+        { title: "Plan", content: base.replace("end", "END") },
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+// lib/shared/merge.ts
+import { diffLineArrays, splitLines } from "./lineDiff";
+
+export const CONFLICT_START = "<<<<<<< this edit";
+export const CONFLICT_SEPARATOR = "=======";
+export const CONFLICT_END = ">>>>>>> saved version";
+
+export interface MergeResult {
+  readonly text: string;
+  /** Hunks both sides changed differently, written out with markers. */
+  readonly conflicts: number;
+}
+
+/** For each line of `base`, the index of the same line in `other`, if kept. */
+const matchLines = (
+  base: readonly string[],
+  other: readonly string[],
+): (number | undefined)[] => {
+  const matches: (number | undefined)[] = [];
+  let baseIndex = 0;
+  let otherIndex = 0;
+  for (const line of diffLineArrays(base, other)) {
+    if (line.op === "equal") matches[baseIndex++] = otherIndex++;
+    else if (line.op === "delete") baseIndex++;
+    else otherIndex++;
+  }
+  return matches;
+};
+
+const sameLines = (a: readonly string[], b: readonly string[]) =>
+  a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Line-based three-way merge (diff3). Regions where only one side changed
+ * `base` take that side; regions both changed identically take either; the
+ * rest are kept from both sides between conflict markers, `ours` first.
+ */
+export const mergeText = (
+  base: string,
+  ours: string,
+  theirs: string,
+): MergeResult => {
+  const o = splitLines(base);
+  const a = splitLines(ours);
+  const b = splitLines(theirs);
+  const matchA = matchLines(o, a);
+  const matchB = matchLines(o, b);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let ia = 0;
+  let ib = 0;
+
+  while (i < o.length || ia < a.length || ib < b.length) {
+    // A base line both sides kept where we expect it: copy and move on.
+    if (i < o.length && matchA[i] === ia && matchB[i] === ib) {
+      out.push(o[i]);
+      i++;
+      ia++;
+      ib++;
+      continue;
+    }
+
+    // Otherwise the unstable chunk runs to the next base line both kept.
+    let j = i;
+    while (
+      j < o.length &&
+      (matchA[j] === undefined || matchB[j] === undefined)
+    ) {
+      j++;
+    }
+    const endA = j < o.length ? matchA[j]! : a.length;
+    const endB = j < o.length ? matchB[j]! : b.length;
+    const chunkO = o.slice(i, j);
+    const chunkA = a.slice(ia, endA);
+    const chunkB = b.slice(ib, endB);
+
+    if (sameLines(chunkA, chunkB) || sameLines(chunkO, chunkB)) {
+      out.push(...chunkA);
+    } else if (sameLines(chunkO, chunkA)) {
+      out.push(...chunkB);
+    } else {
+      conflicts++;
+      out.push(
+        CONFLICT_START,
+        ...chunkA,
+        CONFLICT_SEPARATOR,
+        ...chunkB,
+        CONFLICT_END,
+      );
+    }
+    i = j;
+    ia = endA;
+    ib = endB;
+  }
+
+  return { text: out.join("\n"), conflicts };
+};
+
+/** A note's title and markdown, as edited and merged. */
+export interface NoteText {
+  readonly title: string;
+  readonly content: string;
+}
+
+/**
+ * Merges an edit made against `base` into the `stored` note. The title is
+ * one line, so where both sides changed it this edit's title wins. Returns
+ * null without a base: with nothing to diff against, every line of both
+ * sides would read as added and the merge would hold the note twice.
+ */
+export const mergeNote = (
+  base: NoteText | undefined,
+  ours: NoteText,
+  stored: NoteText,
+): (NoteText & { readonly conflicts: number }) | null => {
+  if (base === undefined) return null;
+  const merged = mergeText(base.content, ours.content, stored.content);
+  return {
+    title: ours.title === base.title ? stored.title : ours.title,
+    content: merged.text,
+    conflicts: merged.conflicts,
+  };
+};
+
+/** One conflict hunk found in a note's content. */
+export interface ConflictHunk {
+  /** Index of the `CONFLICT_START` line. */
+  readonly startLine: number;
+  /** Index of the `CONFLICT_END` line. */
+  readonly endLine: number;
+  readonly ours: readonly string[];
+  readonly theirs: readonly string[];
+}
+
+/** Finds the conflict hunks `mergeText` wrote into `content`. */
+export const findConflicts = (content: string): ConflictHunk[] => {
+  const lines = splitLines(content);
+  const hunks: ConflictHunk[] = [];
+  for (let start = 0; start < lines.length; start++) {
+    if (lines[start] !== CONFLICT_START) continue;
+    const separator = lines.indexOf(CONFLICT_SEPARATOR, start + 1);
+    const end = separator === -1 ? -1 : lines.indexOf(CONFLICT_END, separator);
+    if (end === -1) break;
+    hunks.push({
+      startLine: start,
+      endLine: end,
+      ours: lines.slice(start + 1, separator),
+      theirs: lines.slice(separator + 1, end),
+    });
+    start = end;
+  }
+  return hunks;
+};
+
+/** Replaces one conflict hunk in `content` with the chosen lines. */
+export const resolveConflict = (
+  content: string,
+  hunk: ConflictHunk,
+  keep: readonly string[],
+): string => {
+  const lines = splitLines(content);
+  lines.splice(hunk.startLine, hunk.endLine - hunk.startLine + 1, ...keep);
+  return lines.join("\n");
+};
@@ -0,0 +1,191 @@
+// lib/shared/noteDocument.ts
+import * as Y from "yjs";
+import { splitLines } from "./lineDiff";
+
+/**
+ * The XML fragment a note's document keeps its content in. TipTap's
+ * collaboration extension binds the editor to it by this name.
+ */
+export const NOTE_DOCUMENT_FIELD = "content";
+
+/**
+ * Poke key for a note's document. It is not a Replicache key: sockets that
+ * have the document open resync it instead of pulling.
+ */
+export const noteDocumentKey = (noteId: string) => `noteDocument/${noteId}`;
+
+export const parseNoteDocumentKey = (key: string): string | null =>
+  key.startsWith("noteDocument/") ? key.slice("noteDocument/".length) : null;
+
+/** Yjs updates and state vectors travel over the socket as base64. */
+export const encodeBinary = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+export const decodeBinary = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+// --- Markdown <-> document ---
+//
+// Notes are stored as line-based markdown, one block per line. Seeding a
+// document turns every line into a paragraph holding that line verbatim, so
+// flattening an untouched document gives back the exact same text. Structure
+// the editor adds on top (headings, lists, code blocks, marks) is written out
+// as the markdown that would produce it.
+
+const MARKS: readonly [string, string][] = [
+  ["code", "`"],
+  ["bold", "**"],
+  ["italic", "_"],
+  ["strike", "~~"],
+];
+
+const inlineToMarkdown = (node: Y.XmlElement | Y.XmlText): string => {
+  if (node instanceof Y.XmlText) {
+    const delta = node.toDelta() as {
+      insert: unknown;
+      attributes?: Record<string, unknown>;
+    }[];
+    return delta
+      .map(({ insert, attributes = {} }) => {
+        if (typeof insert !== "string") return "";
+        const markers = MARKS.filter(([mark]) => mark in attributes).map(
+          ([, marker]) => marker,
+        );
+        return `${markers.join("")}${insert}${[...markers].reverse().join("")}`;
+      })
+      .join("");
+  }
+  return node.nodeName === "hardBreak" ? "\n" : "";
+};
+
+const textOf = (element: Y.XmlElement) =>
+  element
+    .toArray()
+    .map((child) =>
+      child instanceof Y.XmlElement || child instanceof Y.XmlText
+        ? inlineToMarkdown(child)
+        : "",
+    )
+    .join("");
+
+const blockToLines = (
+  node: Y.XmlElement | Y.XmlText,
+  indent: string,
+): string[] => {
+  if (node instanceof Y.XmlText) return [indent + inlineToMarkdown(node)];
+  const children = node
+    .toArray()
+    .filter((child): child is Y.XmlElement => child instanceof Y.XmlElement);
+
+  switch (node.nodeName) {
+    case "heading": {
+      const level = Number(node.getAttribute("level") ?? 1);
+      return [`${indent}${"#".repeat(level)} ${textOf(node)}`];
+    }
+    case "codeBlock": {
+      const language = node.getAttribute("language");
+      return [
+        `${indent}\`\`\`${typeof language === "string" ? language : ""}`,
+        ...splitLines(textOf(node)).map((line) => indent + line),
+        `${indent}\`\`\``,
+      ];
+    }
+    case "horizontalRule":
+      return [`${indent}---`];
+    case "blockquote":
+      return children.flatMap((child) => blockToLines(child, `${indent}> `));
+    case "bulletList":
+    case "orderedList":
+      return children.flatMap((item, i) => {
+        const marker = node.nodeName === "bulletList" ? "- " : `${i + 1}. `;
+        const [first, ...rest] = item
+          .toArray()
+          .filter(
+            (child): child is Y.XmlElement => child instanceof Y.XmlElement,
+          );
+        const nested = `${indent}  `;
+        return [
+          ...(first
+            ? blockToLines(first, indent).map((line, j) =>
+                j === 0 ? indent + marker + line.slice(indent.length) : line,
+              )
+            : [indent + marker.trimEnd()]),
+          ...rest.flatMap((child) => blockToLines(child, nested)),
+        ];
+      });
+    default:
+      return [indent + textOf(node)];
+  }
+};
+
+/** Flattens a note's document back into the markdown stored on the note. */
+export const noteDocumentToMarkdown = (doc: Y.Doc): string =>
+  doc
+    .getXmlFragment(NOTE_DOCUMENT_FIELD)
+    .toArray()
+    .flatMap((node) =>
+      node instanceof Y.XmlElement || node instanceof Y.XmlText
+        ? blockToLines(node, "")
+        : [],
+    )
+    .join("\n");
+
+const paragraph = (line: string) => {
+  const element = new Y.XmlElement("paragraph");
+  if (line.length > 0) element.insert(0, [new Y.XmlText(line)]);
+  return element;
+};
+
+const startsWithLines = (
+  lines: readonly string[],
+  block: readonly string[],
+  at: number,
+) => block.every((line, i) => lines[at + i] === line);
+
+/**
+ * Makes a note's document read as `markdown`: used to seed new documents and
+ * to fold edits made outside the editor back in. Top-level blocks that
+ * already match at the start and end are kept, so their structure and any
+ * concurrent edits to them survive; only the blocks in between are replaced
+ * with one paragraph per line.
+ */
+export const setNoteDocumentMarkdown = (doc: Y.Doc, markdown: string) => {
+  const fragment = doc.getXmlFragment(NOTE_DOCUMENT_FIELD);
+  const target = splitLines(markdown);
+  const blocks = fragment
+    .toArray()
+    .map((node) =>
+      node instanceof Y.XmlElement || node instanceof Y.XmlText
+        ? blockToLines(node, "")
+        : [],
+    );
+
+  let start = 0;
+  let lineStart = 0;
+  while (
+    start < blocks.length &&
+    startsWithLines(target, blocks[start], lineStart)
+  ) {
+    lineStart += blocks[start].length;
+    start++;
+  }
+  let end = blocks.length;
+  let lineEnd = target.length;
+  while (
+    end > start &&
+    lineEnd - blocks[end - 1].length >= lineStart &&
+    startsWithLines(target, blocks[end - 1], lineEnd - blocks[end - 1].length)
+  ) {
+    lineEnd -= blocks[end - 1].length;
+    end--;
+  }
+  if (start === end && lineStart === lineEnd) return;
+
+  doc.transact(() => {
+    fragment.delete(start, end - start);
+    fragment.insert(start, target.slice(lineStart, lineEnd).map(paragraph));
+  });
+};
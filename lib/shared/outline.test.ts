@@ -0,0 +1,102 @@
+// lib/shared/outline.test.ts
+import { describe, expect, test } from "bun:test";
+import type { BlockId } from "../../types/generated/public/Block";
+import type { SerializableBlock } from "./markdown";
+import { outlineMarkdown, updateBlockInNote } from "./outline";
+
+/** A note's blocks as stored, with IDs standing in for the real ones. */
+const blocksOf = (markdown: string): SerializableBlock[] =>
+  outlineMarkdown(markdown).map((block, order) => ({
+    id: `b${order}` as BlockId,
+    parent_id: block.parent === null ? null : (`b${block.parent}` as BlockId),
+    type: block.type,
+    done: block.done,
+    content: block.content,
+    tags: block.tags,
+    links: block.links,
+    transclusions: block.transclusions,
+    fields: block.fields,
+    depth: block.depth,
+    order,
+  }));
+
+const edit = (
+  markdown: string,
+  order: number,
+  changes: Partial<SerializableBlock>,
+) => {
+  const blocks = blocksOf(markdown);
+  return updateBlockInNote(markdown, blocks, { ...blocks[order], ...changes });
+};
+
+describe("outlineMarkdown", () => {
+  test("gives each block the lines it was read from", () => {
+    const markdown = [
+      "# Plan #work",
+      "",
+      "- one",
+      "  - two",
+      "",
+      "```",
+      "code",
+      "```",
+      "",
+      "key:: value",
+    ].join("\n");
+    expect(outlineMarkdown(markdown).map((block) => block.lines)).toEqual([
+      [0, 1],
+      [2, 3],
+      [3, 4],
+      [5, 10],
+    ]);
+  });
+});
+
+describe("updateBlockInNote", () => {
+  test("leaves the rest of the note as written", () => {
+    const markdown = [
+      "Intro with #tag in the middle and [[Link]].",
+      "",
+      "Some *text*  to   change",
+      "",
+      "More #tag text.",
+    ].join("\n");
+    expect(edit(markdown, 1, { content: "Changed" })).toBe(
+      [
+        "Intro with #tag in the middle and [[Link]].",
+        "",
+        "Changed",
+        "",
+        "More #tag text.",
+      ].join("\n"),
+    );
+  });
+
+  test("keeps a list item's indentation and marker", () => {
+    const markdown = ["* top", "  1) second #a", "  2)  third"].join("\n");
+    expect(edit(markdown, 2, { content: "edited" })).toBe(
+      ["* top", "  1) second #a", "  2)  edited"].join("\n"),
+    );
+  });
+
+  test("ticks a task and writes its fields under it", () => {
+    const markdown = ["- [ ] call", "- [ ] write"].join("\n");
+    expect(
+      edit(markdown, 1, { done: true, fields: { due: "2025-07-21" } }),
+    ).toBe(["- [ ] call", "- [x] write", "  due:: 2025-07-21"].join("\n"));
+  });
+
+  test("replaces a fields paragraph along with its block", () => {
+    const markdown = ["# Heading", "", "key:: old", "", "After"].join("\n");
+    expect(edit(markdown, 0, { fields: { key: "new" } })).toBe(
+      ["# Heading", "", "key:: new", "", "After"].join("\n"),
+    );
+  });
+
+  test("writes the note out when the markdown no longer lines up", () => {
+    const blocks = blocksOf("First\n\nSecond");
+    expect(
+      updateBlockInNote("First", blocks, { ...blocks[1], content: "Two" }),
+    ).toBe("First\n\nTwo");
+  });
+});
@@ -0,0 +1,385 @@
+// lib/shared/outline.ts
+import MarkdownIt from "markdown-it";
+import type Token from "markdown-it/lib/token.mjs";
+import { tagRegex } from "./tags";
+import { wikiLinkRegex } from "./wikiLinks";
+import { transclusionRegex } from "./transclusion";
+import {
+  fieldRegex,
+  inlineLiteralRegex,
+  serializeBlocksToMarkdown,
+  taskMarkerRegex,
+  type SerializableBlock,
+} from "./markdown";
+
+const md = new MarkdownIt();
+
+/**
+ * A block as found in a note's markdown, before it is given an ID. `parent`
+ * is the index of its parent in the outline, and `lines` the `[start, end)`
+ * source lines it was read from, any fields paragraph of its own included.
+ */
+export interface OutlineBlock {
+  type: string;
+  content: string;
+  fields: Record<string, string>;
+  tags: string[];
+  links: string[];
+  transclusions: string[];
+  done: boolean;
+  parent: number | null;
+  depth: number;
+  lines: [number, number];
+}
+
+const rangesOf = (text: string, regex: RegExp): [number, number][] =>
+  [...text.matchAll(regex)].map((m) => [m.index, m.index + m[0].length]);
+
+/** `text` with each of `ranges` replaced by spaces, keeping offsets intact. */
+const blankOut = (text: string, ranges: readonly [number, number][]) =>
+  ranges.reduce(
+    (out, [from, to]) =>
+      out.slice(0, from) + " ".repeat(to - from) + out.slice(to),
+    text,
+  );
+
+/**
+ * Splits the raw markdown of a heading, paragraph or list item's text into
+ * its `key:: value` fields, the tags, links and transclusions in it, and the
+ * text that remains. Nothing in a code span or escaped with `\` is markup.
+ */
+const parseInline = (raw: string) => {
+  const fields: Record<string, string> = {};
+  const text = raw
+    .split("\n")
+    .filter((line) => {
+      const match = blankOut(line, rangesOf(line, inlineLiteralRegex)).match(
+        fieldRegex,
+      );
+      if (!match) return true;
+      fields[match[1].trim()] = line.slice(line.indexOf("::") + 2).trim();
+      return false;
+    })
+    .join("\n");
+
+  const masked = blankOut(text, rangesOf(text, inlineLiteralRegex));
+  const transclusions = [...masked.matchAll(transclusionRegex)];
+  // The link pattern also matches inside `![[embeds]]`.
+  const links = [...masked.matchAll(wikiLinkRegex)];
+  // `[[Note#Heading]]` points into a note; its `#Heading` is not a tag.
+  const tags = [
+    ...blankOut(masked, rangesOf(masked, wikiLinkRegex)).matchAll(tagRegex),
+  ];
+
+  const content = blankOut(
+    text,
+    [...transclusions, ...links, ...tags].map((m) => [
+      m.index,
+      m.index + m[0].length,
+    ]),
+  )
+    .split("\n")
+    .map((line) => line.replace(/[ \t]{2,}/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+
+  return {
+    content,
+    fields,
+    tags: tags.map((m) => m[0]),
+    links: links.map((m) => m[1]),
+    transclusions: transclusions.map((m) => m[1]),
+  };
+};
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+/** The `[start, end)` lines a token spans, less trailing blank lines. */
+const lineRange = (
+  lines: readonly string[],
+  token: Token,
+): [number, number] => {
+  const [start, end] = token.map ?? [0, 0];
+  let last = end;
+  while (last > start && (lines[last - 1] ?? "").trim() === "") last--;
+  return [start, last];
+};
+
+/** The lines of `range` less their common indentation. */
+const dedent = (lines: readonly string[], [start, end]: [number, number]) => {
+  const own = lines.slice(start, end);
+  const indent = Math.min(
+    ...own.filter((line) => line.trim() !== "").map(indentOf),
+  );
+  return own.map((line) => line.slice(indent)).join("\n");
+};
+
+/** Blocks kept as their markdown source, by the token that opens them. */
+const verbatimTypes: Partial<Record<string, string>> = {
+  fence: "code",
+  code_block: "code",
+  table_open: "table",
+  html_block: "html",
+  hr: "rule",
+};
+
+const listTypes = ["bullet", "numbered", "task"];
+
+const verbatimBlockTypes = Object.values(verbatimTypes);
+
+/**
+ * Reads a note's markdown into its outline of blocks, in order. A heading
+ * holds everything up to the next heading of the same or a higher level; a
+ * list item holds its sub-lists and any further paragraphs or code inside
+ * it.
+ *
+ * Blocks are typed by what they are: `heading` (of level `depth + 1`),
+ * `paragraph`, `bullet`, `numbered`, `task` (an item starting `[ ]` or
+ * `[x]`, which sets `done` and is taken out of its content), `quote`, and
+ * `code`, `table`, `html` and `rule`, which are kept verbatim. A paragraph
+ * of nothing but `key:: value` lines adds its fields to the block before it.
+ */
+export const outlineMarkdown = (markdown: string): OutlineBlock[] => {
+  const lines = markdown.split("\n");
+  const tokens = md.parse(markdown, {});
+  const blocks: OutlineBlock[] = [];
+
+  const headings: { level: number; block: number }[] = [];
+  const lists: { ordered: boolean }[] = [];
+  // One entry per open list item, null until its text has been seen.
+  const items: (number | null)[] = [];
+
+  const parentBlock = (): number | null =>
+    items.findLast((item) => item !== null) ?? headings.at(-1)?.block ?? null;
+
+  const addBlock = (
+    type: string,
+    parts: ReturnType<typeof parseInline>,
+    parent: number | null,
+    range: [number, number],
+    depth = parent === null ? 0 : blocks[parent].depth + 1,
+  ) =>
+    blocks.push({
+      type,
+      ...parts,
+      done: false,
+      parent,
+      depth,
+      lines: range,
+    }) - 1;
+
+  const verbatim = (range: [number, number], indented: boolean) => {
+    const source = dedent(lines, range);
+    return {
+      // An indented code block is code because of its indentation, so that
+      // much of it is kept.
+      content: indented
+        ? source
+            .split("\n")
+            .map((line) => (line === "" ? line : `    ${line}`))
+            .join("\n")
+        : source,
+      fields: {},
+      tags: [],
+      links: [],
+      transclusions: [],
+    };
+  };
+
+  /** The index of the token closing the one opened at `i`. */
+  const closing = (i: number) => {
+    const close = tokens[i].type.replace(/_open$/, "_close");
+    let level = 0;
+    for (let j = i; j < tokens.length; j++) {
+      if (tokens[j].type === tokens[i].type) level++;
+      else if (tokens[j].type === close && --level === 0) return j;
+    }
+    return tokens.length;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    switch (token.type) {
+      case "heading_open": {
+        const level = Number(token.tag.slice(1));
+        while (headings.length > 0 && headings.at(-1)!.level >= level) {
+          headings.pop();
+        }
+        const block = addBlock(
+          "heading",
+          parseInline(tokens[i + 1].content),
+          headings.at(-1)?.block ?? null,
+          lineRange(lines, token),
+          level - 1,
+        );
+        headings.push({ level, block });
+        i = closing(i);
+        break;
+      }
+
+      case "bullet_list_open":
+      case "ordered_list_open":
+        lists.push({ ordered: token.type === "ordered_list_open" });
+        break;
+      case "bullet_list_close":
+      case "ordered_list_close":
+        lists.pop();
+        break;
+      case "list_item_open":
+        items.push(null);
+        break;
+      case "list_item_close":
+        items.pop();
+        break;
+
+      case "paragraph_open": {
+        const parsed = parseInline(tokens[i + 1].content);
+        const range = lineRange(lines, token);
+        i = closing(i);
+        if (items.length > 0 && items.at(-1) === null) {
+          const marker = parsed.content.match(taskMarkerRegex);
+          if (marker) {
+            const block = addBlock(
+              "task",
+              {
+                ...parsed,
+                content: parsed.content.slice(marker[0].length).trimStart(),
+              },
+              parentBlock(),
+              range,
+            );
+            blocks[block].done = marker[0][1] !== " ";
+            items[items.length - 1] = block;
+          } else {
+            items[items.length - 1] = addBlock(
+              lists.at(-1)?.ordered ? "numbered" : "bullet",
+              parsed,
+              parentBlock(),
+              range,
+            );
+          }
+        } else if (parsed.content !== "") {
+          addBlock("paragraph", parsed, parentBlock(), range);
+        } else if (blocks.length > 0) {
+          const previous = blocks[blocks.length - 1];
+          previous.fields = { ...previous.fields, ...parsed.fields };
+          previous.tags = [...previous.tags, ...parsed.tags];
+          previous.links = [...previous.links, ...parsed.links];
+          previous.transclusions = [
+            ...previous.transclusions,
+            ...parsed.transclusions,
+          ];
+          previous.lines = [previous.lines[0], range[1]];
+        }
+        break;
+      }
+
+      case "blockquote_open": {
+        // One block, whatever the quote holds.
+        const range = lineRange(lines, token);
+        const raw = dedent(lines, range)
+          .split("\n")
+          .map((line) => line.replace(/^\s*> ?/, ""))
+          .join("\n");
+        addBlock("quote", parseInline(raw), parentBlock(), range);
+        i = closing(i);
+        break;
+      }
+
+      default: {
+        const type = verbatimTypes[token.type];
+        if (type === undefined) break;
+        const range = lineRange(lines, token);
+        addBlock(
+          type,
+          verbatim(range, token.type === "code_block"),
+          parentBlock(),
+          range,
+        );
+        if (token.nesting === 1) i = closing(i);
+      }
+    }
+  }
+
+  return blocks;
+};
+
+/** A list item's marker and the spaces after it, as written. */
+const listMarkerRegex = /^\s*(?:[-*+]|\d+[.)])(?:[ \t]+|$)/;
+
+/**
+ * A note's markdown with block `block.id` rewritten as `block`, leaving the
+ * rest of the note as written. Only the block's own lines are replaced,
+ * keeping their indentation and list marker; the note is written out from
+ * `blocks` (the note's stored blocks) when the markdown no longer lines up
+ * with them or the edit moves the block.
+ */
+export const updateBlockInNote = (
+  content: string,
+  blocks: readonly SerializableBlock[],
+  block: SerializableBlock,
+): string => {
+  const ordered = [...blocks].sort((a, b) => a.order - b.order);
+  const index = ordered.findIndex((b) => b.id === block.id);
+  const written = () =>
+    serializeBlocksToMarkdown(
+      ordered.map((b) => (b.id === block.id ? block : b)),
+    );
+
+  const outline = outlineMarkdown(content);
+  const before = ordered[index];
+  const source = outline[index];
+  if (
+    index === -1 ||
+    outline.length !== ordered.length ||
+    source.type !== before.type ||
+    block.type !== before.type ||
+    block.parent_id !== before.parent_id ||
+    block.depth !== before.depth ||
+    block.order !== before.order
+  ) {
+    return written();
+  }
+
+  const lines = content.split("\n");
+  const [start, end] = source.lines;
+  // Verbatim blocks were read less their common indentation, and an
+  // indented code block's content keeps four spaces of it.
+  const indent = verbatimBlockTypes.includes(block.type)
+    ? Math.min(
+        ...lines
+          .slice(start, end)
+          .filter((line) => line.trim() !== "")
+          .map(indentOf),
+      ) - (/^ {4}/.test(source.content) ? 4 : 0)
+    : indentOf(lines[start]);
+
+  // The block on its own, then moved back to where it was.
+  const alone = serializeBlocksToMarkdown([{ ...block, parent_id: null }]);
+  let replacement: string[];
+  if (listTypes.includes(block.type)) {
+    const marker = block.type === "numbered" ? "1. " : "- ";
+    const prefix = lines[start].match(listMarkerRegex)?.[0] ?? marker;
+    const [first, ...rest] = alone.split("\n");
+    replacement = [
+      `${prefix}${first.slice(marker.length)}`.trimEnd(),
+      ...rest.map((line) =>
+        line === ""
+          ? line
+          : " ".repeat(prefix.length) + line.slice(marker.length),
+      ),
+    ];
+  } else {
+    replacement = alone
+      .split("\n")
+      .map((line) => (line === "" ? line : " ".repeat(indent) + line));
+  }
+  lines.splice(start, end - start, ...replacement);
+  const updated = lines.join("\n");
+
+  // Text that changes the note's shape, say a paragraph split in two, is
+  // better written out whole.
+  return outlineMarkdown(updated).length === ordered.length
+    ? updated
+    : written();
+};
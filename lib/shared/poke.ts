@@ -0,0 +1,22 @@
+// lib/shared/poke.ts
+
+/**
+ * What the server sends over `/ws` when a user's data changed. Pokes are
+ * coalesced per user over a short window, so one message can stand for
+ * several writes.
+ */
+export interface PokeMessage {
+  readonly type: "poke";
+  /**
+   * The client group whose push caused every change in this poke, or null
+   * when it came from elsewhere (another group, a job, a tRPC call). The
+   * server does not send a poke to the group that caused it.
+   */
+  readonly clientGroupID: string | null;
+  /**
+   * Replicache keys of the notes and blocks that were written, or null when
+   * unknown or too many to list. Blocks rewritten as a side effect of a note
+   * change are covered by their note's key.
+   */
+  readonly keys: readonly string[] | null;
+}
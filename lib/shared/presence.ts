@@ -0,0 +1,30 @@
+// lib/shared/presence.ts
+
+/** One open socket's presence, as the server broadcasts it. */
+export interface PresenceSession {
+  /** Unique per socket, so two tabs on the same device are told apart. */
+  readonly connectionId: string;
+  readonly userId: string;
+  readonly email: string;
+  readonly avatarUrl: string | null;
+  /** A short description of the client, e.g. "Firefox on macOS". */
+  readonly device: string;
+  /** The note being viewed, or null when on any other page. */
+  readonly noteId: string | null;
+  readonly editing: boolean;
+}
+
+/** Sent by the server whenever any of a user's sessions changes. */
+export interface PresenceMessage {
+  readonly type: "presence";
+  /** Every session of the user except the recipient's own. */
+  readonly sessions: readonly PresenceSession[];
+}
+
+/** Sent by a client whenever what it is viewing or editing changes. */
+export interface PresenceUpdateMessage {
+  readonly type: "presence";
+  readonly device: string;
+  readonly noteId: string | null;
+  readonly editing: boolean;
+}
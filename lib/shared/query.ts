@@ -0,0 +1,446 @@
+// lib/shared/query.ts
+import { Data, Either } from "effect";
+import type { Block } from "../../types/generated/public/Block";
+import { blockHasTag, normalizeTagName } from "./tags";
+
+/**
+ * A small query language over blocks, written in a ```query fence in a note:
+ *
+ *   TABLE status, due FROM #project WHERE status != "done" SORT due LIMIT 20
+ *   LIST FROM #idea WHERE NOT archived
+ *
+ * Names refer to a block's `key:: value` fields, or else to its `content` or
+ * `type`. Comparisons are numeric when both sides are numbers and otherwise
+ * compare text case-insensitively; a missing field is `null`.
+ */
+
+export class QueryParseError extends Data.TaggedError("QueryParseError")<{
+  readonly message: string;
+  /** Offset into the query text where the problem was found. */
+  readonly position: number;
+}> {}
+
+export type QueryValue = string | number | boolean | null;
+
+export type CompareOp = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+export type QueryExpr =
+  | { readonly kind: "field"; readonly name: string }
+  | { readonly kind: "literal"; readonly value: QueryValue }
+  | {
+      readonly kind: "compare";
+      readonly op: CompareOp;
+      readonly left: QueryExpr;
+      readonly right: QueryExpr;
+    }
+  | {
+      readonly kind: "and" | "or";
+      readonly left: QueryExpr;
+      readonly right: QueryExpr;
+    }
+  | { readonly kind: "not"; readonly expr: QueryExpr };
+
+export interface QuerySort {
+  readonly field: string;
+  readonly descending: boolean;
+}
+
+export interface Query {
+  readonly view: "table" | "list";
+  /** The fields shown as columns of a TABLE. */
+  readonly columns: readonly string[];
+  /** Only blocks with this tag (normalized, without the `#`). */
+  readonly from: string | null;
+  readonly where: QueryExpr | null;
+  readonly sort: readonly QuerySort[];
+  readonly limit: number | null;
+}
+
+/** The parts of a block a query reads. */
+export type QueryableBlock = Pick<
+  Block,
+  "content" | "type" | "done" | "tags" | "fields"
+>;
+
+export interface QueryRow<B extends QueryableBlock> {
+  readonly block: B;
+  /** The block's value for each of the query's columns. */
+  readonly values: readonly QueryValue[];
+}
+
+/** A ```query fence; the text inside is the query. */
+const queryFenceRegex = /^```query[^\S\n]*\n([\s\S]*?)^```[^\S\n]*$/gm;
+
+/** The queries written in a note's content, in order. */
+export const extractQueries = (content: string): string[] =>
+  [...content.matchAll(queryFenceRegex)].map(([, source]) => source.trim());
+
+// --- Parsing ---
+
+type Token =
+  | { readonly kind: "word"; readonly text: string; readonly position: number }
+  | { readonly kind: "tag"; readonly text: string; readonly position: number }
+  | {
+      readonly kind: "string";
+      readonly text: string;
+      readonly position: number;
+    }
+  | {
+      readonly kind: "number";
+      readonly value: number;
+      readonly position: number;
+    }
+  | {
+      readonly kind: "symbol";
+      readonly text: CompareOp | "," | "(" | ")";
+      readonly position: number;
+    };
+
+const tokenPattern =
+  /(#[\w-]+)|([A-Za-z_][\w-]*)|(-?\d+(?:\.\d+)?)|"((?:[^"\\]|\\.)*)"|(!=|<=|>=|=|<|>|,|\(|\))/y;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+  for (;;) {
+    while (/\s/.test(source.charAt(position))) position++;
+    if (position >= source.length) return tokens;
+    tokenPattern.lastIndex = position;
+    const match = tokenPattern.exec(source);
+    if (!match) {
+      throw new QueryParseError({
+        message: `Unexpected "${source[position]}"`,
+        position,
+      });
+    }
+    const [, tag, word, number, string, symbol] = match;
+    if (tag !== undefined) {
+      tokens.push({ kind: "tag", text: tag, position });
+    } else if (word !== undefined) {
+      tokens.push({ kind: "word", text: word, position });
+    } else if (number !== undefined) {
+      tokens.push({ kind: "number", value: Number(number), position });
+    } else if (string !== undefined) {
+      const text = string.replace(/\\(.)/g, "$1");
+      tokens.push({ kind: "string", text, position });
+    } else {
+      const text = symbol as CompareOp | "," | "(" | ")";
+      tokens.push({ kind: "symbol", text, position });
+    }
+    position = tokenPattern.lastIndex;
+  }
+};
+
+const keywords = [
+  "table",
+  "list",
+  "from",
+  "where",
+  "sort",
+  "asc",
+  "desc",
+  "limit",
+  "and",
+  "or",
+  "not",
+  "true",
+  "false",
+  "null",
+];
+
+const compareOps: readonly string[] = ["=", "!=", "<", "<=", ">", ">="];
+
+/**
+ * Parses a query. Recursive descent; within `WHERE`, `NOT` binds tightest,
+ * then comparisons, then `AND`, then `OR`.
+ */
+export const parseQuery = (
+  source: string,
+): Either.Either<Query, QueryParseError> =>
+  Either.try({
+    try: () => {
+      const tokens = tokenize(source);
+      let index = 0;
+
+      const peek = () => tokens[index] as Token | undefined;
+      const fail = (message: string): never => {
+        throw new QueryParseError({
+          message,
+          position: peek()?.position ?? source.length,
+        });
+      };
+      const isKeyword = (word: string) => {
+        const token = peek();
+        return token?.kind === "word" && token.text.toLowerCase() === word;
+      };
+      const acceptKeyword = (word: string) => {
+        if (!isKeyword(word)) return false;
+        index++;
+        return true;
+      };
+      const acceptSymbol = (symbol: string) => {
+        const token = peek();
+        if (token?.kind !== "symbol" || token.text !== symbol) return false;
+        index++;
+        return true;
+      };
+      const isName = () => {
+        const token = peek();
+        return (
+          token?.kind === "word" && !keywords.includes(token.text.toLowerCase())
+        );
+      };
+      const expectName = (what: string): string => {
+        const token = peek();
+        if (token?.kind !== "word" || !isName()) {
+          return fail(`Expected ${what}`);
+        }
+        index++;
+        return token.text;
+      };
+
+      const parseOperand = (): QueryExpr => {
+        const token = peek();
+        if (acceptSymbol("(")) {
+          const expr = parseOr();
+          if (!acceptSymbol(")")) return fail(`Expected ")"`);
+          return expr;
+        }
+        if (token?.kind === "string") {
+          index++;
+          return { kind: "literal", value: token.text };
+        }
+        if (token?.kind === "number") {
+          index++;
+          return { kind: "literal", value: token.value };
+        }
+        if (acceptKeyword("true")) return { kind: "literal", value: true };
+        if (acceptKeyword("false")) return { kind: "literal", value: false };
+        if (acceptKeyword("null")) return { kind: "literal", value: null };
+        return { kind: "field", name: expectName("a field name or a value") };
+      };
+      const parseComparison = (): QueryExpr => {
+        const left = parseOperand();
+        const token = peek();
+        if (token?.kind !== "symbol" || !compareOps.includes(token.text)) {
+          return left;
+        }
+        index++;
+        return {
+          kind: "compare",
+          op: token.text as CompareOp,
+          left,
+          right: parseOperand(),
+        };
+      };
+      const parseNot = (): QueryExpr =>
+        acceptKeyword("not")
+          ? { kind: "not", expr: parseNot() }
+          : parseComparison();
+      const parseAnd = (): QueryExpr => {
+        let left = parseNot();
+        while (acceptKeyword("and")) {
+          left = { kind: "and", left, right: parseNot() };
+        }
+        return left;
+      };
+      const parseOr = (): QueryExpr => {
+        let left = parseAnd();
+        while (acceptKeyword("or")) {
+          left = { kind: "or", left, right: parseAnd() };
+        }
+        return left;
+      };
+
+      let view: Query["view"] = "table";
+      const columns: string[] = [];
+      if (acceptKeyword("table")) {
+        if (isName()) {
+          do columns.push(expectName("a field name"));
+          while (acceptSymbol(","));
+        }
+      } else if (acceptKeyword("list")) {
+        view = "list";
+      } else {
+        return fail("A query starts with TABLE or LIST");
+      }
+
+      let from: string | null = null;
+      if (acceptKeyword("from")) {
+        const token = peek();
+        if (token?.kind !== "tag") return fail("Expected a #tag after FROM");
+        from = normalizeTagName(token.text);
+        index++;
+      }
+
+      const where = acceptKeyword("where") ? parseOr() : null;
+
+      const sort: QuerySort[] = [];
+      if (acceptKeyword("sort")) {
+        do {
+          const field = expectName("a field name to sort by");
+          const descending = acceptKeyword("desc");
+          if (!descending) acceptKeyword("asc");
+          sort.push({ field, descending });
+        } while (acceptSymbol(","));
+      }
+
+      let limit: number | null = null;
+      if (acceptKeyword("limit")) {
+        const token = peek();
+        if (
+          token?.kind !== "number" ||
+          !Number.isInteger(token.value) ||
+          token.value < 0
+        ) {
+          return fail("Expected a whole number after LIMIT");
+        }
+        limit = token.value;
+        index++;
+      }
+
+      if (peek()) return fail("Unexpected text after the query");
+      return { view, columns, from, where, sort, limit };
+    },
+    catch: (error) =>
+      error instanceof QueryParseError
+        ? error
+        : new QueryParseError({ message: String(error), position: 0 }),
+  });
+
+// --- Evaluation ---
+
+/**
+ * A field of a block; `content`, `type` and `done` unless it has such a
+ * field.
+ */
+export const blockFieldValue = (
+  block: QueryableBlock,
+  name: string,
+): QueryValue => {
+  const fields = (block.fields ?? {}) as Record<string, unknown>;
+  const key = Object.keys(fields).find(
+    (k) => k.toLowerCase() === name.toLowerCase(),
+  );
+  if (key !== undefined) {
+    const value = fields[key];
+    return typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "boolean"
+      ? value
+      : value == null
+        ? null
+        : JSON.stringify(value);
+  }
+  switch (name.toLowerCase()) {
+    case "content":
+      return block.content;
+    case "type":
+      return block.type;
+    case "done":
+      return block.done;
+    default:
+      return null;
+  }
+};
+
+const asNumber = (value: QueryValue): number | null => {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(value)) {
+    return Number(value);
+  }
+  return null;
+};
+
+/** Orders two non-null values; numbers numerically, the rest as text. */
+const compareValues = (a: QueryValue, b: QueryValue): number => {
+  const [x, y] = [asNumber(a), asNumber(b)];
+  if (x !== null && y !== null) return x - y;
+  const [s, t] = [String(a).toLowerCase(), String(b).toLowerCase()];
+  return s < t ? -1 : s > t ? 1 : 0;
+};
+
+const isTruthy = (value: QueryValue) =>
+  value !== null && value !== false && value !== "" && value !== "false";
+
+const evaluate = (expr: QueryExpr, block: QueryableBlock): QueryValue => {
+  switch (expr.kind) {
+    case "field":
+      return blockFieldValue(block, expr.name);
+    case "literal":
+      return expr.value;
+    case "not":
+      return !isTruthy(evaluate(expr.expr, block));
+    case "and":
+      return (
+        isTruthy(evaluate(expr.left, block)) &&
+        isTruthy(evaluate(expr.right, block))
+      );
+    case "or":
+      return (
+        isTruthy(evaluate(expr.left, block)) ||
+        isTruthy(evaluate(expr.right, block))
+      );
+    case "compare": {
+      const left = evaluate(expr.left, block);
+      const right = evaluate(expr.right, block);
+      if (left === null || right === null) {
+        // Only (in)equality means anything against a missing value.
+        if (expr.op === "=") return left === right;
+        if (expr.op === "!=") return left !== right;
+        return false;
+      }
+      const order = compareValues(left, right);
+      switch (expr.op) {
+        case "=":
+          return order === 0;
+        case "!=":
+          return order !== 0;
+        case "<":
+          return order < 0;
+        case "<=":
+          return order <= 0;
+        case ">":
+          return order > 0;
+        case ">=":
+          return order >= 0;
+      }
+    }
+  }
+};
+
+/**
+ * Runs a query over `blocks`. Without SORT, rows keep the order of `blocks`;
+ * sorted fields put blocks missing them last.
+ */
+export const runQuery = <B extends QueryableBlock>(
+  query: Query,
+  blocks: readonly B[],
+): QueryRow<B>[] => {
+  const { from, where, sort, limit } = query;
+  const matching = blocks.filter(
+    (block) =>
+      (from === null || blockHasTag(block, from)) &&
+      (where === null || isTruthy(evaluate(where, block))),
+  );
+  const sorted =
+    sort.length === 0
+      ? matching
+      : [...matching].sort((a, b) => {
+          for (const { field, descending } of sort) {
+            const x = blockFieldValue(a, field);
+            const y = blockFieldValue(b, field);
+            if (x === null || y === null) {
+              if (x !== y) return x === null ? 1 : -1;
+              continue;
+            }
+            const order = compareValues(x, y);
+            if (order !== 0) return descending ? -order : order;
+          }
+          return 0;
+        });
+  return (limit === null ? sorted : sorted.slice(0, limit)).map((block) => ({
+    block,
+    values: query.columns.map((column) => blockFieldValue(block, column)),
+  }));
+};
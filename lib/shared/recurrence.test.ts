@@ -0,0 +1,79 @@
+// lib/shared/recurrence.test.ts
+import { describe, expect, test } from "bun:test";
+import { nextOccurrence, parseRecurrence, type Recurrence } from "./recurrence";
+
+const next = (repeat: string, from: string) =>
+  nextOccurrence(parseRecurrence(repeat)!, from);
+
+describe("parseRecurrence", () => {
+  test("reads each form of rule", () => {
+    const rules: [string, Recurrence][] = [
+      ["daily", { unit: "day", interval: 1 }],
+      ["Every 3 days", { unit: "day", interval: 3 }],
+      ["weekly", { unit: "week", interval: 1, weekdays: [] }],
+      ["weekly on Thu/mon", { unit: "week", interval: 1, weekdays: [1, 4] }],
+      ["every 2 weeks on friday", { unit: "week", interval: 2, weekdays: [5] }],
+      ["monthly", { unit: "month", interval: 1, day: null }],
+      ["monthly on the 15th", { unit: "month", interval: 1, day: 15 }],
+      ["every 3 months on the 1st", { unit: "month", interval: 3, day: 1 }],
+      ["annually", { unit: "year", interval: 1 }],
+      ["every 2 years", { unit: "year", interval: 2 }],
+    ];
+    for (const [text, rule] of rules) {
+      expect(parseRecurrence(text)).toEqual(rule);
+    }
+  });
+
+  test("rejects rules it does not understand", () => {
+    for (const text of [
+      "fortnightly",
+      "every 0 days",
+      "daily on mon",
+      "weekly on someday",
+      "monthly on the 32nd",
+      "every year on the 1st",
+    ]) {
+      expect(parseRecurrence(text)).toBeNull();
+    }
+  });
+});
+
+describe("nextOccurrence", () => {
+  test("counts days across month, year and leap-day boundaries", () => {
+    expect(next("daily", "2025-12-31")).toBe("2026-01-01");
+    expect(next("every 3 days", "2024-02-27")).toBe("2024-03-01");
+    expect(next("every 3 days", "2025-02-27")).toBe("2025-03-02");
+  });
+
+  test("keeps to the due date's weekday, or the listed ones", () => {
+    // 2025-07-23 is a Wednesday.
+    expect(next("weekly", "2025-07-23")).toBe("2025-07-30");
+    expect(next("weekly on mon/thu", "2025-07-22")).toBe("2025-07-24");
+    expect(next("weekly on mon/thu", "2025-07-24")).toBe("2025-07-28");
+  });
+
+  test("counts every other week from the due date's Monday-based week", () => {
+    expect(next("every 2 weeks on fri", "2025-07-21")).toBe("2025-07-25");
+    expect(next("every 2 weeks on fri", "2025-07-25")).toBe("2025-08-08");
+    // A Sunday ends its week, so the Monday after is a week on.
+    expect(next("every 2 weeks on mon", "2025-07-27")).toBe("2025-08-04");
+  });
+
+  test("keeps a month-end date within shorter months", () => {
+    expect(next("monthly", "2025-01-31")).toBe("2025-02-28");
+    expect(next("monthly", "2024-01-31")).toBe("2024-02-29");
+    expect(next("monthly on the 31st", "2025-02-28")).toBe("2025-03-31");
+    expect(next("monthly", "2025-12-15")).toBe("2026-01-15");
+  });
+
+  test("takes a later day in the same month before the next one", () => {
+    expect(next("monthly on the 15th", "2025-03-10")).toBe("2025-03-15");
+    expect(next("monthly on the 15th", "2025-03-15")).toBe("2025-04-15");
+    expect(next("every 3 months on the 1st", "2025-11-20")).toBe("2026-02-01");
+  });
+
+  test("moves a leap day to the end of February in other years", () => {
+    expect(next("yearly", "2024-02-29")).toBe("2025-02-28");
+    expect(next("every 4 years", "2024-02-29")).toBe("2028-02-29");
+  });
+});
@@ -0,0 +1,134 @@
+// lib/shared/recurrence.ts
+
+/**
+ * How often a task comes back, as written in its `repeat::` field:
+ *
+ * - `daily`, `every 3 days`
+ * - `weekly`, `weekly on Mon/Thu`, `every 2 weeks`, `every 2 weeks on Fri`
+ * - `monthly`, `monthly on the 15th`, `every 3 months on the 1st`
+ * - `yearly`, `every 2 years`
+ *
+ * Without an `on` part, a task comes back on the same weekday or day of the
+ * month as its due date.
+ */
+export type Recurrence =
+  | { readonly unit: "day"; readonly interval: number }
+  | {
+      readonly unit: "week";
+      readonly interval: number;
+      /** Days of the week, 0 for Sunday; empty for the due date's. */
+      readonly weekdays: readonly number[];
+    }
+  | {
+      readonly unit: "month";
+      readonly interval: number;
+      /** Day of the month, or null for the due date's. */
+      readonly day: number | null;
+    }
+  | { readonly unit: "year"; readonly interval: number };
+
+const weekdayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const adverbs: Record<string, Recurrence["unit"]> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+  annually: "year",
+};
+
+const recurrenceRegex =
+  /^(?:(daily|weekly|monthly|yearly|annually)|every\s+(?:(\d+)\s+)?(day|week|month|year)s?)(?:\s+on\s+(.+))?$/;
+
+const parseWeekdays = (text: string): number[] | null => {
+  const names = text.split(/\s*(?:[/,&]|\band\b)\s*|\s+/).filter(Boolean);
+  const days = names.map((name) =>
+    weekdayNames.findIndex(
+      (day) => name.length >= 2 && day.startsWith(name.slice(0, 3)),
+    ),
+  );
+  return days.length > 0 && days.every((day) => day !== -1)
+    ? [...new Set(days)].sort((a, b) => a - b)
+    : null;
+};
+
+/** The `repeat::` value as a rule, or null if it is not one we understand. */
+export const parseRecurrence = (text: string): Recurrence | null => {
+  const match = text.trim().toLowerCase().match(recurrenceRegex);
+  if (!match) return null;
+  const [, adverb, count, noun, on] = match;
+  const unit = adverb ? adverbs[adverb] : (noun as Recurrence["unit"]);
+  const interval = count ? Number(count) : 1;
+  if (interval < 1) return null;
+
+  switch (unit) {
+    case "day":
+    case "year":
+      return on === undefined ? { unit, interval } : null;
+    case "week": {
+      const weekdays = on === undefined ? [] : parseWeekdays(on);
+      return weekdays ? { unit, interval, weekdays } : null;
+    }
+    case "month": {
+      if (on === undefined) return { unit, interval, day: null };
+      const day = on.match(/^(?:the\s+|day\s+)?(\d{1,2})(?:st|nd|rd|th)?$/);
+      const n = day ? Number(day[1]) : 0;
+      return n >= 1 && n <= 31 ? { unit, interval, day: n } : null;
+    }
+  }
+};
+
+// Dates are `YYYY-MM-DD` strings, worked on as UTC midnights so that time
+// zones and daylight saving never shift them by a day.
+const toUTC = (date: string) => new Date(`${date}T00:00:00Z`);
+const fromUTC = (date: Date) => date.toISOString().slice(0, 10);
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * 86_400_000);
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/** `day` of the month `months` after `date`'s, kept within that month. */
+const dayOfMonth = (date: Date, months: number, day: number) => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  return new Date(
+    Date.UTC(year, month, Math.min(day, daysInMonth(year, month))),
+  );
+};
+
+/** Monday-based week number, for counting whole weeks between dates. */
+const weekOf = (date: Date) =>
+  Math.floor((date.getTime() / 86_400_000 + 3) / 7);
+
+/**
+ * The first date after `from` (a `YYYY-MM-DD` date) on which the task is due
+ * again. Weeks and months are counted from `from`'s own week and month.
+ */
+export const nextOccurrence = (rule: Recurrence, from: string): string => {
+  const start = toUTC(from);
+  switch (rule.unit) {
+    case "day":
+      return fromUTC(addDays(start, rule.interval));
+    case "week": {
+      const weekdays =
+        rule.weekdays.length > 0 ? rule.weekdays : [start.getUTCDay()];
+      for (let date = addDays(start, 1); ; date = addDays(date, 1)) {
+        if (
+          (weekOf(date) - weekOf(start)) % rule.interval === 0 &&
+          weekdays.includes(date.getUTCDay())
+        ) {
+          return fromUTC(date);
+        }
+      }
+    }
+    case "month": {
+      const day = rule.day ?? start.getUTCDate();
+      for (let months = 0; ; months += rule.interval) {
+        const date = dayOfMonth(start, months, day);
+        if (date > start) return fromUTC(date);
+      }
+    }
+    case "year":
+      return fromUTC(dayOfMonth(start, 12 * rule.interval, start.getUTCDate()));
+  }
+};
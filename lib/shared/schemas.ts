@@ -4,6 +4,9 @@ import { Schema } from "@effect/schema";
 import type { NoteId, Note } from "../../types/generated/public/Note";
 import type { UserId, User } from "../../types/generated/public/User";
 import type { BlockId, Block } from "../../types/generated/public/Block";
+import type { TagId } from "../../types/generated/public/Tag";
+import type { MutationErrorId } from "../../types/generated/public/MutationError";
+import type { SyncedTag } from "./tags";
 
 /**
  * A central place for defining reusable Effect Schemas.
@@ -22,6 +25,23 @@ const LenientDateSchema = Schema.Union(
   Schema.DateFromString,
 );
 
+/**
+ * A schema for the nullable `deleted_at` trash marker. Records cached by
+ * clients before the column existed have no such key, so it defaults to null.
+ */
+const DeletedAtSchema = Schema.optionalWith(
+  Schema.Union(LenientDateSchema, Schema.Null),
+  { default: () => null },
+);
+
+/**
+ * A schema for a task block's `done` flag. Blocks cached by clients before
+ * the column existed have no such key, so it defaults to false.
+ */
+const DoneSchema = Schema.optionalWith(Schema.Boolean, {
+  default: () => false,
+});
+
 const uuidRegex =
   /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/i;
 /**
@@ -56,6 +76,27 @@ export const UserIdSchema: Schema.Schema<UserId, string, never> = (
 export const BlockIdSchema: Schema.Schema<BlockId, string, never> = (
   UUIDSchemaBase as unknown as Schema.Schema<BlockId, string, never>
 ).pipe(Schema.annotations({ message: () => "Invalid Block ID format." }));
+/**
+ * A schema for TagId, using the base UUID validation.
+ */
+export const TagIdSchema: Schema.Schema<TagId, string, never> = (
+  UUIDSchemaBase as unknown as Schema.Schema<TagId, string, never>
+).pipe(Schema.annotations({ message: () => "Invalid Tag ID format." }));
+/**
+ * A schema for MutationErrorId. The table's key is a bigserial, so it is a
+ * string of digits (at most 18, to stay within the column's range).
+ */
+export const MutationErrorIdSchema: Schema.Schema<
+  MutationErrorId,
+  string,
+  never
+> = (
+  Schema.String.pipe(Schema.pattern(/^\d{1,18}$/)) as unknown as Schema.Schema<
+    MutationErrorId,
+    string,
+    never
+  >
+).pipe(Schema.annotations({ message: () => "Invalid mutation error ID." }));
 /**
  * A schema for validating a single note object retrieved from the database.
  * This ensures that the data structure matches the expected `Note` type.
@@ -69,6 +110,7 @@ export const NoteSchema: Schema.Schema<Note, any> = Schema.Struct({
   created_at: LenientDateSchema,
   updated_at: LenientDateSchema,
   version: Schema.Number, // <-- ADDED: Include the version property
+  deleted_at: DeletedAtSchema,
 });
 /**
  * A schema for validating an array of note objects.
@@ -93,6 +135,7 @@ export const UserSchema: Schema.Schema<User, any> = Schema.Struct({
   ),
   avatar_url: Schema.Union(Schema.String, Schema.Null),
   email_verified: Schema.Boolean,
+  timezone: Schema.Union(Schema.String, Schema.Null),
 });
 /**
  * A schema for validating a single block object.
@@ -115,4 +158,17 @@ export const BlockSchema: Schema.Schema<Block, any> = Schema.Struct({
   version: Schema.Number,
   created_at: LenientDateSchema,
   updated_at: LenientDateSchema,
+  deleted_at: DeletedAtSchema,
+  done: DoneSchema,
+});
+/**
+ * A schema for a tag as synced under `tag/<id>`.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const SyncedTagSchema: Schema.Schema<SyncedTag, any> = Schema.Struct({
+  id: TagIdSchema,
+  user_id: UserIdSchema,
+  name: Schema.String,
+  created_at: LenientDateSchema,
+  note_ids: Schema.mutable(Schema.Array(NoteIdSchema)),
 });
@@ -0,0 +1,100 @@
+// lib/shared/socket.ts
+import type { PokeMessage } from "./poke";
+import type { PresenceMessage, PresenceUpdateMessage } from "./presence";
+
+/** How often a connected client pings the server over `/ws`. */
+export const SOCKET_HEARTBEAT_INTERVAL_MS = 25_000;
+
+/**
+ * How long either side waits without hearing anything before it treats the
+ * socket as dead. Long enough to ride out one lost ping.
+ */
+export const SOCKET_IDLE_TIMEOUT_MS = 60_000;
+
+/**
+ * Close code the server uses when the session is missing or invalid. The
+ * client does not reconnect after it, since retrying cannot succeed.
+ */
+export const SOCKET_AUTH_FAILED_CLOSE_CODE = 4001;
+
+/**
+ * The first message a client sends after the socket opens. The session id
+ * travels in the message rather than the URL so it stays out of access logs.
+ */
+export interface SocketAuthMessage {
+  readonly type: "auth";
+  readonly sessionId: string;
+  /** Pokes caused by this client group are not sent back to it. */
+  readonly clientGroupID: string;
+}
+
+export interface SocketPingMessage {
+  readonly type: "ping";
+}
+
+/**
+ * Opens a note's document, or catches it up. The server answers with a
+ * `doc-sync` carrying what this state vector lacks, plus its own state
+ * vector so the client can send back what the server lacks.
+ */
+export interface DocSyncRequestMessage {
+  readonly type: "doc-sync";
+  readonly noteId: string;
+  /** Base64 Yjs state vector. */
+  readonly stateVector: string;
+}
+
+/** A local edit to an open document, as a base64 Yjs update. */
+export interface DocUpdateMessage {
+  readonly type: "doc-update";
+  readonly noteId: string;
+  readonly update: string;
+}
+
+export interface DocCloseMessage {
+  readonly type: "doc-close";
+  readonly noteId: string;
+}
+
+export type ClientSocketMessage =
+  | SocketAuthMessage
+  | SocketPingMessage
+  | PresenceUpdateMessage
+  | DocSyncRequestMessage
+  | DocUpdateMessage
+  | DocCloseMessage;
+
+export interface DocSyncMessage {
+  readonly type: "doc-sync";
+  readonly noteId: string;
+  /** Base64 Yjs update with everything the client's state vector lacked. */
+  readonly update: string;
+  /** Base64 Yjs state vector of the server's copy. */
+  readonly stateVector: string;
+}
+
+/**
+ * Someone changed an open document. The client answers with a `doc-sync`
+ * request rather than the server pushing the update, since only the client
+ * knows what it already has.
+ */
+export interface DocChangedMessage {
+  readonly type: "doc-changed";
+  readonly noteId: string;
+}
+
+/** The document cannot be opened, e.g. because the note was deleted. */
+export interface DocErrorMessage {
+  readonly type: "doc-error";
+  readonly noteId: string;
+}
+
+export type ServerSocketMessage =
+  | PokeMessage
+  | PresenceMessage
+  | DocSyncMessage
+  | DocChangedMessage
+  | DocErrorMessage
+  | { readonly type: "ready" }
+  | { readonly type: "pong" }
+  | { readonly type: "error"; readonly error: "authentication_failed" };
@@ -0,0 +1,28 @@
+// lib/shared/sync.ts
+
+/**
+ * Replicache key the server puts while a large account's initial sync is
+ * being delivered across several pulls, and deletes on the last one. Clients
+ * keep pulling while it exists and use it to show progress.
+ */
+export const INITIAL_SYNC_KEY = "sync/initialSync";
+
+export interface InitialSyncStatus {
+  readonly synced: number;
+  readonly total: number;
+}
+
+/**
+ * The shape of the data this client stores in Replicache. Replicache keeps
+ * each schema version in its own IndexedDB database, so a bump starts every
+ * client on a fresh, fully pulled copy; see `replicache/schemaVersions.ts`
+ * for the server's side.
+ */
+export const REPLICACHE_SCHEMA_VERSION = "1";
+
+/**
+ * Replicache key the server puts with every full sync, holding the schema
+ * version the data was shaped for. A client that finds another version there
+ * drops its local copy and syncs again from scratch.
+ */
+export const SCHEMA_VERSION_KEY = "sync/schemaVersion";
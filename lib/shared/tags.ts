@@ -0,0 +1,21 @@
+// lib/shared/tags.ts
+import type { NoteId } from "../../types/generated/public/Note";
+import type { Tag } from "../../types/generated/public/Tag";
+
+/** A `#tag` in note text: letters, digits, `_` and `-` after the `#`. */
+export const tagRegex = /#([\w-]+)/g;
+
+/** Tags match case-insensitively, so they are stored lower-cased. */
+export const normalizeTagName = (tag: string): string =>
+  tag.replace(/^#/, "").toLowerCase();
+
+/** Whether a block's `tags` (kept as written, with the `#`) include `name`. */
+export const blockHasTag = (
+  block: { readonly tags: readonly string[] },
+  name: string,
+): boolean => block.tags.some((tag) => normalizeTagName(tag) === name);
+
+/** A tag as synced to clients under `tag/<id>`, with the notes carrying it. */
+export type SyncedTag = Tag & { note_ids: NoteId[] };
+
+export const tagPath = (name: string) => `/tags/${encodeURIComponent(name)}`;
@@ -0,0 +1,239 @@
+// lib/shared/tasks.ts
+import type { Block } from "../../types/generated/public/Block";
+import { serializeBlocksToMarkdown, type SerializableBlock } from "./markdown";
+
+/** The parts of a block the task list reads. */
+export type TaskBlock = Pick<Block, "type" | "done" | "fields" | "order">;
+
+/** Anything with fields, parsed blocks not yet stored included. */
+type WithFields = Partial<Pick<Block, "fields">>;
+
+export type TaskPriority = "high" | "medium" | "low";
+
+/**
+ * Where an open task falls relative to today. Tasks without a (valid) due
+ * date are `unscheduled`.
+ */
+export type TaskGroup = "overdue" | "today" | "upcoming" | "unscheduled";
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A list item's checkbox, as written in markdown. */
+const taskLineRegex = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\](?=\s|$)/;
+
+const fenceRegex = /^\s*(`{3,}|~{3,})/;
+
+const listItemRegex = /^\s*(?:[-*+]|\d+[.)])(?:\s|$)/;
+
+/** A `due::` line, up to where its value starts. */
+const dueFieldRegex = /^(\s*due\s*::\s*).*$/i;
+
+const fieldOf = (block: WithFields, name: string): string | undefined => {
+  const fields = (block.fields ?? {}) as Record<string, unknown>;
+  const key = Object.keys(fields).find((k) => k.toLowerCase() === name);
+  const value = key === undefined ? undefined : fields[key];
+  return typeof value === "string" ? value.trim() : undefined;
+};
+
+/** A date as `YYYY-MM-DD` in local time, the way `due::` is written. */
+export const toDateString = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+/** Whether `timeZone` is an IANA time zone, like `Europe/Paris`. */
+export const isTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * A date as `YYYY-MM-DD` in `timeZone`, for the server, whose own time zone
+ * is not the user's. Without a (valid) zone the date is taken in UTC.
+ */
+export const toDateStringIn = (date: Date, timeZone: string | null): string => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timeZone !== null && isTimeZone(timeZone) ? timeZone : "UTC",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+  return [part("year"), part("month"), part("day")].join("-");
+};
+
+/** The task's `due::` date as `YYYY-MM-DD`, or null if it has none. */
+export const taskDue = (block: WithFields): string | null => {
+  const due = fieldOf(block, "due");
+  return due !== undefined && dateRegex.test(due) ? due : null;
+};
+
+/** The task's `priority::`, or null if it has none we know. */
+export const taskPriority = (block: WithFields): TaskPriority | null => {
+  const priority = fieldOf(block, "priority")?.toLowerCase();
+  return priority === "high" || priority === "medium" || priority === "low"
+    ? priority
+    : null;
+};
+
+/** The task's `repeat::` rule as written (see `parseRecurrence`), if any. */
+export const taskRepeat = (block: WithFields): string | null =>
+  fieldOf(block, "repeat") ?? null;
+
+export const taskGroup = (due: string | null, today: string): TaskGroup =>
+  due === null
+    ? "unscheduled"
+    : due < today
+      ? "overdue"
+      : due === today
+        ? "today"
+        : "upcoming";
+
+const priorityRank: Record<TaskPriority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+/** Orders tasks by due date, then priority; undated and unranked last. */
+export const compareTasks = (a: TaskBlock, b: TaskBlock): number => {
+  const aDue = taskDue(a);
+  const bDue = taskDue(b);
+  if (aDue !== bDue) {
+    if (aDue === null) return 1;
+    if (bDue === null) return -1;
+    return aDue < bDue ? -1 : 1;
+  }
+  const aPriority = taskPriority(a);
+  const bPriority = taskPriority(b);
+  return (
+    (aPriority === null ? 3 : priorityRank[aPriority]) -
+    (bPriority === null ? 3 : priorityRank[bPriority])
+  );
+};
+
+/**
+ * Where each task's checkbox is in a note's markdown, in order. Checkboxes
+ * in code fences and quotes are not tasks and are skipped.
+ */
+const checkboxes = (lines: readonly string[]) => {
+  const boxes: { line: number; column: number }[] = [];
+  let fence: string | null = null;
+  lines.forEach((line, i) => {
+    const opener = line.match(fenceRegex)?.[1];
+    if (fence !== null) {
+      if (opener?.[0] === fence[0] && opener.length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (opener !== undefined) {
+      fence = opener;
+      return;
+    }
+    const match = line.match(taskLineRegex);
+    if (match) boxes.push({ line: i, column: match[0].length - 2 });
+  });
+  return boxes;
+};
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+/**
+ * Ticks or unticks the checkbox of the `index`th of a note's `count` tasks in
+ * its markdown, leaving every other character as it is. Returns null when
+ * the markdown does not have `count` checkboxes, in which case the caller
+ * should write the note out from its blocks.
+ */
+const toggleTaskInMarkdown = (
+  content: string,
+  index: number,
+  count: number,
+  done: boolean,
+): string | null => {
+  const lines = content.split("\n");
+  const boxes = checkboxes(lines);
+  if (boxes.length !== count || index < 0 || index >= count) return null;
+  const { line, column } = boxes[index];
+  const text = lines[line];
+  lines[line] =
+    text.slice(0, column) + (done ? "x" : " ") + text.slice(column + 1);
+  return lines.join("\n");
+};
+
+/**
+ * Unticks the `index`th of a note's `count` tasks in its markdown and sets
+ * its `due::` field to `due`, adding the field if the task has none. Returns
+ * null when the markdown does not have `count` checkboxes.
+ */
+export const rescheduleTaskInMarkdown = (
+  content: string,
+  index: number,
+  count: number,
+  due: string,
+): string | null => {
+  const unticked = toggleTaskInMarkdown(content, index, count, false);
+  if (unticked === null) return null;
+  const lines = unticked.split("\n");
+  const start = checkboxes(lines)[index].line;
+  const itemIndent = indentOf(lines[start]);
+
+  // The task's own lines: those indented under it, up to a nested item.
+  let end = start + 1;
+  while (
+    end < lines.length &&
+    (lines[end].trim() === "" || indentOf(lines[end]) > itemIndent) &&
+    !listItemRegex.test(lines[end]) &&
+    !fenceRegex.test(lines[end])
+  ) {
+    end++;
+  }
+  const dueLine = lines
+    .slice(start + 1, end)
+    .findIndex((line) => dueFieldRegex.test(line));
+  if (dueLine !== -1) {
+    const i = start + 1 + dueLine;
+    lines[i] = lines[i].replace(dueFieldRegex, `$1${due}`);
+  } else {
+    // After the first paragraph of the item, where its fields are written.
+    let last = start;
+    while (last + 1 < end && lines[last + 1].trim() !== "") last++;
+    const marker = lines[start].slice(itemIndent).match(/^\S+\s/)?.[0] ?? "";
+    lines.splice(
+      last + 1,
+      0,
+      `${" ".repeat(itemIndent + marker.length)}due:: ${due}`,
+    );
+  }
+  return lines.join("\n");
+};
+
+/**
+ * A note's markdown with the checkbox of its task block `id` set to `done`.
+ * Only the checkbox changes, unless the markdown no longer lines up with the
+ * blocks; then the note is written out from them.
+ */
+export const toggleTaskInNote = (
+  content: string,
+  blocks: readonly SerializableBlock[],
+  id: string,
+  done: boolean,
+): string => {
+  const tasks = blocks
+    .filter((block) => block.type === "task")
+    .sort((a, b) => a.order - b.order);
+  const index = tasks.findIndex((block) => block.id === id);
+  return (
+    toggleTaskInMarkdown(content, index, tasks.length, done) ??
+    serializeBlocksToMarkdown(
+      blocks.map((block) => (block.id === id ? { ...block, done } : block)),
+    )
+  );
+};
@@ -0,0 +1,153 @@
+// lib/shared/transclusion.ts
+import type { Note } from "../../types/generated/public/Note";
+import { splitLines } from "./lineDiff";
+import {
+  normalizeNoteTitle,
+  resolveWikiLink,
+  wikiLinkTarget,
+} from "./wikiLinks";
+
+/** `![[Note Title]]` or `![[Note Title#Heading]]` in note text. */
+export const transclusionRegex = /!\[\[([^\]]+)\]\]/g;
+
+/** Embeds inside embeds are expanded this many levels deep, no further. */
+export const MAX_TRANSCLUSION_DEPTH = 3;
+
+export type EmbeddableNote = Pick<Note, "id" | "title" | "content">;
+
+export type EmbedPart =
+  | { readonly kind: "text"; readonly text: string }
+  | { readonly kind: "embed"; readonly embed: Embed };
+
+export type Embed =
+  | {
+      readonly kind: "note";
+      readonly note: EmbeddableNote;
+      readonly heading: string | null;
+      readonly parts: readonly EmbedPart[];
+    }
+  | { readonly kind: "missing"; readonly target: string }
+  | { readonly kind: "ambiguous"; readonly target: string }
+  | {
+      readonly kind: "sectionMissing";
+      readonly target: string;
+      readonly note: EmbeddableNote;
+      readonly heading: string;
+    }
+  /** The embed would (eventually) include itself. */
+  | { readonly kind: "cycle"; readonly target: string }
+  | {
+      readonly kind: "tooDeep";
+      readonly target: string;
+      readonly note: EmbeddableNote;
+    };
+
+/** `Title#Heading|shown` embeds the section under `Heading` of `Title`. */
+export const parseEmbedTarget = (
+  target: string,
+): { title: string; heading: string | null } => {
+  const [, ...heading] = target.split("|")[0].split("#");
+  const joined = heading.join("#").trim();
+  return {
+    title: wikiLinkTarget(target),
+    heading: joined === "" ? null : joined,
+  };
+};
+
+const headingPattern = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/**
+ * The lines under a markdown heading, up to the next heading of the same or
+ * a higher level. Null when the note has no such heading.
+ */
+export const extractSection = (
+  content: string,
+  heading: string,
+): string | null => {
+  const lines = splitLines(content);
+  const wanted = normalizeNoteTitle(heading);
+  const start = lines.findIndex((line) => {
+    const match = line.match(headingPattern);
+    return match !== null && normalizeNoteTitle(match[2]) === wanted;
+  });
+  if (start === -1) return null;
+  const level = lines[start].match(headingPattern)![1].length;
+  const end = lines.findIndex((line, i) => {
+    if (i <= start) return false;
+    const match = line.match(headingPattern);
+    return match !== null && match[1].length <= level;
+  });
+  return lines.slice(start + 1, end === -1 ? undefined : end).join("\n");
+};
+
+/** Splits text into plain runs and the embeds between them. */
+const splitEmbeds = (text: string) => {
+  const parts: ({ text: string } | { target: string })[] = [];
+  let last = 0;
+  for (const match of text.matchAll(transclusionRegex)) {
+    const index = match.index ?? 0;
+    parts.push({ text: text.slice(last, index) }, { target: match[1] });
+    last = index + match[0].length;
+  }
+  parts.push({ text: text.slice(last) });
+  return parts.filter((part) => !("text" in part) || part.text.trim() !== "");
+};
+
+const embedKey = (noteId: string, heading: string | null) =>
+  `${noteId}#${heading === null ? "" : normalizeNoteTitle(heading)}`;
+
+/**
+ * Resolves an embed against `notes`, expanding the embeds inside it in turn.
+ * `hostNoteId` is the note the embed appears in: embedding it whole would
+ * embed the embed itself. An embed already being expanded further up is a
+ * cycle and is not expanded again; past `MAX_TRANSCLUSION_DEPTH` levels the
+ * embed is only named.
+ */
+export const resolveEmbed = (
+  target: string,
+  notes: readonly EmbeddableNote[],
+  hostNoteId: string,
+): Embed => {
+  const expand = (
+    target: string,
+    ancestors: readonly string[],
+    depth: number,
+  ): Embed => {
+    const { title, heading } = parseEmbedTarget(target);
+    const resolution = resolveWikiLink(title, notes);
+    if (resolution.status === "missing") return { kind: "missing", target };
+    if (resolution.status === "ambiguous") return { kind: "ambiguous", target };
+    const { note } = resolution;
+
+    const key = embedKey(note.id, heading);
+    if (
+      ancestors.includes(key) ||
+      ancestors.includes(embedKey(note.id, null))
+    ) {
+      return { kind: "cycle", target };
+    }
+    if (depth > MAX_TRANSCLUSION_DEPTH) {
+      return { kind: "tooDeep", target, note };
+    }
+    const text =
+      heading === null ? note.content : extractSection(note.content, heading);
+    if (text === null) {
+      return { kind: "sectionMissing", target, note, heading: heading! };
+    }
+
+    return {
+      kind: "note",
+      note,
+      heading,
+      parts: splitEmbeds(text).map((part) =>
+        "text" in part
+          ? { kind: "text", text: part.text }
+          : {
+              kind: "embed",
+              embed: expand(part.target, [...ancestors, key], depth + 1),
+            },
+      ),
+    };
+  };
+  return expand(target, [embedKey(hostNoteId, null)], 1);
+};
@@ -0,0 +1,7 @@
+// lib/shared/trash.ts
+
+/**
+ * How long a note stays in the trash before the purge job deletes it for good.
+ * Shared so the trash view can tell users when their notes will disappear.
+ */
+export const TRASH_RETENTION_DAYS = 30;
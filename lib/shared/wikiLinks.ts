@@ -0,0 +1,39 @@
+// lib/shared/wikiLinks.ts
+import type { Note } from "../../types/generated/public/Note";
+
+/**
+ * A `[[wiki link]]` in note text. It also matches inside `![[embeds]]`, so
+ * every transclusion counts as a link too.
+ */
+export const wikiLinkRegex = /\[\[([^\]]+)\]\]/g;
+
+/** `[[Title|shown text]]` and `[[Title#Heading]]` link to `Title`. */
+export const wikiLinkTarget = (link: string): string =>
+  link.split("|")[0].split("#")[0].trim();
+
+/** Titles match case-insensitively and regardless of spacing. */
+export const normalizeNoteTitle = (title: string): string =>
+  title.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const linksToTitle = (link: string, title: string): boolean =>
+  normalizeNoteTitle(wikiLinkTarget(link)) === normalizeNoteTitle(title);
+
+export type LinkableNote = Pick<Note, "id" | "title">;
+
+export type WikiLinkResolution<N extends LinkableNote> =
+  | { readonly status: "resolved"; readonly note: N }
+  /** Several notes share the title; the reader has to pick one. */
+  | { readonly status: "ambiguous"; readonly notes: readonly N[] }
+  | { readonly status: "missing"; readonly title: string };
+
+/** Finds the note a link points to among `notes` (trashed ones excluded). */
+export const resolveWikiLink = <N extends LinkableNote>(
+  link: string,
+  notes: readonly N[],
+): WikiLinkResolution<N> => {
+  const title = wikiLinkTarget(link);
+  const matches = notes.filter((note) => linksToTitle(title, note.title));
+  if (matches.length === 1) return { status: "resolved", note: matches[0] };
+  if (matches.length > 1) return { status: "ambiguous", notes: matches };
+  return { status: "missing", title };
+};
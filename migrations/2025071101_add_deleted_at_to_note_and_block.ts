@@ -0,0 +1,28 @@
+// migrations/2025071101_add_deleted_at_to_note_and_block.ts
+import { Kysely } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // A non-null `deleted_at` marks a row as being in the trash.
+  await db.schema
+    .alterTable("note")
+    .addColumn("deleted_at", "timestamp")
+    .execute();
+  await db.schema
+    .alterTable("block")
+    .addColumn("deleted_at", "timestamp")
+    .execute();
+
+  // The purge job scans for trash older than the retention period.
+  await db.schema
+    .createIndex("note_deleted_at_idx")
+    .on("note")
+    .column("deleted_at")
+    .execute();
+}
+
+export async function down(db: Kysely<Database>) {
+  await db.schema.dropIndex("note_deleted_at_idx").ifExists().execute();
+  await db.schema.alterTable("block").dropColumn("deleted_at").execute();
+  await db.schema.alterTable("note").dropColumn("deleted_at").execute();
+}
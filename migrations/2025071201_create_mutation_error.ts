@@ -0,0 +1,37 @@
+// migrations/2025071201_create_mutation_error.ts
+import { Kysely } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // Mutations the server rejected during a push. Rows live until the
+  // originating client group has shown them to the user and dismissed them.
+  await db.schema
+    .createTable("mutation_error")
+    .ifNotExists()
+    .addColumn("id", "bigserial", (c) => c.primaryKey())
+    .addColumn("user_id", "uuid", (c) =>
+      c.notNull().references("user.id").onDelete("cascade"),
+    )
+    .addColumn("client_group_id", "text", (c) =>
+      c.notNull().references("replicache_client_group.id").onDelete("cascade"),
+    )
+    .addColumn("client_id", "text", (c) => c.notNull())
+    .addColumn("mutation_id", "integer", (c) => c.notNull())
+    .addColumn("name", "text", (c) => c.notNull())
+    .addColumn("args", "jsonb", (c) => c.notNull())
+    .addColumn("reason", "text", (c) => c.notNull())
+    .addColumn("created_at", "timestamp", (c) =>
+      c.notNull().defaultTo(db.fn("now")),
+    )
+    .execute();
+
+  await db.schema
+    .createIndex("mutation_error_client_group_id_idx")
+    .on("mutation_error")
+    .column("client_group_id")
+    .execute();
+}
+
+export async function down(db: Kysely<Database>) {
+  await db.schema.dropTable("mutation_error").ifExists().execute();
+}
@@ -0,0 +1,27 @@
+// migrations/2025071301_add_client_group_id_to_cvr.ts
+import { Kysely } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // Records which client group a CVR was served to, so the GC job can keep
+  // only the newest one per group. No foreign key: a group that has only
+  // pulled has no `replicache_client_group` row yet.
+  await db.schema
+    .alterTable("client_view_record")
+    .addColumn("client_group_id", "text")
+    .execute();
+
+  await db.schema
+    .createIndex("cvr_client_group_id_id_idx")
+    .on("client_view_record")
+    .columns(["client_group_id", "id"])
+    .execute();
+}
+
+export async function down(db: Kysely<Database>) {
+  await db.schema.dropIndex("cvr_client_group_id_id_idx").ifExists().execute();
+  await db.schema
+    .alterTable("client_view_record")
+    .dropColumn("client_group_id")
+    .execute();
+}
@@ -0,0 +1,130 @@
+// migrations/2025071401_replace_cvr_with_sync_changes.ts
+import { Kysely, sql } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // One counter per user. Every write to a synced row takes the next value,
+  // and the row lock on the counter orders concurrent writers, so once a pull
+  // has seen version N it has seen every change at or below N.
+  // Neither table references `user`: the triggers below also fire while a
+  // user's notes are being cascade-deleted along with the user.
+  await db.schema
+    .createTable("user_sync_version")
+    .ifNotExists()
+    .addColumn("user_id", "uuid", (c) => c.primaryKey())
+    .addColumn("version", "bigint", (c) => c.notNull().defaultTo(0))
+    // Tombstones at or below this version have been garbage-collected.
+    .addColumn("tombstone_floor", "bigint", (c) => c.notNull().defaultTo(0))
+    .execute();
+
+  // The latest change to each synced key. Deleted rows stay behind as
+  // tombstones until the GC job removes them.
+  await db.schema
+    .createTable("sync_change")
+    .ifNotExists()
+    .addColumn("user_id", "uuid", (c) => c.notNull())
+    .addColumn("key", "text", (c) => c.notNull())
+    .addColumn("sync_version", "bigint", (c) => c.notNull())
+    .addColumn("deleted", "boolean", (c) => c.notNull().defaultTo(false))
+    .addColumn("changed_at", "timestamp", (c) =>
+      c.notNull().defaultTo(db.fn("now")),
+    )
+    .addPrimaryKeyConstraint("sync_change_pkey", ["user_id", "key"])
+    .execute();
+
+  await db.schema
+    .createIndex("sync_change_user_id_sync_version_idx")
+    .on("sync_change")
+    .columns(["user_id", "sync_version"])
+    .execute();
+
+  await sql`
+    CREATE OR REPLACE FUNCTION next_user_sync_version(uid uuid)
+    RETURNS bigint LANGUAGE sql AS $$
+      INSERT INTO user_sync_version (user_id, version) VALUES (uid, 1)
+      ON CONFLICT (user_id)
+        DO UPDATE SET version = user_sync_version.version + 1
+      RETURNING version;
+    $$
+  `.execute(db);
+
+  await sql`
+    CREATE OR REPLACE FUNCTION record_sync_change()
+    RETURNS trigger LANGUAGE plpgsql AS $$
+    DECLARE
+      row_user_id uuid;
+      row_key text;
+    BEGIN
+      IF TG_OP = 'DELETE' THEN
+        row_user_id := OLD.user_id;
+        row_key := TG_ARGV[0] || '/' || OLD.id;
+      ELSE
+        row_user_id := NEW.user_id;
+        row_key := TG_ARGV[0] || '/' || NEW.id;
+      END IF;
+
+      INSERT INTO sync_change (user_id, key, sync_version, deleted, changed_at)
+      VALUES (
+        row_user_id,
+        row_key,
+        next_user_sync_version(row_user_id),
+        TG_OP = 'DELETE',
+        now()
+      )
+      ON CONFLICT (user_id, key) DO UPDATE SET
+        sync_version = EXCLUDED.sync_version,
+        deleted = EXCLUDED.deleted,
+        changed_at = EXCLUDED.changed_at;
+      RETURN NULL;
+    END;
+    $$
+  `.execute(db);
+
+  await sql`
+    CREATE TRIGGER note_sync_change
+    AFTER INSERT OR UPDATE OR DELETE ON note
+    FOR EACH ROW EXECUTE FUNCTION record_sync_change('note')
+  `.execute(db);
+  await sql`
+    CREATE TRIGGER block_sync_change
+    AFTER INSERT OR UPDATE OR DELETE ON block
+    FOR EACH ROW EXECUTE FUNCTION record_sync_change('block')
+  `.execute(db);
+
+  // Cookies now carry a sync version instead of a CVR id. Clients holding an
+  // old numeric cookie are treated as new and resync from scratch.
+  await db.schema.dropTable("client_view_record").ifExists().execute();
+}
+
+export async function down(db: Kysely<Database>) {
+  await sql`DROP TRIGGER IF EXISTS block_sync_change ON block`.execute(db);
+  await sql`DROP TRIGGER IF EXISTS note_sync_change ON note`.execute(db);
+  await sql`DROP FUNCTION IF EXISTS record_sync_change()`.execute(db);
+  await sql`DROP FUNCTION IF EXISTS next_user_sync_version(uuid)`.execute(db);
+  await db.schema.dropTable("sync_change").ifExists().execute();
+  await db.schema.dropTable("user_sync_version").ifExists().execute();
+
+  await db.schema
+    .createTable("client_view_record")
+    .ifNotExists()
+    .addColumn("id", "bigserial", (c) => c.primaryKey())
+    .addColumn("user_id", "uuid", (c) =>
+      c.notNull().references("user.id").onDelete("cascade"),
+    )
+    .addColumn("client_group_id", "text")
+    .addColumn("data", "jsonb", (c) => c.notNull())
+    .addColumn("created_at", "timestamp", (c) =>
+      c.notNull().defaultTo(db.fn("now")),
+    )
+    .execute();
+  await db.schema
+    .createIndex("cvr_user_id_created_at_idx")
+    .on("client_view_record")
+    .columns(["user_id", "created_at"])
+    .execute();
+  await db.schema
+    .createIndex("cvr_client_group_id_id_idx")
+    .on("client_view_record")
+    .columns(["client_group_id", "id"])
+    .execute();
+}
@@ -0,0 +1,29 @@
+// migrations/2025071501_recreate_poke_log.ts
+import { Kysely } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // Every poke is logged before it is NOTIFYed, so an instance whose LISTEN
+  // connection dropped can catch up by polling rows past the last id it saw.
+  // The earlier, never-registered poke_log migration had no user column;
+  // the table was never written to, so it is simply recreated.
+  await db.schema.dropTable("poke_log").ifExists().execute();
+  await db.schema
+    .createTable("poke_log")
+    .addColumn("id", "bigserial", (c) => c.primaryKey())
+    .addColumn("user_id", "uuid", (c) => c.notNull())
+    .addColumn("created_at", "timestamp", (c) =>
+      c.notNull().defaultTo(db.fn("now")),
+    )
+    .execute();
+
+  await db.schema
+    .createIndex("poke_log_created_at_idx")
+    .on("poke_log")
+    .column("created_at")
+    .execute();
+}
+
+export async function down(db: Kysely<Database>) {
+  await db.schema.dropTable("poke_log").ifExists().execute();
+}
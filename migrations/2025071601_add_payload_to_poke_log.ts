@@ -0,0 +1,16 @@
+// migrations/2025071601_add_payload_to_poke_log.ts
+import { Kysely } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // The coalesced poke message, so instances replaying the log while their
+  // LISTEN connection is down deliver the same payload as NOTIFY does.
+  await db.schema
+    .alterTable("poke_log")
+    .addColumn("payload", "jsonb")
+    .execute();
+}
+
+export async function down(db: Kysely<Database>) {
+  await db.schema.alterTable("poke_log").dropColumn("payload").execute();
+}
@@ -0,0 +1,46 @@
+// migrations/2025071701_create_note_revision.ts
+import { Kysely, sql } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // Snapshots of a note's title and content. A burst of autosaves updates
+  // the newest row in place instead of adding one per keystroke pause.
+  await db.schema
+    .createTable("note_revision")
+    .ifNotExists()
+    .addColumn("id", "bigserial", (c) => c.primaryKey())
+    .addColumn("note_id", "uuid", (c) =>
+      c.notNull().references("note.id").onDelete("cascade"),
+    )
+    .addColumn("user_id", "uuid", (c) =>
+      c.notNull().references("user.id").onDelete("cascade"),
+    )
+    .addColumn("title", "text", (c) => c.notNull())
+    .addColumn("content", "text", (c) => c.notNull())
+    .addColumn("note_version", "integer", (c) => c.notNull())
+    .addColumn("created_at", "timestamp", (c) =>
+      c.notNull().defaultTo(db.fn("now")),
+    )
+    .addColumn("updated_at", "timestamp", (c) =>
+      c.notNull().defaultTo(db.fn("now")),
+    )
+    .execute();
+
+  await db.schema
+    .createIndex("note_revision_note_id_created_at_idx")
+    .on("note_revision")
+    .columns(["note_id", "created_at desc"])
+    .execute();
+
+  // Give existing notes a starting point so their history is not empty.
+  await sql`
+    INSERT INTO note_revision
+      (note_id, user_id, title, content, note_version, created_at, updated_at)
+    SELECT id, user_id, title, content, version, updated_at, updated_at
+    FROM note
+  `.execute(db);
+}
+
+export async function down(db: Kysely<Database>) {
+  await db.schema.dropTable("note_revision").ifExists().execute();
+}
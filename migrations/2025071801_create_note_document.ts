@@ -0,0 +1,53 @@
+// migrations/2025071801_create_note_document.ts
+import { Kysely } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // The collaborative (Yjs) document behind a note's content. `state` holds
+  // the compacted document; edits since are appended to
+  // `note_document_update` until the next compaction folds them in.
+  await db.schema
+    .createTable("note_document")
+    .ifNotExists()
+    .addColumn("note_id", "uuid", (c) =>
+      c.primaryKey().references("note.id").onDelete("cascade"),
+    )
+    .addColumn("user_id", "uuid", (c) =>
+      c.notNull().references("user.id").onDelete("cascade"),
+    )
+    .addColumn("state", "bytea", (c) => c.notNull())
+    // The last update, note version and text written back to `note.content`;
+    // a different `note.version` means the note was edited outside the
+    // document since.
+    .addColumn("flattened_through", "bigint", (c) => c.notNull().defaultTo(0))
+    .addColumn("flattened_version", "integer", (c) => c.notNull())
+    .addColumn("flattened_content", "text", (c) => c.notNull())
+    .addColumn("updated_at", "timestamp", (c) =>
+      c.notNull().defaultTo(db.fn("now")),
+    )
+    .execute();
+
+  await db.schema
+    .createTable("note_document_update")
+    .ifNotExists()
+    .addColumn("id", "bigserial", (c) => c.primaryKey())
+    .addColumn("note_id", "uuid", (c) =>
+      c.notNull().references("note_document.note_id").onDelete("cascade"),
+    )
+    .addColumn("update", "bytea", (c) => c.notNull())
+    .addColumn("created_at", "timestamp", (c) =>
+      c.notNull().defaultTo(db.fn("now")),
+    )
+    .execute();
+
+  await db.schema
+    .createIndex("note_document_update_note_id_id_idx")
+    .on("note_document_update")
+    .columns(["note_id", "id"])
+    .execute();
+}
+
+export async function down(db: Kysely<Database>) {
+  await db.schema.dropTable("note_document_update").ifExists().execute();
+  await db.schema.dropTable("note_document").ifExists().execute();
+}
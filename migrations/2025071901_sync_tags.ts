@@ -0,0 +1,110 @@
+// migrations/2025071901_sync_tags.ts
+import { Kysely, sql } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // Tags are derived from note content and upserted by name.
+  await db.schema
+    .createIndex("tag_user_id_name_key")
+    .ifNotExists()
+    .unique()
+    .on("tag")
+    .columns(["user_id", "name"])
+    .execute();
+  await db.schema
+    .createIndex("note_tag_tag_id_idx")
+    .ifNotExists()
+    .on("note_tag")
+    .column("tag_id")
+    .execute();
+
+  await sql`
+    CREATE TRIGGER tag_sync_change
+    AFTER INSERT OR UPDATE OR DELETE ON tag
+    FOR EACH ROW EXECUTE FUNCTION record_sync_change('tag')
+  `.execute(db);
+
+  // A synced tag carries the ids of its notes, so linking or unlinking a
+  // note changes the tag's key. A tag left with no notes is deleted; its
+  // own trigger records that. When the tag is already gone (the unlink is
+  // its cascade), there is nothing left to record here.
+  await sql`
+    CREATE OR REPLACE FUNCTION record_note_tag_sync_change()
+    RETURNS trigger LANGUAGE plpgsql AS $$
+    DECLARE
+      changed_tag_id uuid;
+      tag_user_id uuid;
+    BEGIN
+      IF TG_OP = 'DELETE' THEN
+        changed_tag_id := OLD.tag_id;
+        DELETE FROM tag
+        WHERE id = changed_tag_id
+          AND NOT EXISTS (
+            SELECT 1 FROM note_tag WHERE tag_id = changed_tag_id
+          );
+        IF FOUND THEN
+          RETURN NULL;
+        END IF;
+      ELSE
+        changed_tag_id := NEW.tag_id;
+      END IF;
+
+      SELECT user_id INTO tag_user_id FROM tag WHERE id = changed_tag_id;
+      IF tag_user_id IS NULL THEN
+        RETURN NULL;
+      END IF;
+
+      INSERT INTO sync_change (user_id, key, sync_version, deleted, changed_at)
+      VALUES (
+        tag_user_id,
+        'tag/' || changed_tag_id,
+        next_user_sync_version(tag_user_id),
+        false,
+        now()
+      )
+      ON CONFLICT (user_id, key) DO UPDATE SET
+        sync_version = EXCLUDED.sync_version,
+        deleted = EXCLUDED.deleted,
+        changed_at = EXCLUDED.changed_at;
+      RETURN NULL;
+    END;
+    $$
+  `.execute(db);
+  await sql`
+    CREATE TRIGGER note_tag_sync_change
+    AFTER INSERT OR DELETE ON note_tag
+    FOR EACH ROW EXECUTE FUNCTION record_note_tag_sync_change()
+  `.execute(db);
+
+  // Backfill from the tags the parser found in existing notes' blocks, as
+  // `syncNoteTags` does, with names normalized like `normalizeTagName`.
+  await sql`
+    INSERT INTO tag (user_id, name)
+    SELECT DISTINCT block.user_id, lower(regexp_replace(t.tag, '^#', ''))
+    FROM block
+    CROSS JOIN LATERAL unnest(block.tags) AS t(tag)
+    WHERE block.note_id IS NOT NULL AND block.deleted_at IS NULL
+    ON CONFLICT (user_id, name) DO NOTHING
+  `.execute(db);
+  await sql`
+    INSERT INTO note_tag (note_id, tag_id)
+    SELECT DISTINCT block.note_id, tag.id
+    FROM block
+    CROSS JOIN LATERAL unnest(block.tags) AS t(tag)
+    JOIN tag
+      ON tag.user_id = block.user_id
+      AND tag.name = lower(regexp_replace(t.tag, '^#', ''))
+    WHERE block.note_id IS NOT NULL AND block.deleted_at IS NULL
+    ON CONFLICT DO NOTHING
+  `.execute(db);
+}
+
+export async function down(db: Kysely<Database>) {
+  await sql`DROP TRIGGER IF EXISTS note_tag_sync_change ON note_tag`.execute(
+    db,
+  );
+  await sql`DROP FUNCTION IF EXISTS record_note_tag_sync_change()`.execute(db);
+  await sql`DROP TRIGGER IF EXISTS tag_sync_change ON tag`.execute(db);
+  await db.schema.dropIndex("note_tag_tag_id_idx").ifExists().execute();
+  await db.schema.dropIndex("tag_user_id_name_key").ifExists().execute();
+}
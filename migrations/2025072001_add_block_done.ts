@@ -0,0 +1,25 @@
+// migrations/2025072001_add_block_done.ts
+import { Kysely, sql } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // Whether a `task` block's checkbox is ticked. The parser takes the
+  // `[ ]` / `[x]` marker out of the block's content and records it here.
+  await db.schema
+    .alterTable("block")
+    .addColumn("done", "boolean", (col) => col.notNull().defaultTo(false))
+    .execute();
+
+  // Tasks parsed before the column existed still carry their marker.
+  await sql`
+    UPDATE block
+    SET done = content ~ '^\\[[xX]\\]',
+        content = regexp_replace(content, '^\\[[ xX]\\][ \\t]*', ''),
+        version = version + 1
+    WHERE type = 'task' AND content ~ '^\\[[ xX]\\](\\s|$)'
+  `.execute(db);
+}
+
+export async function down(db: Kysely<Database>) {
+  await db.schema.alterTable("block").dropColumn("done").execute();
+}
@@ -0,0 +1,39 @@
+// migrations/2025072101_create_task_completion.ts
+import { Kysely } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // One row each time a recurring task is ticked off and moved on to its
+  // next due date. The task's block may be edited away later; the log stays.
+  await db.schema
+    .createTable("task_completion")
+    .ifNotExists()
+    .addColumn("id", "bigserial", (c) => c.primaryKey())
+    .addColumn("note_id", "uuid", (c) =>
+      c.notNull().references("note.id").onDelete("cascade"),
+    )
+    .addColumn("user_id", "uuid", (c) =>
+      c.notNull().references("user.id").onDelete("cascade"),
+    )
+    .addColumn("block_id", "uuid", (c) =>
+      c.references("block.id").onDelete("set null"),
+    )
+    .addColumn("content", "text", (c) => c.notNull())
+    .addColumn("repeat", "text", (c) => c.notNull())
+    .addColumn("due", "date")
+    .addColumn("next_due", "date", (c) => c.notNull())
+    .addColumn("completed_at", "timestamp", (c) =>
+      c.notNull().defaultTo(db.fn("now")),
+    )
+    .execute();
+
+  await db.schema
+    .createIndex("task_completion_block_id_completed_at_idx")
+    .on("task_completion")
+    .columns(["block_id", "completed_at desc"])
+    .execute();
+}
+
+export async function down(db: Kysely<Database>) {
+  await db.schema.dropTable("task_completion").ifExists().execute();
+}
@@ -0,0 +1,14 @@
+// migrations/2025072201_add_user_timezone.ts
+import { Kysely } from "kysely";
+import type { Database } from "../types";
+
+export async function up(db: Kysely<Database>) {
+  // The IANA time zone the user's browser last reported, like
+  // `Europe/Paris`. Server-side work that depends on the user's "today",
+  // such as rescheduling recurring tasks, reads it; null means UTC.
+  await db.schema.alterTable("user").addColumn("timezone", "text").execute();
+}
+
+export async function down(db: Kysely<Database>) {
+  await db.schema.alterTable("user").dropColumn("timezone").execute();
+}
@@ -0,0 +1,111 @@
+// FILE: replicache/mutationErrors.ts
+import { Cause, Data, Effect, Option } from "effect";
+import { Db } from "../db/DbTag";
+import type { UserId } from "../types/generated/public/User";
+import type { ReplicacheClientGroupId } from "../types/generated/public/ReplicacheClientGroup";
+import type { MutationErrorId } from "../types/generated/public/MutationError";
+
+export class MutationErrorStoreError extends Data.TaggedError(
+  "MutationErrorStoreError",
+)<{
+  readonly cause: unknown;
+}> {}
+
+/** A rejected mutation as reported back to the client group that sent it. */
+export interface RejectedMutation {
+  readonly id: MutationErrorId;
+  readonly mutationID: number;
+  readonly name: string;
+  readonly args: unknown;
+  readonly reason: string;
+  readonly createdAt: Date;
+}
+
+const tagOf = (value: unknown): string | undefined =>
+  typeof value === "object" &&
+  value !== null &&
+  "_tag" in value &&
+  typeof value._tag === "string"
+    ? value._tag
+    : undefined;
+
+/**
+ * Turns the cause of a failed `applyChange` into a sentence the user can act
+ * on. Push wraps feature errors in `MutationApplyError`, so the interesting
+ * tag is usually one level down.
+ */
+export const describeMutationFailure = (
+  cause: Cause.Cause<unknown>,
+): string => {
+  const failure = Cause.failureOption(cause);
+  if (Option.isNone(failure)) {
+    return "The server hit an unexpected error while saving this edit.";
+  }
+  const error = failure.value;
+  const inner =
+    typeof error === "object" && error !== null && "cause" in error
+      ? error.cause
+      : undefined;
+
+  switch (tagOf(inner) ?? tagOf(error)) {
+    case "NoteNotFoundError":
+      return "The note no longer exists.";
+    case "BlockNotFoundError":
+      return "The block no longer exists.";
+    case "BlockVersionConflictError":
+      return "The block was changed elsewhere before this edit arrived.";
+    case "NoteVersionConflictError":
+      return "The note was changed elsewhere and this edit could not be merged into it.";
+    case "ParseError":
+    case "NoteValidationError":
+      return "The edit contained invalid data.";
+    default:
+      return typeof inner === "string"
+        ? inner
+        : "The server could not save this edit.";
+  }
+};
+
+export const listMutationErrors = (
+  userId: UserId,
+  clientGroupID: ReplicacheClientGroupId,
+): Effect.Effect<readonly RejectedMutation[], MutationErrorStoreError, Db> =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const rows = yield* Effect.tryPromise({
+      try: () =>
+        db
+          .selectFrom("mutation_error")
+          .select(["id", "mutation_id", "name", "args", "reason", "created_at"])
+          .where("user_id", "=", userId)
+          .where("client_group_id", "=", clientGroupID)
+          .orderBy("id")
+          .execute(),
+      catch: (cause) => new MutationErrorStoreError({ cause }),
+    });
+    return rows.map((row) => ({
+      id: row.id,
+      mutationID: row.mutation_id,
+      name: row.name,
+      args: row.args,
+      reason: row.reason,
+      createdAt: row.created_at,
+    }));
+  });
+
+export const dismissMutationError = (
+  userId: UserId,
+  id: MutationErrorId,
+): Effect.Effect<void, MutationErrorStoreError, Db> =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    yield* Effect.tryPromise({
+      try: () =>
+        db
+          .deleteFrom("mutation_error")
+          .where("id", "=", id)
+          .where("user_id", "=", userId)
+          .execute(),
+      catch: (cause) => new MutationErrorStoreError({ cause }),
+    });
+  });
@@ -1,12 +1,23 @@
 // FILE: replicache/pull.ts
-import { Data, Effect } from "effect";
-import { type PatchOperation, type ReadonlyJSONValue } from "replicache";
+import { Data, Effect, Exit, Option } from "effect";
+import { Schema } from "@effect/schema";
+import { type PatchOperation } from "replicache";
+import { sql, type ControlledTransaction } from "kysely";
 import { Db } from "../db/DbTag";
 import { serverLog } from "../lib/server/logger.server";
-import { type Note, type NoteId } from "../types/generated/public/Note";
+import { type NoteId } from "../types/generated/public/Note";
 import { type Block, type BlockId } from "../types/generated/public/Block";
 import { type UserId } from "../types/generated/public/User";
-import { type ClientViewRecordId } from "../types/generated/public/ClientViewRecord";
+import { type TagId } from "../types/generated/public/Tag";
+import { type ReplicacheClientGroupId } from "../types/generated/public/ReplicacheClientGroup";
+import type { Database } from "../types";
+import { INITIAL_SYNC_KEY, SCHEMA_VERSION_KEY } from "../lib/shared/sync";
+import type { SyncedTag } from "../lib/shared/tags";
+import {
+  SchemaVersionNotSupportedError,
+  serializerFor,
+  type RecordSerializer,
+} from "./schemaVersions";
 
 // --- Types ---
 
@@ -17,309 +28,521 @@ class PullError extends Data.TaggedError("PullError")<{
 export interface PullRequest {
   clientGroupID: string;
   cookie: unknown; // Receive cookie as unknown for safe parsing
+  /** Missing from clients that predate schema versions. */
+  schemaVersion?: string;
 }
 
+/** Notes per pull while an initial sync is being paged in. */
+const INITIAL_SYNC_PAGE_SIZE = 50;
+
+/**
+ * Where a paged initial sync left off. Notes go out most recently updated
+ * first; `cursor` is the last note sent, with its timestamp kept as Postgres
+ * text so no sub-millisecond precision is lost between pages.
+ */
+type InitialSyncProgress = {
+  readonly cursor: { readonly updatedAt: string; readonly id: string };
+  readonly synced: number;
+  readonly total: number;
+};
+
+/**
+ * `version` is the user's sync version the client has caught up to. Every
+ * note/block write bumps that version (see the `record_sync_change` trigger),
+ * so the next pull only has to read `sync_change` rows above it. While
+ * `initialSync` is set, `version` is the version the sync started at; rows
+ * that change while pages are being delivered are picked up from there once
+ * the last page is sent.
+ *
+ * `order` is what Replicache compares, and it must never go backwards. It
+ * tracks `version` but never drops below the order of the client's previous
+ * cookie, which may be a larger legacy CVR id.
+ *
+ * `schemaVersion` is the shape the client's data was sent in; cookies from
+ * before schema versions have none, which reads as "".
+ */
+type SyncCookie = {
+  readonly order: number;
+  readonly version: number;
+  readonly schemaVersion: string;
+  readonly initialSync?: InitialSyncProgress;
+};
+
+/** A cookie without a `version` means the client needs a full sync. */
+type ParsedCookie = {
+  readonly order: number;
+  readonly version: number | null;
+  readonly schemaVersion: string;
+  readonly initialSync: InitialSyncProgress | null;
+};
+
+const SyncCookieSchema = Schema.Struct({
+  order: Schema.Number,
+  version: Schema.Int,
+  schemaVersion: Schema.optionalWith(Schema.String, { exact: true }),
+  initialSync: Schema.optionalWith(
+    Schema.Struct({
+      cursor: Schema.Struct({ updatedAt: Schema.String, id: Schema.String }),
+      synced: Schema.Int,
+      total: Schema.Int,
+    }),
+    { exact: true },
+  ),
+});
+
 type PullResponse = {
-  cookie: number;
+  cookie: SyncCookie;
   lastMutationIDChanges: Record<string, number>;
   patch: PatchOperation[];
 };
 
-type CVR = Map<string, number>;
-
-// --- Helper Functions (Unchanged) ---
+// --- Helper Functions ---
 
-const toJSONSafe = (record: Note | Block): ReadonlyJSONValue => {
-  if ("file_path" in record) {
+const parseCookie = (cookie: unknown): ParsedCookie => {
+  if (typeof cookie === "number" && Number.isFinite(cookie)) {
     return {
-      ...record,
-      created_at: record.created_at.toISOString(),
-      updated_at: record.updated_at.toISOString(),
-      fields: record.fields as ReadonlyJSONValue,
+      order: cookie,
+      version: null,
+      schemaVersion: "",
+      initialSync: null,
     };
   }
-  return {
-    ...record,
-    created_at: record.created_at.toISOString(),
-    updated_at: record.updated_at.toISOString(),
-  };
+  return Option.match(Schema.decodeUnknownOption(SyncCookieSchema)(cookie), {
+    onNone: () => ({
+      order: 0,
+      version: null,
+      schemaVersion: "",
+      initialSync: null,
+    }),
+    onSome: ({ order, version, schemaVersion, initialSync }) => ({
+      order,
+      version,
+      schemaVersion: schemaVersion ?? "",
+      initialSync: initialSync ?? null,
+    }),
+  });
 };
 
-const compareCVRs = (a: CVR | null, b: CVR | null): boolean => {
-  if (a === b) return true;
-  if (!a || !b) return false;
-  if (a.size !== b.size) return false;
-  for (const [key, val] of a) {
-    if (b.get(key) !== val) return false;
-  }
-  return true;
-};
+const tryDb = <A>(run: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (cause) => new PullError({ cause }),
+  });
 
-// --- Core CVR Logic Effects ---
+/** Trashed notes are synced (the trash lists them); their blocks are not. */
+const blockPatch = (
+  block: Block,
+  serialize: RecordSerializer,
+): PatchOperation =>
+  block.deleted_at === null
+    ? { op: "put", key: `block/${block.id}`, value: serialize(block) }
+    : { op: "del", key: `block/${block.id}` };
 
-const buildNextCVR = (userId: UserId): Effect.Effect<CVR, PullError, Db> =>
+/**
+ * The user's tags, each with the notes carrying it; all of them when `ids`
+ * is null.
+ */
+const fetchTags = (
+  userId: UserId,
+  ids: readonly TagId[] | null,
+): Effect.Effect<SyncedTag[], PullError, Db> =>
   Effect.gen(function* () {
     const db = yield* Db;
-    const nextCVR = new Map<string, number>();
-
-    const notes = yield* Effect.tryPromise({
-      try: () =>
-        db
-          .selectFrom("note")
-          .where("user_id", "=", userId)
-          .select(["id", "version"])
-          .execute(),
-      catch: (cause) => new PullError({ cause }),
-    });
-    for (const note of notes) {
-      nextCVR.set(`note/${note.id}`, note.version);
-    }
-
-    const blocks = yield* Effect.tryPromise({
-      try: () =>
-        db
-          .selectFrom("block")
-          .where("user_id", "=", userId)
-          .select(["id", "version"])
-          .execute(),
-      catch: (cause) => new PullError({ cause }),
+    return yield* tryDb(() => {
+      let query = db
+        .selectFrom("tag")
+        .leftJoin("note_tag", "note_tag.tag_id", "tag.id")
+        .selectAll("tag")
+        .select(
+          sql<NoteId[]>`coalesce(
+            array_agg(note_tag.note_id::text)
+              FILTER (WHERE note_tag.note_id IS NOT NULL),
+            '{}'
+          )`.as("note_ids"),
+        )
+        .where("tag.user_id", "=", userId)
+        .groupBy("tag.id");
+      if (ids !== null) query = query.where("tag.id", "in", ids);
+      return query.execute();
     });
-    for (const block of blocks) {
-      nextCVR.set(`block/${block.id}`, block.version);
-    }
-
-    return nextCVR;
   });
 
-const fetchCVR = (
-  cvrId: number | null,
-): Effect.Effect<CVR | null, PullError, Db> =>
+// --- Core Sync Logic Effects ---
+
+const fetchSyncState = (
+  userId: UserId,
+): Effect.Effect<{ version: number; tombstoneFloor: number }, PullError, Db> =>
   Effect.gen(function* () {
-    if (cvrId === null) return null;
     const db = yield* Db;
-
-    const cvrRecord = yield* Effect.tryPromise({
-      try: () =>
-        db
-          .selectFrom("client_view_record")
-          .where("id", "=", cvrId as ClientViewRecordId)
-          .selectAll()
-          .executeTakeFirst(),
-      catch: (cause) => new PullError({ cause }),
-    });
-
-    if (!cvrRecord) return null;
-    return new Map(Object.entries(cvrRecord.data as object)) as CVR;
+    const row = yield* tryDb(() =>
+      db
+        .selectFrom("user_sync_version")
+        .select(["version", "tombstone_floor"])
+        .where("user_id", "=", userId)
+        .executeTakeFirst(),
+    );
+    return {
+      version: Number(row?.version ?? 0),
+      tombstoneFloor: Number(row?.tombstone_floor ?? 0),
+    };
   });
 
-const storeCVR = (
+/**
+ * One page of an initial sync: the next `INITIAL_SYNC_PAGE_SIZE` notes after
+ * `progress` (or a `clear` and the first page when it is null) together with
+ * their blocks. Returns the progress to resume from, or null after the last
+ * page.
+ */
+const buildInitialSyncPage = (
   userId: UserId,
-  cvr: CVR,
-): Effect.Effect<number, PullError, Db> =>
+  progress: InitialSyncProgress | null,
+  schemaVersion: string,
+  serialize: RecordSerializer,
+): Effect.Effect<
+  { patch: PatchOperation[]; next: InitialSyncProgress | null },
+  PullError,
+  Db
+> =>
   Effect.gen(function* () {
     const db = yield* Db;
+    const patch: PatchOperation[] =
+      progress === null
+        ? [
+            { op: "clear" },
+            { op: "put", key: SCHEMA_VERSION_KEY, value: schemaVersion },
+          ]
+        : [];
+
+    const total =
+      progress?.total ??
+      Number(
+        (yield* tryDb(() =>
+          db
+            .selectFrom("note")
+            .select((eb) => eb.fn.countAll().as("count"))
+            .where("user_id", "=", userId)
+            .executeTakeFirstOrThrow(),
+        )).count,
+      );
 
-    const result = yield* Effect.tryPromise({
-      try: () =>
+    const rows = yield* tryDb(() => {
+      let query = db
+        .selectFrom("note")
+        .selectAll()
+        .select(sql<string>`updated_at::text`.as("cursor_updated_at"))
+        .where("user_id", "=", userId);
+      if (progress !== null) {
+        const { updatedAt, id } = progress.cursor;
+        query = query.where(
+          sql<boolean>`(updated_at, id) < (${updatedAt}::timestamp, ${id}::uuid)`,
+        );
+      }
+      return query
+        .orderBy("updated_at", "desc")
+        .orderBy("id", "desc")
+        .limit(INITIAL_SYNC_PAGE_SIZE + 1)
+        .execute();
+    });
+    const hasMore = rows.length > INITIAL_SYNC_PAGE_SIZE;
+    const page = rows
+      .slice(0, INITIAL_SYNC_PAGE_SIZE)
+      .map(({ cursor_updated_at, ...note }) => ({
+        note,
+        cursor: { updatedAt: cursor_updated_at, id: note.id },
+      }));
+
+    for (const { note } of page) {
+      patch.push({
+        op: "put",
+        key: `note/${note.id}`,
+        value: serialize(note),
+      });
+    }
+
+    // Blocks that belong to no note have no page of their own, so they ride
+    // along with the last one.
+    const noteIds = page.map(({ note }) => note.id);
+    if (noteIds.length > 0 || !hasMore) {
+      const blocks = yield* tryDb(() =>
         db
-          .insertInto("client_view_record")
-          .values({
-            user_id: userId,
-            data: JSON.stringify(Object.fromEntries(cvr)),
+          .selectFrom("block")
+          .selectAll()
+          .where("user_id", "=", userId)
+          .where("deleted_at", "is", null)
+          .where((eb) => {
+            const inPage =
+              noteIds.length > 0 ? eb("note_id", "in", noteIds) : eb.val(false);
+            return hasMore
+              ? inPage
+              : eb.or([inPage, eb("note_id", "is", null)]);
           })
-          .returning("id")
-          .executeTakeFirstOrThrow(),
-      catch: (cause) => new PullError({ cause }),
-    });
-    return result.id;
+          .execute(),
+      );
+      for (const block of blocks) {
+        patch.push(blockPatch(block, serialize));
+      }
+    }
+
+    // Tags span notes from every page, so they all go out with the last.
+    if (!hasMore) {
+      for (const tag of yield* fetchTags(userId, null)) {
+        patch.push({ op: "put", key: `tag/${tag.id}`, value: serialize(tag) });
+      }
+    }
+
+    const last = page[page.length - 1];
+    const next =
+      hasMore && last
+        ? {
+            cursor: last.cursor,
+            synced: (progress?.synced ?? 0) + page.length,
+            total,
+          }
+        : null;
+    patch.push(
+      next === null
+        ? { op: "del", key: INITIAL_SYNC_KEY }
+        : {
+            op: "put",
+            key: INITIAL_SYNC_KEY,
+            value: { synced: next.synced, total: next.total },
+          },
+    );
+
+    return { patch, next };
   });
 
-const calculateDiff = (
+/** Only the keys written or deleted after `sinceVersion`. */
+const buildIncrementalPatch = (
   userId: UserId,
-  oldCVR: CVR | null,
-  nextCVR: CVR,
+  sinceVersion: number,
+  serialize: RecordSerializer,
 ): Effect.Effect<PatchOperation[], PullError, Db> =>
   Effect.gen(function* () {
     const db = yield* Db;
     const patch: PatchOperation[] = [];
 
-    if (oldCVR === null) {
-      patch.push({ op: "clear" });
-      const noteIds: NoteId[] = [];
-      const blockIds: BlockId[] = [];
-      for (const key of nextCVR.keys()) {
-        if (key.startsWith("note/")) noteIds.push(key.substring(5) as NoteId);
-        if (key.startsWith("block/"))
-          blockIds.push(key.substring(6) as BlockId);
-      }
-
-      if (noteIds.length > 0) {
-        const notes = yield* Effect.tryPromise({
-          try: () =>
-            db
-              .selectFrom("note")
-              .where("user_id", "=", userId)
-              .where("id", "in", noteIds)
-              .selectAll()
-              .execute(),
-          catch: (cause) => new PullError({ cause }),
-        });
-        for (const note of notes) {
-          patch.push({
-            op: "put",
-            key: `note/${note.id}`,
-            value: toJSONSafe(note),
-          });
-        }
-      }
+    const changes = yield* tryDb(() =>
+      db
+        .selectFrom("sync_change")
+        .select(["key", "deleted"])
+        .where("user_id", "=", userId)
+        .where("sync_version", ">", String(sinceVersion))
+        .execute(),
+    );
 
-      if (blockIds.length > 0) {
-        const blocks = yield* Effect.tryPromise({
-          try: () =>
-            db
-              .selectFrom("block")
-              .where("user_id", "=", userId)
-              .where("id", "in", blockIds)
-              .selectAll()
-              .execute(),
-          catch: (cause) => new PullError({ cause }),
-        });
-        for (const block of blocks) {
-          patch.push({
-            op: "put",
-            key: `block/${block.id}`,
-            value: toJSONSafe(block),
-          });
-        }
+    const noteIds: NoteId[] = [];
+    const blockIds: BlockId[] = [];
+    const tagIds: TagId[] = [];
+    for (const change of changes) {
+      if (change.deleted) {
+        patch.push({ op: "del", key: change.key });
+      } else if (change.key.startsWith("note/")) {
+        noteIds.push(change.key.substring(5) as NoteId);
+      } else if (change.key.startsWith("block/")) {
+        blockIds.push(change.key.substring(6) as BlockId);
+      } else if (change.key.startsWith("tag/")) {
+        tagIds.push(change.key.substring(4) as TagId);
       }
-      return patch;
     }
 
-    const noteIdsToPut: NoteId[] = [];
-    const blockIdsToPut: BlockId[] = [];
-    for (const [key, nextVersion] of nextCVR.entries()) {
-      const oldVersion = oldCVR.get(key);
-      if (oldVersion === undefined || nextVersion > oldVersion) {
-        if (key.startsWith("note/"))
-          noteIdsToPut.push(key.substring(5) as NoteId);
-        if (key.startsWith("block/"))
-          blockIdsToPut.push(key.substring(6) as BlockId);
-      }
-    }
-    for (const key of oldCVR.keys()) {
-      if (!nextCVR.has(key)) {
-        patch.push({ op: "del", key });
-      }
-    }
-    if (noteIdsToPut.length > 0) {
-      const notes = yield* Effect.tryPromise({
-        try: () =>
-          db
-            .selectFrom("note")
-            .where("user_id", "=", userId)
-            .where("id", "in", noteIdsToPut)
-            .selectAll()
-            .execute(),
-        catch: (cause) => new PullError({ cause }),
-      });
+    if (noteIds.length > 0) {
+      const notes = yield* tryDb(() =>
+        db
+          .selectFrom("note")
+          .selectAll()
+          .where("user_id", "=", userId)
+          .where("id", "in", noteIds)
+          .execute(),
+      );
       for (const note of notes) {
         patch.push({
           op: "put",
           key: `note/${note.id}`,
-          value: toJSONSafe(note),
+          value: serialize(note),
         });
       }
     }
-    if (blockIdsToPut.length > 0) {
-      const blocks = yield* Effect.tryPromise({
-        try: () =>
-          db
-            .selectFrom("block")
-            .where("user_id", "=", userId)
-            .where("id", "in", blockIdsToPut)
-            .selectAll()
-            .execute(),
-        catch: (cause) => new PullError({ cause }),
-      });
+
+    if (blockIds.length > 0) {
+      const blocks = yield* tryDb(() =>
+        db
+          .selectFrom("block")
+          .selectAll()
+          .where("user_id", "=", userId)
+          .where("id", "in", blockIds)
+          .execute(),
+      );
       for (const block of blocks) {
-        patch.push({
-          op: "put",
-          key: `block/${block.id}`,
-          value: toJSONSafe(block),
-        });
+        patch.push(blockPatch(block, serialize));
       }
     }
+
+    if (tagIds.length > 0) {
+      for (const tag of yield* fetchTags(userId, tagIds)) {
+        patch.push({ op: "put", key: `tag/${tag.id}`, value: serialize(tag) });
+      }
+    }
+
     return patch;
   });
 
+const fetchLastMutationIDs = (
+  clientGroupID: ReplicacheClientGroupId,
+  userId: UserId,
+): Effect.Effect<Record<string, number>, PullError, Db> =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const clients = yield* tryDb(() =>
+      db
+        .selectFrom("replicache_client")
+        .innerJoin(
+          "replicache_client_group",
+          "replicache_client.client_group_id",
+          "replicache_client_group.id",
+        )
+        .where("replicache_client_group.id", "=", clientGroupID)
+        .where("replicache_client_group.user_id", "=", userId)
+        .select([
+          "replicache_client.id",
+          "replicache_client.last_mutation_id as lastMutationID",
+        ])
+        .execute(),
+    );
+    return clients.reduce<Record<string, number>>((acc, client) => {
+      acc[client.id] = client.lastMutationID;
+      return acc;
+    }, {});
+  });
+
 // --- Main Handler ---
 
 export const handlePull = (
   userId: UserId,
   req: PullRequest,
-): Effect.Effect<PullResponse, PullError, Db> =>
+): Effect.Effect<
+  PullResponse,
+  PullError | SchemaVersionNotSupportedError,
+  Db
+> =>
   Effect.gen(function* () {
     const db = yield* Db;
-    const { clientGroupID } = req;
-    // Safely parse the cookie
-    const cvrId =
-      typeof req.cookie === "number" && Number.isInteger(req.cookie)
-        ? req.cookie
-        : null;
+    const clientGroupID = req.clientGroupID as ReplicacheClientGroupId;
+    const cookie = parseCookie(req.cookie);
+    const schemaVersion = req.schemaVersion ?? "";
+    const serialize = serializerFor(schemaVersion);
+    if (!serialize) {
+      return yield* Effect.fail(
+        new SchemaVersionNotSupportedError({ schemaVersion }),
+      );
+    }
 
     yield* serverLog(
       "info",
-      { userId, clientGroupID, cvrId: cvrId ?? "new client" },
+      { userId, clientGroupID, cookie: cookie.version ?? "full sync" },
       "Processing pull request",
       "Replicache:Pull",
     );
 
-    const clients = yield* Effect.tryPromise({
-      try: () =>
-        db
-          .selectFrom("replicache_client")
-          .innerJoin(
-            "replicache_client_group",
-            "replicache_client.client_group_id",
-            "replicache_client_group.id",
-          )
-          .where("replicache_client_group.user_id", "=", userId)
-          .select([
-            "replicache_client.id",
-            "replicache_client.last_mutation_id as lastMutationID",
-          ])
-          .execute(),
-      catch: (cause) => new PullError({ cause }),
-    });
-    const lastMutationIDChanges = clients.reduce<Record<string, number>>(
-      (acc, client) => {
-        acc[client.id] = client.lastMutationID;
-        return acc;
-      },
-      {},
+    // Pulling counts as activity, so the GC job keeps this group around.
+    yield* tryDb(() =>
+      db
+        .updateTable("replicache_client_group")
+        .set({ updated_at: new Date() })
+        .where("id", "=", clientGroupID)
+        .where("user_id", "=", userId)
+        .execute(),
     );
 
-    const [oldCVR, nextCVR] = yield* Effect.all([
-      fetchCVR(cvrId),
-      buildNextCVR(userId),
-    ]);
-
-    if (cvrId !== null && compareCVRs(oldCVR, nextCVR)) {
-      yield* serverLog(
-        "info",
-        { userId },
-        "CVR is unchanged. Returning same cookie and LMID changes.",
-        "Replicache:Pull:NoChange",
+    // One snapshot for the version and the rows, so the cookie never claims
+    // changes the patch doesn't contain.
+    const readSnapshot = Effect.gen(function* () {
+      const { version, tombstoneFloor } = yield* fetchSyncState(userId);
+      const lastMutationIDChanges = yield* fetchLastMutationIDs(
+        clientGroupID,
+        userId,
       );
-      return {
-        lastMutationIDChanges,
-        cookie: cvrId,
-        patch: [],
-      };
-    }
 
-    const patch = yield* calculateDiff(userId, oldCVR, nextCVR);
-    const nextCookie = yield* storeCVR(userId, nextCVR);
+      // Tombstones below the floor are gone, so a cookie that old can't be
+      // brought up to date incrementally and has to start over. So does one
+      // whose data was shaped for another schema version.
+      const isUsable =
+        cookie.version !== null &&
+        cookie.version >= tombstoneFloor &&
+        cookie.schemaVersion === schemaVersion;
+
+      if (!isUsable || cookie.initialSync !== null) {
+        const startVersion = isUsable ? cookie.version : version;
+        const { patch, next } = yield* buildInitialSyncPage(
+          userId,
+          isUsable ? cookie.initialSync : null,
+          schemaVersion,
+          serialize,
+        );
+        if (next !== null) {
+          return {
+            version: startVersion,
+            initialSync: next,
+            patch,
+            lastMutationIDChanges,
+          };
+        }
+        // Last page: catch up on whatever changed while paging.
+        if (startVersion < version) {
+          patch.push(
+            ...(yield* buildIncrementalPatch(userId, startVersion, serialize)),
+          );
+        }
+        return { version, initialSync: null, patch, lastMutationIDChanges };
+      }
 
-    return { lastMutationIDChanges, cookie: nextCookie, patch };
+      const patch =
+        cookie.version >= version
+          ? []
+          : yield* buildIncrementalPatch(userId, cookie.version, serialize);
+      return { version, initialSync: null, patch, lastMutationIDChanges };
+    });
+
+    const snapshot = yield* Effect.acquireUseRelease(
+      tryDb(() =>
+        db
+          .startTransaction()
+          .setIsolationLevel("repeatable read")
+          .setAccessMode("read only")
+          .execute(),
+      ),
+      (trx: ControlledTransaction<Database>) =>
+        readSnapshot.pipe(Effect.provideService(Db, trx)),
+      (trx, exit) =>
+        tryDb(() =>
+          Exit.isSuccess(exit)
+            ? trx.commit().execute()
+            : trx.rollback().execute(),
+        ).pipe(Effect.ignore),
+    );
+
+    yield* serverLog(
+      "info",
+      { userId, version: snapshot.version, patchSize: snapshot.patch.length },
+      "Pull complete",
+      "Replicache:Pull:Success",
+    );
+
+    return {
+      lastMutationIDChanges: snapshot.lastMutationIDChanges,
+      cookie:
+        snapshot.initialSync === null
+          ? {
+              order: Math.max(cookie.order, snapshot.version),
+              version: snapshot.version,
+              schemaVersion,
+            }
+          : {
+              order: cookie.order,
+              version: snapshot.version,
+              schemaVersion,
+              initialSync: snapshot.initialSync,
+            },
+      patch: snapshot.patch,
+    };
   });
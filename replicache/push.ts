@@ -1,18 +1,33 @@
 // FILE: replicache/push.ts
-import { Effect, Data } from "effect";
-import type { PushRequest } from "replicache";
+import { Cause, Effect, Data, Exit, Option } from "effect";
+import { sql, type ControlledTransaction } from "kysely";
+import type { MutationV1, PushRequest } from "replicache";
 import { Db } from "../db/DbTag";
 import { PokeService } from "../lib/server/PokeService";
 import { serverLog } from "../lib/server/logger.server";
 import type { ReplicacheClientId } from "../types/generated/public/ReplicacheClient";
 import type { ReplicacheClientGroupId } from "../types/generated/public/ReplicacheClientGroup";
 import type { UserId } from "../types/generated/public/User";
+import type { Database } from "../types";
+import { describeMutationFailure } from "./mutationErrors";
+import {
+  SchemaVersionNotSupportedError,
+  serializerFor,
+} from "./schemaVersions";
 import { Schema } from "@effect/schema";
-import { NoteIdSchema, UserIdSchema } from "../lib/shared/schemas";
+import {
+  BlockIdSchema,
+  NoteIdSchema,
+  UserIdSchema,
+} from "../lib/shared/schemas";
 import { Crypto } from "../lib/server/crypto";
-// REMOVED toError import as it's no longer used here.
 import { createNote } from "../features/notes/createNote";
 import { updateNote } from "../features/notes/updateNote";
+import { deleteNote } from "../features/notes/deleteNote";
+import { restoreNote } from "../features/notes/restoreNote";
+import { purgeNote } from "../features/notes/purgeNote";
+import { updateBlock } from "../features/notes/updateBlock";
+import { toggleTask } from "../features/notes/toggleTask";
 
 /* -------------------------------------------------------------------------- */
 /* Schemas                                                                    */
@@ -27,6 +42,40 @@ const UpdateNoteMutationArgs = Schema.Struct({
   id: NoteIdSchema,
   title: Schema.String,
   content: Schema.String,
+  restoredFrom: Schema.optionalWith(Schema.String, { exact: true }),
+  baseVersion: Schema.optionalWith(Schema.Number, { exact: true }),
+});
+const NoteIdMutationArgs = Schema.Struct({
+  id: NoteIdSchema,
+});
+const UpdateBlockMutationArgs = Schema.Struct({
+  id: BlockIdSchema,
+  version: Schema.optionalWith(Schema.Number, { exact: true }),
+  type: Schema.optionalWith(Schema.String, { exact: true }),
+  content: Schema.optionalWith(Schema.String, { exact: true }),
+  fields: Schema.optionalWith(
+    Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+    { exact: true },
+  ),
+  tags: Schema.optionalWith(Schema.mutable(Schema.Array(Schema.String)), {
+    exact: true,
+  }),
+  links: Schema.optionalWith(Schema.mutable(Schema.Array(Schema.String)), {
+    exact: true,
+  }),
+  transclusions: Schema.optionalWith(
+    Schema.mutable(Schema.Array(Schema.String)),
+    { exact: true },
+  ),
+  parent_id: Schema.optionalWith(Schema.Union(BlockIdSchema, Schema.Null), {
+    exact: true,
+  }),
+  depth: Schema.optionalWith(Schema.Number, { exact: true }),
+  order: Schema.optionalWith(Schema.Number, { exact: true }),
+});
+const ToggleTaskMutationArgs = Schema.Struct({
+  id: BlockIdSchema,
+  done: Schema.Boolean,
 });
 /* -------------------------------------------------------------------------- */
 /* Error Types                                                                */
@@ -39,11 +88,71 @@ class MutationApplyError extends Data.TaggedError("MutationApplyError")<{
   readonly cause: unknown;
 }> {}
 
+class ClientGroupForbiddenError extends Data.TaggedError(
+  "ClientGroupForbiddenError",
+)<{
+  readonly clientGroupID: string;
+}> {}
+
+class ClientStateNotFoundError extends Data.TaggedError(
+  "ClientStateNotFoundError",
+)<{
+  readonly clientID: string;
+}> {}
+
+class MutationOutOfOrderError extends Data.TaggedError(
+  "MutationOutOfOrderError",
+)<{
+  readonly clientID: string;
+  readonly expected: number;
+  readonly received: number;
+}> {}
+
 /* -------------------------------------------------------------------------- */
 /* Mutation Application Logic (Now calling features)                          */
 /* -------------------------------------------------------------------------- */
+/**
+ * The text a client group's previous edit of a note submitted, if that edit
+ * was made against the same stored version. Until the group pulls, its next
+ * edit builds on that text rather than on the stored one, so it is the right
+ * merge base; the revision history would make the group's own consecutive
+ * edits look like conflicts.
+ */
+const findPreviousEdit = (
+  clientGroupID: ReplicacheClientGroupId,
+  noteId: string,
+  baseVersion: number,
+): Effect.Effect<
+  { title: string; content: string } | undefined,
+  MutationApplyError,
+  Db
+> =>
+  Effect.gen(function* () {
+    const db = yield* Db;
+    const row = yield* Effect.tryPromise({
+      try: () =>
+        db
+          .selectFrom("change_log")
+          .select("args")
+          .where("client_group_id", "=", clientGroupID)
+          .where("name", "=", "updateNote")
+          .where(sql<string>`args->>'id'`, "=", noteId)
+          .where(sql<string>`args->>'baseVersion'`, "=", String(baseVersion))
+          .orderBy("id", "desc")
+          .limit(1)
+          .executeTakeFirst(),
+      catch: (cause) => new MutationApplyError({ cause }),
+    });
+    if (!row) return undefined;
+    const args = Schema.decodeUnknownOption(UpdateNoteMutationArgs)(row.args);
+    return Option.isSome(args)
+      ? { title: args.value.title, content: args.value.content }
+      : undefined;
+  });
+
 const applyChange = (
   userId: UserId,
+  clientGroupID: ReplicacheClientGroupId,
   change: { name: string; args: unknown },
 ): Effect.Effect<void, MutationApplyError, Db | Crypto | PokeService> => {
   switch (change.name) {
@@ -72,8 +181,76 @@ const applyChange = (
         const args = yield* Schema.decodeUnknown(UpdateNoteMutationArgs)(
           change.args,
         ).pipe(Effect.mapError((cause) => new MutationApplyError({ cause })));
+        const base =
+          args.baseVersion === undefined
+            ? undefined
+            : yield* findPreviousEdit(clientGroupID, args.id, args.baseVersion);
+
+        yield* updateNote(
+          args.id,
+          userId,
+          base === undefined ? args : { ...args, base },
+        ).pipe(Effect.mapError((cause) => new MutationApplyError({ cause })));
+      });
+    }
+
+    case "updateBlock": {
+      return Effect.gen(function* () {
+        const { id, ...update } = yield* Schema.decodeUnknown(
+          UpdateBlockMutationArgs,
+        )(change.args).pipe(
+          Effect.mapError((cause) => new MutationApplyError({ cause })),
+        );
+
+        yield* updateBlock(id, userId, update).pipe(
+          Effect.mapError((cause) => new MutationApplyError({ cause })),
+        );
+      });
+    }
+
+    case "toggleTask": {
+      return Effect.gen(function* () {
+        const args = yield* Schema.decodeUnknown(ToggleTaskMutationArgs)(
+          change.args,
+        ).pipe(Effect.mapError((cause) => new MutationApplyError({ cause })));
 
-        yield* updateNote(args.id, userId, args).pipe(
+        yield* toggleTask(args.id, userId, args.done).pipe(
+          Effect.mapError((cause) => new MutationApplyError({ cause })),
+        );
+      });
+    }
+
+    case "deleteNote": {
+      return Effect.gen(function* () {
+        const args = yield* Schema.decodeUnknown(NoteIdMutationArgs)(
+          change.args,
+        ).pipe(Effect.mapError((cause) => new MutationApplyError({ cause })));
+
+        yield* deleteNote(args.id, userId).pipe(
+          Effect.mapError((cause) => new MutationApplyError({ cause })),
+        );
+      });
+    }
+
+    case "restoreNote": {
+      return Effect.gen(function* () {
+        const args = yield* Schema.decodeUnknown(NoteIdMutationArgs)(
+          change.args,
+        ).pipe(Effect.mapError((cause) => new MutationApplyError({ cause })));
+
+        yield* restoreNote(args.id, userId).pipe(
+          Effect.mapError((cause) => new MutationApplyError({ cause })),
+        );
+      });
+    }
+
+    case "purgeNote": {
+      return Effect.gen(function* () {
+        const args = yield* Schema.decodeUnknown(NoteIdMutationArgs)(
+          change.args,
+        ).pipe(Effect.mapError((cause) => new MutationApplyError({ cause })));
+
+        yield* purgeNote(args.id, userId).pipe(
           Effect.mapError((cause) => new MutationApplyError({ cause })),
         );
       });
@@ -84,12 +261,204 @@ const applyChange = (
   }
 };
 /* -------------------------------------------------------------------------- */
-/* Main Handler (Simplified transaction handling)                             */
+/* Mutation Processing (one transaction per push)                             */
+/* -------------------------------------------------------------------------- */
+const tryTrx = <A>(run: () => Promise<A>) =>
+  Effect.tryPromise({
+    try: run,
+    catch: (cause) => new ReplicachePushError({ cause }),
+  });
+
+/**
+ * Applies a push's mutations inside `trx`. Mutations at or below a client's
+ * stored `last_mutation_id` are skipped, so retried pushes are no-ops. Each
+ * mutation runs under a savepoint: when one fails, only its writes are rolled
+ * back and it still counts as processed, as Replicache expects.
+ */
+const processMutations = (
+  trx: ControlledTransaction<Database>,
+  clientGroupID: ReplicacheClientGroupId,
+  mutations: readonly MutationV1[],
+  userId: UserId,
+): Effect.Effect<
+  void,
+  | ReplicachePushError
+  | ClientGroupForbiddenError
+  | ClientStateNotFoundError
+  | MutationOutOfOrderError,
+  Db | Crypto | PokeService
+> =>
+  Effect.gen(function* () {
+    const group = yield* tryTrx(() =>
+      trx
+        .selectFrom("replicache_client_group")
+        .select(["id", "user_id"])
+        .where("id", "=", clientGroupID)
+        .forUpdate()
+        .executeTakeFirst(),
+    );
+    if (group && group.user_id !== userId) {
+      return yield* Effect.fail(
+        new ClientGroupForbiddenError({ clientGroupID }),
+      );
+    }
+    if (group) {
+      yield* tryTrx(() =>
+        trx
+          .updateTable("replicache_client_group")
+          .set({ updated_at: new Date() })
+          .where("id", "=", clientGroupID)
+          .execute(),
+      );
+    } else {
+      yield* tryTrx(() =>
+        trx
+          .insertInto("replicache_client_group")
+          .values({ id: clientGroupID, user_id: userId })
+          .execute(),
+      );
+    }
+
+    const lastMutationIDs = new Map<ReplicacheClientId, number>();
+    const getLastMutationID = (clientID: ReplicacheClientId) =>
+      Effect.gen(function* () {
+        const cached = lastMutationIDs.get(clientID);
+        if (cached !== undefined) return cached;
+
+        yield* tryTrx(() =>
+          trx
+            .insertInto("replicache_client")
+            .values({ id: clientID, client_group_id: clientGroupID })
+            .onConflict((oc) => oc.doNothing())
+            .execute(),
+        );
+        const client = yield* tryTrx(() =>
+          trx
+            .selectFrom("replicache_client")
+            .select(["client_group_id", "last_mutation_id"])
+            .where("id", "=", clientID)
+            .forUpdate()
+            .executeTakeFirstOrThrow(),
+        );
+        if (client.client_group_id !== clientGroupID) {
+          return yield* Effect.fail(
+            new ClientGroupForbiddenError({ clientGroupID }),
+          );
+        }
+        lastMutationIDs.set(clientID, client.last_mutation_id);
+        return client.last_mutation_id;
+      });
+
+    for (const mutation of mutations) {
+      const clientID = mutation.clientID as ReplicacheClientId;
+      const lastMutationID = yield* getLastMutationID(clientID);
+
+      if (mutation.id <= lastMutationID) {
+        yield* serverLog(
+          "info",
+          { userId, mutationID: mutation.id, lastMutationID },
+          `Skipping already processed mutation ${mutation.name}`,
+          "Replicache:Push:Skip",
+        );
+        continue;
+      }
+      // Clients start counting at 1, so a gap from 0 means this client's
+      // state was garbage-collected; Replicache recovers by resetting it.
+      if (lastMutationID === 0 && mutation.id > 1) {
+        return yield* Effect.fail(new ClientStateNotFoundError({ clientID }));
+      }
+      if (mutation.id > lastMutationID + 1) {
+        return yield* Effect.fail(
+          new MutationOutOfOrderError({
+            clientID,
+            expected: lastMutationID + 1,
+            received: mutation.id,
+          }),
+        );
+      }
+
+      const savepoint = yield* tryTrx(() =>
+        trx.savepoint("mutation").execute(),
+      );
+      const result = yield* Effect.exit(
+        applyChange(userId, clientGroupID, mutation),
+      );
+
+      if (Exit.isSuccess(result)) {
+        yield* tryTrx(() => savepoint.releaseSavepoint("mutation").execute());
+        yield* tryTrx(() =>
+          trx
+            .insertInto("change_log")
+            .values({
+              client_group_id: clientGroupID,
+              client_id: clientID,
+              mutation_id: mutation.id,
+              name: mutation.name,
+              args: JSON.stringify(mutation.args),
+            })
+            .execute(),
+        );
+      } else {
+        yield* tryTrx(() =>
+          savepoint.rollbackToSavepoint("mutation").execute(),
+        );
+        yield* tryTrx(() => savepoint.releaseSavepoint("mutation").execute());
+        yield* serverLog(
+          "error",
+          {
+            userId,
+            mutationID: mutation.id,
+            name: mutation.name,
+            cause: Cause.pretty(result.cause),
+          },
+          `Mutation ${mutation.name} failed; its changes were rolled back`,
+          "Replicache:Push:MutationFailure",
+        );
+        yield* tryTrx(() =>
+          trx
+            .insertInto("mutation_error")
+            .values({
+              user_id: userId,
+              client_group_id: clientGroupID,
+              client_id: clientID,
+              mutation_id: mutation.id,
+              name: mutation.name,
+              args: JSON.stringify(mutation.args),
+              reason: describeMutationFailure(result.cause),
+            })
+            .execute(),
+        );
+      }
+
+      lastMutationIDs.set(clientID, mutation.id);
+    }
+
+    for (const [clientID, lastMutationID] of lastMutationIDs) {
+      yield* tryTrx(() =>
+        trx
+          .updateTable("replicache_client")
+          .set({ last_mutation_id: lastMutationID, updated_at: new Date() })
+          .where("id", "=", clientID)
+          .execute(),
+      );
+    }
+  });
+
+/* -------------------------------------------------------------------------- */
+/* Main Handler                                                               */
 /* -------------------------------------------------------------------------- */
 export const handlePush = (
   req: PushRequest,
   userId: UserId,
-): Effect.Effect<void, ReplicachePushError, Db | PokeService | Crypto> =>
+): Effect.Effect<
+  void,
+  | ReplicachePushError
+  | ClientGroupForbiddenError
+  | ClientStateNotFoundError
+  | MutationOutOfOrderError
+  | SchemaVersionNotSupportedError,
+  Db | PokeService | Crypto
+> =>
   Effect.gen(function* () {
     if (!("clientGroupID" in req)) {
       yield* serverLog(
@@ -101,11 +470,22 @@ export const handlePush = (
       return;
     }
 
+    // Mutator arguments have not changed shape between schema versions so
+    // far; a version the pull side cannot serve is refused here as well.
+    if (!serializerFor(req.schemaVersion)) {
+      return yield* Effect.fail(
+        new SchemaVersionNotSupportedError({
+          schemaVersion: req.schemaVersion,
+        }),
+      );
+    }
+
     const { clientGroupID, mutations: originalMutations } = req;
     if (originalMutations.length === 0) return;
 
     const mutations = [...originalMutations].sort((a, b) => a.id - b.id);
     const db = yield* Db;
+    const pokeService = yield* PokeService;
 
     yield* serverLog(
       "info",
@@ -114,83 +494,49 @@ export const handlePush = (
       "Replicache:Push",
     );
 
-    try {
-      const clientID = mutations[0].clientID as ReplicacheClientId;
-
-      yield* Effect.tryPromise({
-        try: () =>
-          db
-            .insertInto("replicache_client_group")
-            .values({
-              id: clientGroupID as ReplicacheClientGroupId,
-              user_id: userId,
-            })
-            .onConflict((oc) => oc.doNothing())
-            .execute(),
-        catch: (cause) => new ReplicachePushError({ cause }),
-      });
-      yield* Effect.tryPromise({
-        try: () =>
-          db
-            .insertInto("replicache_client")
-            .values({
-              id: clientID,
-              client_group_id: clientGroupID as ReplicacheClientGroupId,
-            })
-            .onConflict((oc) => oc.doNothing())
-            .execute(),
-        catch: (cause) => new ReplicachePushError({ cause }),
-      });
-      for (const mutation of mutations) {
-        yield* Effect.tryPromise({
-          try: () =>
-            db
-              .insertInto("change_log")
-              .values({
-                client_group_id: clientGroupID as ReplicacheClientGroupId,
-                client_id: clientID,
-                mutation_id: mutation.id,
-                name: mutation.name,
-                args: JSON.stringify(mutation.args),
-              })
-              .execute(),
-          catch: (cause) => new ReplicachePushError({ cause }),
-        });
-
-        yield* applyChange(userId, mutation);
-      }
+    // Features poke as they go; hold those pokes until the transaction has
+    // committed so clients never pull before the data is visible. Keys are
+    // merged per user; `null` means some poke did not say what it touched.
+    const pendingPokes = new Map<UserId, Set<string> | null>();
+    const deferredPokeService = PokeService.of({
+      poke: (pokedUserId, details) =>
+        Effect.sync(() => {
+          const keys = pendingPokes.get(pokedUserId);
+          pendingPokes.set(
+            pokedUserId,
+            keys === null || !details?.keys
+              ? null
+              : new Set([...(keys ?? []), ...details.keys]),
+          );
+        }),
+      subscribe: pokeService.subscribe,
+    });
 
-      const lastMutationID = mutations[mutations.length - 1].id;
-      yield* Effect.tryPromise({
-        try: () =>
-          db
-            .updateTable("replicache_client")
-            .set({ last_mutation_id: lastMutationID })
-            .where("id", "=", clientID)
-            .execute(),
-        catch: (cause) => new ReplicachePushError({ cause }),
-      });
-    } catch (e) {
-      yield* Effect.fail(new ReplicachePushError({ cause: e }));
-    }
+    yield* Effect.acquireUseRelease(
+      tryTrx(() => db.startTransaction().execute()),
+      (trx) =>
+        processMutations(
+          trx,
+          clientGroupID as ReplicacheClientGroupId,
+          mutations,
+          userId,
+        ).pipe(
+          Effect.andThen(tryTrx(() => trx.commit().execute())),
+          Effect.provideService(Db, trx),
+          Effect.provideService(PokeService, deferredPokeService),
+        ),
+      (trx, exit) =>
+        Exit.isSuccess(exit)
+          ? Effect.void
+          : tryTrx(() => trx.rollback().execute()).pipe(Effect.ignore),
+    );
 
-    // --------------------------------------------------
-    // --- THIS BLOCK IS THE FIX ---
-    // We remove the redundant poke call from here, as the individual
-    // features (createNote, updateNote) are already handling it.
-    // --------------------------------------------------
-    //
-    // yield* pokeService.poke(userId).pipe(
-    //   Effect.catchAllDefect((defect) => {
-    //     const error = toError(defect);
-    //     return serverLog(
-    //       "error",
-    //       `Failed to send poke after push: ${error.message}`,
-    //       userId,
-    //       "Replicache:Push:Poke",
-    //     );
-    //   }),
-    // );
+    yield* Effect.forEach(pendingPokes, ([pokedUserId, keys]) =>
+      pokeService.poke(
+        pokedUserId,
+        keys === null ? { clientGroupID } : { clientGroupID, keys: [...keys] },
+      ),
+    );
 
     yield* serverLog(
       "info",
@@ -199,7 +545,7 @@ export const handlePush = (
       "Replicache:Push:Success",
     );
   }).pipe(
-    Effect.catchAll((error) =>
+    Effect.tapError((error) =>
       serverLog("error", { error }, "Push failed", "Replicache:Push:Failure"),
     ),
   );
@@ -0,0 +1,64 @@
+// FILE: replicache/schemaVersions.ts
+import { Data } from "effect";
+import type { ReadonlyJSONValue } from "replicache";
+import type { Note } from "../types/generated/public/Note";
+import type { Block } from "../types/generated/public/Block";
+import type { SyncedTag } from "../lib/shared/tags";
+
+/**
+ * Pull and push requests from a client whose schema version this server no
+ * longer (or does not yet) speak. Answered with Replicache's
+ * `VersionNotSupported` response, which makes the client reload.
+ */
+export class SchemaVersionNotSupportedError extends Data.TaggedError(
+  "SchemaVersionNotSupportedError",
+)<{
+  readonly schemaVersion: string;
+}> {}
+
+/** Shapes a note, block or tag into the value stored under its key. */
+export type RecordSerializer = (
+  record: Note | Block | SyncedTag,
+) => ReadonlyJSONValue;
+
+/** Version 1: the database row, with dates as ISO strings. */
+const serializeRowV1: RecordSerializer = (record) => {
+  if ("note_ids" in record) {
+    return { ...record, created_at: record.created_at.toISOString() };
+  }
+  if ("file_path" in record) {
+    return {
+      ...record,
+      created_at: record.created_at.toISOString(),
+      updated_at: record.updated_at.toISOString(),
+      deleted_at: record.deleted_at?.toISOString() ?? null,
+      fields: record.fields as ReadonlyJSONValue,
+    };
+  }
+  return {
+    ...record,
+    created_at: record.created_at.toISOString(),
+    updated_at: record.updated_at.toISOString(),
+    deleted_at: record.deleted_at?.toISOString() ?? null,
+  };
+};
+
+/**
+ * Every client schema version the server can serve, and how it shapes
+ * records for each. When the shape changes, bump `REPLICACHE_SCHEMA_VERSION`
+ * and add an entry here; keep the old entries for as long as clients on
+ * them should keep syncing (and have their offline mutations recovered).
+ *
+ * Clients that predate schema versions send "" and store version 1 rows.
+ */
+const SERIALIZERS: Readonly<Record<string, RecordSerializer>> = {
+  "": serializeRowV1,
+  "1": serializeRowV1,
+};
+
+export const serializerFor = (
+  schemaVersion: string,
+): RecordSerializer | undefined =>
+  Object.hasOwn(SERIALIZERS, schemaVersion)
+    ? SERIALIZERS[schemaVersion]
+    : undefined;
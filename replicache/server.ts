@@ -3,6 +3,11 @@
 
 import { handlePull, type PullRequest } from "./pull";
 import { handlePush } from "./push";
+import {
+  dismissMutationError,
+  listMutationErrors,
+  type RejectedMutation,
+} from "./mutationErrors";
 
-export { handlePull, handlePush };
-export type { PullRequest };
+export { handlePull, handlePush, dismissMutationError, listMutationErrors };
+export type { PullRequest, RejectedMutation };
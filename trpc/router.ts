@@ -3,6 +3,7 @@ import { router } from "./trpc";
 import { noteRouter } from "./routers/note";
 import { authRouter } from "./routers/auth";
 import { logRouter } from "./routers/log";
+import { replicacheRouter } from "./routers/replicache";
 
 /**
  * This is the main router for your tRPC API.
@@ -12,6 +13,7 @@ export const appRouter = router({
   note: noteRouter,
   auth: authRouter,
   log: logRouter,
+  replicache: replicacheRouter,
 });
 
 // Export the type of your AppRouter. This is the crucial part
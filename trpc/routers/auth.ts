@@ -8,6 +8,7 @@ import { changePasswordProcedure } from "../../features/auth/procedures/changePa
 import { requestPasswordResetProcedure } from "../../features/auth/procedures/requestPasswordReset";
 import { resetPasswordProcedure } from "../../features/auth/procedures/resetPassword";
 import { verifyEmailProcedure } from "../../features/auth/procedures/verifyEmail";
+import { setTimeZoneProcedure } from "../../features/auth/procedures/setTimeZone";
 
 export const authRouter = router({
   signup: signupProcedure,
@@ -18,4 +19,5 @@ export const authRouter = router({
   requestPasswordReset: requestPasswordResetProcedure,
   resetPassword: resetPasswordProcedure,
   verifyEmail: verifyEmailProcedure,
+  setTimeZone: setTimeZoneProcedure,
 });
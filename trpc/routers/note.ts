@@ -3,11 +3,16 @@ import { router, createPermissionProtectedProcedure } from "../trpc";
 import { getNotes } from "../../features/notes/getNotes";
 import { getNote } from "../../features/notes/getNote";
 import { updateNote } from "../../features/notes/updateNote";
+import { listNoteRevisions } from "../../features/notes/listNoteRevisions";
+import { diffNoteRevisions } from "../../features/notes/diffNoteRevisions";
+import { queryBlocks } from "../../features/notes/queryBlocks";
 import { perms } from "../../lib/shared/permissions";
 import { runServerPromise } from "../../lib/server/runtime";
 import { NoteIdSchema } from "../../lib/shared/schemas";
+import { parseQuery } from "../../lib/shared/query";
 
 // --- Schema Imports ---
+import { Either } from "effect";
 import { Schema } from "@effect/schema";
 import { s } from "../validator";
 
@@ -23,6 +28,36 @@ const UpdateNoteInput = Schema.Struct({
   content: Schema.String,
 });
 
+const RevisionIdSchema = Schema.String.pipe(
+  Schema.pattern(/^\d+$/, { message: () => "Invalid revision ID." }),
+);
+
+const RevisionDiffInput = Schema.Struct({
+  noteId: NoteIdSchema,
+  fromRevisionId: RevisionIdSchema,
+  // Omitted to compare against the note as it is now.
+  toRevisionId: Schema.optionalWith(RevisionIdSchema, { exact: true }),
+});
+
+const QueryInput = Schema.Struct({
+  // Checked here so a malformed query is the caller's error, with the
+  // parser's message.
+  query: Schema.String.pipe(
+    Schema.filter((query) =>
+      Either.match(parseQuery(query), {
+        onLeft: (error) => `${error.message} (at ${error.position})`,
+        onRight: () => true,
+      }),
+    ),
+  ),
+  offset: Schema.optionalWith(Schema.Int.pipe(Schema.nonNegative()), {
+    default: () => 0,
+  }),
+  limit: Schema.optionalWith(Schema.Int.pipe(Schema.between(1, 500)), {
+    default: () => 100,
+  }),
+});
+
 export const noteRouter = router({
   list: createPermissionProtectedProcedure(perms.note.read).query(({ ctx }) =>
     runServerPromise(getNotes(ctx.user.id)),
@@ -43,4 +78,31 @@ export const noteRouter = router({
       // This now correctly calls the refactored updateNote feature
       return runServerPromise(updateNote(id, ctx.user.id, noteUpdateData));
     }),
+
+  revisions: createPermissionProtectedProcedure(perms.note.read)
+    .input(s(GetByIdInput))
+    .query(({ input, ctx }) =>
+      runServerPromise(listNoteRevisions(input.id, ctx.user.id)),
+    ),
+
+  revisionDiff: createPermissionProtectedProcedure(perms.note.read)
+    .input(s(RevisionDiffInput))
+    .query(({ input, ctx }) =>
+      runServerPromise(
+        diffNoteRevisions(
+          input.noteId,
+          ctx.user.id,
+          input.fromRevisionId,
+          input.toRevisionId,
+        ),
+      ),
+    ),
+
+  query: createPermissionProtectedProcedure(perms.note.read)
+    .input(s(QueryInput))
+    .query(({ input, ctx }) =>
+      runServerPromise(
+        queryBlocks(ctx.user.id, input.query, input.offset, input.limit),
+      ),
+    ),
 });
@@ -0,0 +1,45 @@
+// FILE: trpc/routers/replicache.ts
+import { router, createPermissionProtectedProcedure } from "../trpc";
+import {
+  dismissMutationError,
+  listMutationErrors,
+} from "../../replicache/server";
+import { perms } from "../../lib/shared/permissions";
+import { runServerPromise } from "../../lib/server/runtime";
+import type { ReplicacheClientGroupId } from "../../types/generated/public/ReplicacheClientGroup";
+
+// --- Schema Imports ---
+import { Schema } from "@effect/schema";
+import { s } from "../validator";
+import { MutationErrorIdSchema } from "../../lib/shared/schemas";
+
+const MutationErrorsInput = Schema.Struct({
+  clientGroupID: Schema.String,
+});
+
+const DismissMutationErrorInput = Schema.Struct({
+  id: MutationErrorIdSchema,
+});
+
+export const replicacheRouter = router({
+  /**
+   * Lists the mutations from this client group that the server rejected
+   * during a push, oldest first.
+   */
+  mutationErrors: createPermissionProtectedProcedure(perms.note.read)
+    .input(s(MutationErrorsInput))
+    .query(({ input, ctx }) =>
+      runServerPromise(
+        listMutationErrors(
+          ctx.user.id,
+          input.clientGroupID as ReplicacheClientGroupId,
+        ),
+      ),
+    ),
+
+  dismissMutationError: createPermissionProtectedProcedure(perms.note.read)
+    .input(s(DismissMutationErrorInput))
+    .mutation(({ input, ctx }) =>
+      runServerPromise(dismissMutationError(ctx.user.id, input.id)),
+    ),
+});
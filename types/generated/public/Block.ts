@@ -41,6 +41,10 @@ export default interface BlockTable {
   updated_at: ColumnType<Date, Date | string | undefined, Date | string>;
 
   note_id: ColumnType<NoteId | null, NoteId | null, NoteId | null>;
+
+  deleted_at: ColumnType<Date | null, Date | string | null, Date | string | null>;
+
+  done: ColumnType<boolean, boolean | undefined, boolean>;
 }
 
 export type Block = Selectable<BlockTable>;
@@ -0,0 +1,36 @@
+// @generated
+// This file is automatically generated by Kanel. Do not modify manually.
+
+import type { UserId } from './User';
+import type { ReplicacheClientGroupId } from './ReplicacheClientGroup';
+import type { ColumnType, Selectable, Insertable, Updateable } from 'kysely';
+
+/** Identifier type for public.mutation_error */
+export type MutationErrorId = string & { __brand: 'public.mutation_error' };
+
+/** Represents the table public.mutation_error */
+export default interface MutationErrorTable {
+  id: ColumnType<MutationErrorId, MutationErrorId | undefined, MutationErrorId>;
+
+  user_id: ColumnType<UserId, UserId, UserId>;
+
+  client_group_id: ColumnType<ReplicacheClientGroupId, ReplicacheClientGroupId, ReplicacheClientGroupId>;
+
+  client_id: ColumnType<string, string, string>;
+
+  mutation_id: ColumnType<number, number, number>;
+
+  name: ColumnType<string, string, string>;
+
+  args: ColumnType<unknown, unknown, unknown>;
+
+  reason: ColumnType<string, string, string>;
+
+  created_at: ColumnType<Date, Date | string | undefined, Date | string>;
+}
+
+export type MutationError = Selectable<MutationErrorTable>;
+
+export type NewMutationError = Insertable<MutationErrorTable>;
+
+export type MutationErrorUpdate = Updateable<MutationErrorTable>;
@@ -22,6 +22,8 @@ export default interface NoteTable {
   updated_at: ColumnType<Date, Date | string | undefined, Date | string>;
 
   version: ColumnType<number, number | undefined, number>;
+
+  deleted_at: ColumnType<Date | null, Date | string | null, Date | string | null>;
 }
 
 export type Note = Selectable<NoteTable>;
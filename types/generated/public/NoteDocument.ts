@@ -0,0 +1,29 @@
+// @generated
+// This file is automatically generated by Kanel. Do not modify manually.
+
+import type { NoteId } from './Note';
+import type { UserId } from './User';
+import type { ColumnType, Selectable, Insertable, Updateable } from 'kysely';
+
+/** Represents the table public.note_document */
+export default interface NoteDocumentTable {
+  note_id: ColumnType<NoteId, NoteId, NoteId>;
+
+  user_id: ColumnType<UserId, UserId, UserId>;
+
+  state: ColumnType<Buffer, Buffer, Buffer>;
+
+  flattened_through: ColumnType<string, string | undefined, string>;
+
+  flattened_version: ColumnType<number, number, number>;
+
+  flattened_content: ColumnType<string, string, string>;
+
+  updated_at: ColumnType<Date, Date | string | undefined, Date | string>;
+}
+
+export type NoteDocument = Selectable<NoteDocumentTable>;
+
+export type NewNoteDocument = Insertable<NoteDocumentTable>;
+
+export type NoteDocumentUpdate = Updateable<NoteDocumentTable>;
@@ -0,0 +1,25 @@
+// @generated
+// This file is automatically generated by Kanel. Do not modify manually.
+
+import type { NoteId } from './Note';
+import type { ColumnType, Selectable, Insertable, Updateable } from 'kysely';
+
+/** Identifier type for public.note_document_update */
+export type NoteDocumentUpdateId = string & { __brand: 'public.note_document_update' };
+
+/** Represents the table public.note_document_update */
+export default interface NoteDocumentUpdateTable {
+  id: ColumnType<NoteDocumentUpdateId, NoteDocumentUpdateId | undefined, NoteDocumentUpdateId>;
+
+  note_id: ColumnType<NoteId, NoteId, NoteId>;
+
+  update: ColumnType<Buffer, Buffer, Buffer>;
+
+  created_at: ColumnType<Date, Date | string | undefined, Date | string>;
+}
+
+export type NoteDocumentUpdate = Selectable<NoteDocumentUpdateTable>;
+
+export type NewNoteDocumentUpdate = Insertable<NoteDocumentUpdateTable>;
+
+export type NoteDocumentUpdateUpdate = Updateable<NoteDocumentUpdateTable>;
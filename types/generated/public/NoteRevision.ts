@@ -0,0 +1,34 @@
+// @generated
+// This file is automatically generated by Kanel. Do not modify manually.
+
+import type { NoteId } from './Note';
+import type { UserId } from './User';
+import type { ColumnType, Selectable, Insertable, Updateable } from 'kysely';
+
+/** Identifier type for public.note_revision */
+export type NoteRevisionId = string & { __brand: 'public.note_revision' };
+
+/** Represents the table public.note_revision */
+export default interface NoteRevisionTable {
+  id: ColumnType<NoteRevisionId, NoteRevisionId | undefined, NoteRevisionId>;
+
+  note_id: ColumnType<NoteId, NoteId, NoteId>;
+
+  user_id: ColumnType<UserId, UserId, UserId>;
+
+  title: ColumnType<string, string, string>;
+
+  content: ColumnType<string, string, string>;
+
+  note_version: ColumnType<number, number, number>;
+
+  created_at: ColumnType<Date, Date | string | undefined, Date | string>;
+
+  updated_at: ColumnType<Date, Date | string | undefined, Date | string>;
+}
+
+export type NoteRevision = Selectable<NoteRevisionTable>;
+
+export type NewNoteRevision = Insertable<NoteRevisionTable>;
+
+export type NoteRevisionUpdate = Updateable<NoteRevisionTable>;
@@ -0,0 +1,24 @@
+// @generated
+// This file is automatically generated by Kanel. Do not modify manually.
+
+import type { ColumnType, Selectable, Insertable, Updateable } from 'kysely';
+
+/** Identifier type for public.poke_log */
+export type PokeLogId = string & { __brand: 'public.poke_log' };
+
+/** Represents the table public.poke_log */
+export default interface PokeLogTable {
+  id: ColumnType<PokeLogId, PokeLogId | undefined, PokeLogId>;
+
+  user_id: ColumnType<string, string, string>;
+
+  payload: ColumnType<unknown | null, unknown | null, unknown | null>;
+
+  created_at: ColumnType<Date, Date | string | undefined, Date | string>;
+}
+
+export type PokeLog = Selectable<PokeLogTable>;
+
+export type NewPokeLog = Insertable<PokeLogTable>;
+
+export type PokeLogUpdate = Updateable<PokeLogTable>;
@@ -1,7 +1,6 @@
 // @generated
 // This file is automatically generated by Kanel. Do not modify manually.
 
-import type { default as ClientViewRecordTable } from './ClientViewRecord';
 import type { default as PasswordResetTokenTable } from './PasswordResetToken';
 import type { default as ReplicacheClientGroupTable } from './ReplicacheClientGroup';
 import type { default as TagTable } from './Tag';
@@ -15,10 +14,16 @@ import type { default as NoteTable } from './Note';
 import type { default as KyselyMigrationTable } from './KyselyMigration';
 import type { default as NoteTagTable } from './NoteTag';
 import type { default as BlockTable } from './Block';
+import type { default as MutationErrorTable } from './MutationError';
+import type { default as UserSyncVersionTable } from './UserSyncVersion';
+import type { default as SyncChangeTable } from './SyncChange';
+import type { default as PokeLogTable } from './PokeLog';
+import type { default as NoteRevisionTable } from './NoteRevision';
+import type { default as NoteDocumentTable } from './NoteDocument';
+import type { default as NoteDocumentUpdateTable } from './NoteDocumentUpdate';
+import type { default as TaskCompletionTable } from './TaskCompletion';
 
 export default interface PublicSchema {
-  client_view_record: ClientViewRecordTable;
-
   password_reset_token: PasswordResetTokenTable;
 
   replicache_client_group: ReplicacheClientGroupTable;
@@ -44,4 +49,20 @@ export default interface PublicSchema {
   note_tag: NoteTagTable;
 
   block: BlockTable;
+
+  mutation_error: MutationErrorTable;
+
+  user_sync_version: UserSyncVersionTable;
+
+  sync_change: SyncChangeTable;
+
+  poke_log: PokeLogTable;
+
+  note_revision: NoteRevisionTable;
+
+  note_document: NoteDocumentTable;
+
+  note_document_update: NoteDocumentUpdateTable;
+
+  task_completion: TaskCompletionTable;
 }
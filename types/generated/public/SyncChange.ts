@@ -0,0 +1,23 @@
+// @generated
+// This file is automatically generated by Kanel. Do not modify manually.
+
+import type { ColumnType, Selectable, Insertable, Updateable } from 'kysely';
+
+/** Represents the table public.sync_change */
+export default interface SyncChangeTable {
+  user_id: ColumnType<string, string, string>;
+
+  key: ColumnType<string, string, string>;
+
+  sync_version: ColumnType<string, string, string>;
+
+  deleted: ColumnType<boolean, boolean | undefined, boolean>;
+
+  changed_at: ColumnType<Date, Date | string | undefined, Date | string>;
+}
+
+export type SyncChange = Selectable<SyncChangeTable>;
+
+export type NewSyncChange = Insertable<SyncChangeTable>;
+
+export type SyncChangeUpdate = Updateable<SyncChangeTable>;
@@ -0,0 +1,37 @@
+// @generated
+// This file is automatically generated by Kanel. Do not modify manually.
+
+import type { NoteId } from './Note';
+import type { UserId } from './User';
+import type { BlockId } from './Block';
+import type { ColumnType, Selectable, Insertable, Updateable } from 'kysely';
+
+/** Identifier type for public.task_completion */
+export type TaskCompletionId = string & { __brand: 'public.task_completion' };
+
+/** Represents the table public.task_completion */
+export default interface TaskCompletionTable {
+  id: ColumnType<TaskCompletionId, TaskCompletionId | undefined, TaskCompletionId>;
+
+  note_id: ColumnType<NoteId, NoteId, NoteId>;
+
+  user_id: ColumnType<UserId, UserId, UserId>;
+
+  block_id: ColumnType<BlockId | null, BlockId | null, BlockId | null>;
+
+  content: ColumnType<string, string, string>;
+
+  repeat: ColumnType<string, string, string>;
+
+  due: ColumnType<Date | null, Date | string | null, Date | string | null>;
+
+  next_due: ColumnType<Date, Date | string, Date | string>;
+
+  completed_at: ColumnType<Date, Date | string | undefined, Date | string>;
+}
+
+export type TaskCompletion = Selectable<TaskCompletionTable>;
+
+export type NewTaskCompletion = Insertable<TaskCompletionTable>;
+
+export type TaskCompletionUpdate = Updateable<TaskCompletionTable>;
@@ -21,6 +21,8 @@ export default interface UserTable {
   avatar_url: ColumnType<string | null, string | null, string | null>;
 
   email_verified: ColumnType<boolean, boolean | undefined, boolean>;
+
+  timezone: ColumnType<string | null, string | null | undefined, string | null>;
 }
 
 export type User = Selectable<UserTable>;
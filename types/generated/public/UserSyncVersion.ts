@@ -0,0 +1,19 @@
+// @generated
+// This file is automatically generated by Kanel. Do not modify manually.
+
+import type { ColumnType, Selectable, Insertable, Updateable } from 'kysely';
+
+/** Represents the table public.user_sync_version */
+export default interface UserSyncVersionTable {
+  user_id: ColumnType<string, string, string>;
+
+  version: ColumnType<string, string | undefined, string>;
+
+  tombstone_floor: ColumnType<string, string | undefined, string>;
+}
+
+export type UserSyncVersion = Selectable<UserSyncVersionTable>;
+
+export type NewUserSyncVersion = Insertable<UserSyncVersionTable>;
+
+export type UserSyncVersionUpdate = Updateable<UserSyncVersionTable>;
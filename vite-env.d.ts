@@ -9,6 +9,7 @@ declare module "*.module.css" {
 }
 
 interface ImportMetaEnv {
+  readonly PROD: boolean;
   readonly VITE_SILENT_CLIENT_LOGGING: string;
 }
 
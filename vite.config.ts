@@ -11,6 +11,18 @@ export default defineConfig(({ command }) => {
     build: {
       outDir: "dist/public",
       emptyOutDir: true,
+      rollupOptions: {
+        input: {
+          main: "index.html",
+          // The service worker must live at a stable URL at the root, so
+          // it is the one entry that skips the hashed assets/ naming.
+          sw: "lib/client/sw.ts",
+        },
+        output: {
+          entryFileNames: (chunk) =>
+            chunk.name === "sw" ? "sw.js" : "assets/[name]-[hash].js",
+        },
+      },
     },
     server: {
       proxy: {